@@ -0,0 +1,123 @@
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { HANDLING_LABELS, type IssueKind, type QualityIssue, type QualityReport } from "@/lib/quality";
+
+const KIND_LABELS: Record<IssueKind, string> = {
+  duplicate: "Duplicate",
+  out_of_range: "Implausible",
+  outlier: "Outlier",
+  missing: "Missing",
+};
+
+interface DataQualityReportProps {
+  report: QualityReport;
+  applied: boolean; // Whether drops and replacements were carried out or only previewed
+  rowLabel?: (issue: QualityIssue) => string; // How issue rows are referred to (default: row id or "#<index + 1>")
+}
+
+const formatValue = (value: number | null | undefined) => (value === null || value === undefined ? "—" : value.toLocaleString());
+
+const defaultRowLabel = (issue: QualityIssue) => issue.row_id?.slice(0, 8) ?? `#${issue.row + 1}`;
+
+const DataQualityReport = ({ report, applied, rowLabel = defaultRowLabel }: DataQualityReportProps) => {
+  const columns = Object.entries(report.columns);
+  const { handling } = report.config;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+        {[
+          { label: "Issues found", value: report.issue_count, color: "text-orange-600" },
+          { label: "Duplicate rows", value: report.duplicate_rows, color: "text-blue-600" },
+          { label: applied ? "Rows dropped" : "Rows to drop", value: report.dropped_rows, color: "text-red-600" },
+          { label: applied ? "Rows corrected" : "Rows to correct", value: report.changed_rows, color: "text-green-600" },
+        ].map((stat) => (
+          <div key={stat.label} className="rounded-lg border p-4">
+            <p className={`text-3xl font-bold ${stat.color}`}>{stat.value.toLocaleString()}</p>
+            <p className="text-sm text-muted-foreground mt-1">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Outliers by {report.config.outlier_method === "iqr"
+          ? `IQR × ${report.config.iqr_multiplier}`
+          : `|z| > ${report.config.z_threshold}`}{" "}
+        within each crop. Handling: duplicates {HANDLING_LABELS[handling.duplicate].toLowerCase()}, implausible values{" "}
+        {HANDLING_LABELS[handling.out_of_range].toLowerCase()}, outliers {HANDLING_LABELS[handling.outlier].toLowerCase()},
+        missing values {HANDLING_LABELS[handling.missing].toLowerCase()}.
+      </p>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Column</TableHead>
+            <TableHead className="text-right">Missing</TableHead>
+            <TableHead className="text-right">Implausible</TableHead>
+            <TableHead>Plausible range</TableHead>
+            <TableHead className="text-right">Outliers</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {columns.map(([column, quality]) => (
+            <TableRow key={column}>
+              <TableCell className="font-medium">{column}</TableCell>
+              <TableCell className={`text-right ${quality.missing > 0 ? "text-orange-600 font-semibold" : ""}`}>
+                {quality.missing}
+              </TableCell>
+              <TableCell className={`text-right ${quality.out_of_range > 0 ? "text-red-600 font-semibold" : ""}`}>
+                {quality.out_of_range}
+              </TableCell>
+              <TableCell className="text-muted-foreground">
+                {quality.plausible_range ? `${quality.plausible_range[0]} – ${quality.plausible_range[1]}` : "per crop"}
+              </TableCell>
+              <TableCell className={`text-right ${quality.outliers > 0 ? "text-orange-600 font-semibold" : ""}`}>
+                {quality.outliers}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {report.issues.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-2">
+            Issues{report.issue_count > report.issues.length && ` (first ${report.issues.length} of ${report.issue_count})`}
+          </h3>
+          <ScrollArea className="h-64 rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Issue</TableHead>
+                  <TableHead>Column</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead>Handling</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.issues.map((issue, i) => (
+                  <TableRow key={i}>
+                    <TableCell className="font-mono text-xs">{rowLabel(issue)}</TableCell>
+                    <TableCell>
+                      <Badge variant={issue.kind === "out_of_range" ? "destructive" : "secondary"}>{KIND_LABELS[issue.kind]}</Badge>
+                    </TableCell>
+                    <TableCell>{issue.column ?? "—"}</TableCell>
+                    <TableCell className="text-right">{formatValue(issue.value)}</TableCell>
+                    <TableCell>
+                      {HANDLING_LABELS[issue.action]}
+                      {issue.replacement !== undefined && ` → ${formatValue(issue.replacement)}`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataQualityReport;
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Archive, ArchiveRestore, CheckCircle2, Database as DatabaseIcon, Table2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { functionErrorMessage } from "@/lib/functions";
+
+type Dataset = Database["public"]["Tables"]["datasets"]["Row"];
+type DatasetAction = "activate" | "archive" | "restore" | "delete";
+
+interface DatasetVersionsProps {
+  refreshTrigger: number;
+}
+
+const DatasetVersions = ({ refreshTrigger }: DatasetVersionsProps) => {
+  const { toast } = useToast();
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pending, setPending] = useState<string | null>(null); // Dataset id with an action in flight
+
+  const loadDatasets = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("datasets")
+      .select("*")
+      .order("created_at", { ascending: false });
+    if (error) {
+      console.error("Error loading datasets:", error);
+      toast({ title: "Could not load datasets", description: error.message, variant: "destructive" });
+    }
+    setDatasets(data ?? []);
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    loadDatasets();
+  }, [loadDatasets, refreshTrigger]);
+
+  const runAction = async (dataset: Dataset, action: DatasetAction) => {
+    const label = `${dataset.name} v${dataset.version}`;
+    if (action === "delete" && !window.confirm(`Delete ${label} and its ${dataset.row_count} rows? This cannot be undone.`)) {
+      return;
+    }
+    setPending(dataset.id);
+    try {
+      const { error } = await supabase.functions.invoke("manage-dataset", {
+        body: { action, dataset_id: dataset.id },
+      });
+      if (error) throw new Error(await functionErrorMessage(error, `Unable to ${action} ${label}.`));
+      await loadDatasets();
+    } catch (error) {
+      console.error("Dataset action error:", error);
+      toast({
+        title: "Action Failed",
+        description: error instanceof Error ? error.message : `Unable to ${action} ${label}.`,
+        variant: "destructive",
+      });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DatabaseIcon className="h-5 w-5" />
+          Dataset Versions
+        </CardTitle>
+        <CardDescription>
+          Models are trained on the active version. Archived versions are kept for reference; deleting a version removes its rows.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-10 w-full" />)}
+          </div>
+        ) : datasets.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No datasets yet. Generate or upload a dataset first.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Dataset</TableHead>
+                <TableHead className="text-right">Rows</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {datasets.map((dataset) => {
+                const archived = dataset.status === "archived";
+                const busy = pending === dataset.id;
+                return (
+                  <TableRow key={dataset.id} className={archived ? "opacity-60" : undefined}>
+                    <TableCell>
+                      <p className="font-medium">{dataset.name} v{dataset.version}</p>
+                      {dataset.description && <p className="text-xs text-muted-foreground">{dataset.description}</p>}
+                    </TableCell>
+                    <TableCell className="text-right">{dataset.row_count.toLocaleString()}</TableCell>
+                    <TableCell>{new Date(dataset.created_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {dataset.is_active ? (
+                        <Badge className="gap-1"><CheckCircle2 className="h-3 w-3" />Active</Badge>
+                      ) : archived ? (
+                        <Badge variant="outline">Archived</Badge>
+                      ) : (
+                        <Badge variant="secondary">Ready</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button asChild size="icon" variant="ghost" aria-label={`Explore ${dataset.name} v${dataset.version}`}>
+                          <Link to={`/dataset?id=${dataset.id}`}>
+                            <Table2 className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                        {!dataset.is_active && !archived && (
+                          <Button size="sm" variant="outline" disabled={busy} onClick={() => runAction(dataset, "activate")}>
+                            Activate
+                          </Button>
+                        )}
+                        {!dataset.is_active && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            disabled={busy}
+                            aria-label={archived ? `Restore ${dataset.name} v${dataset.version}` : `Archive ${dataset.name} v${dataset.version}`}
+                            onClick={() => runAction(dataset, archived ? "restore" : "archive")}
+                          >
+                            {archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                          </Button>
+                        )}
+                        {!dataset.is_active && (
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="text-destructive hover:bg-destructive/10"
+                            disabled={busy}
+                            aria-label={`Delete ${dataset.name} v${dataset.version}`}
+                            onClick={() => runAction(dataset, "delete")}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DatasetVersions;
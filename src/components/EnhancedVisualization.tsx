@@ -1,18 +1,15 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import {
   BarChart, Bar, PieChart, Pie, Cell, ScatterChart, Scatter, ZAxis,
   RadarChart, Radar, PolarGrid, PolarAngleAxis, PolarRadiusAxis, ReferenceLine,
-  XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Line
+  XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Line, ErrorBar
 } from 'recharts';
-import { TrendingUp, Activity, Target, Award, ThermometerSun, Cloud, Droplets, Wind, Info } from 'lucide-react';
-import { Database } from '@/integrations/supabase/types';
-
-// Use the generated types
-type Prediction = Database['public']['Tables']['predictions']['Row'];
-type ModelMetrics = Database['public']['Tables']['model_metrics']['Row'] & {
-    tuned_parameters?: string; // Add if you store tuned params as string
-};
+import { TrendingUp, Activity, Target, Award, ThermometerSun, Cloud, Droplets, Wind, Info, Sprout } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { bestOutput, type FeatureAttributions, type ModelMetrics, type Prediction } from '@/lib/predictions';
 
 interface EnhancedVisualizationProps {
   prediction: Prediction | null; // Allow null
@@ -63,6 +60,21 @@ function getOptimalRainfall(crop: string | null): number {
   return rainfall[crop?.toLowerCase() ?? ''] || 100;
 }
 
+// [below, above] distances from the estimate, as recharts' ErrorBar expects
+function intervalOffsets(estimate: number, lower?: number | null, upper?: number | null): [number, number] | undefined {
+    if (lower == null || upper == null) return undefined;
+    return [Math.max(0, estimate - lower), Math.max(0, upper - estimate)];
+}
+
+// Largest contributions by magnitude, signed (kg/ha)
+const prepareAttributionData = (attributions: FeatureAttributions | null | undefined) => {
+  if (!attributions) return [];
+  return Object.entries(attributions.contributions)
+    .map(([feature, contribution]) => ({ feature, contribution }))
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+    .slice(0, 10);
+};
+
 // Helper to prepare feature importance data
 const prepareFeatureImportanceData = (importances: Record<string, number> | null | undefined) => {
   if (!importances) return [];
@@ -74,6 +86,7 @@ const prepareFeatureImportanceData = (importances: Record<string, number> | null
 };
 
 const EnhancedVisualization: React.FC<EnhancedVisualizationProps> = ({ prediction, modelMetrics, featureImportances }) => {
+  const [importanceView, setImportanceView] = useState<'global' | 'local'>('global');
 
   if (!prediction) {
       return (
@@ -88,33 +101,26 @@ const EnhancedVisualization: React.FC<EnhancedVisualizationProps> = ({ predictio
       );
   }
 
-  // Safely access prediction values with null checks
-  const predictedYieldLR = prediction.predicted_yield_lr ?? 0;
-  const predictedYieldRF = prediction.predicted_yield_rf ?? 0;
-  const bestYield = Math.max(predictedYieldLR, predictedYieldRF);
+  const best = bestOutput(prediction);
+  const bestYield = best?.predicted_yield ?? 0;
   const bestModelName = prediction.best_model ?? 'N/A';
-
-  const lrMetrics = modelMetrics.find(m => m.model_name === "Linear Regression");
-  const rfMetrics = modelMetrics.find(m => m.model_name === "Random Forest");
-
-  const modelComparisonData = [
-    {
-      name: "Linear Regression",
-      yield: predictedYieldLR,
-      accuracy: (lrMetrics?.r2_score ?? 0) * 100,
-    },
-    {
-      name: "Random Forest",
-      yield: predictedYieldRF,
-      accuracy: (rfMetrics?.r2_score ?? 0) * 100,
-    },
-  ];
+  // Older predictions have no target crop; fall back to the recommended one
+  const crop = prediction.target_crop ?? prediction.predicted_crop;
+
+  // One bar per yield model that produced an output
+  const modelComparisonData = prediction.prediction_outputs.map((output) => ({
+    name: output.model_name,
+    yield: output.predicted_yield,
+    yieldRange: intervalOffsets(output.predicted_yield, output.yield_lower, output.yield_upper),
+    accuracy: (modelMetrics.find(m => m.model_name === output.model_name)?.r2_score ?? 0) * 100,
+  }));
+  const confidencePercent = prediction.confidence_level != null ? Math.round(prediction.confidence_level * 100) : null;
 
   const environmentalData = [
-    { factor: 'Temp', value: normalizeValue(prediction.temperature, 0, 45, 100), optimal: normalizeValue(getOptimalTemp(prediction.predicted_crop), 0, 45, 100) },
+    { factor: 'Temp', value: normalizeValue(prediction.temperature, 0, 45, 100), optimal: normalizeValue(getOptimalTemp(crop), 0, 45, 100) },
     { factor: 'Humid', value: normalizeValue(prediction.humidity, 0, 100, 100), optimal: 70 }, // Assuming 70% optimal generic
-    { factor: 'pH', value: normalizeValue(prediction.soil_ph, 4, 9, 100), optimal: normalizeValue(getOptimalPH(prediction.predicted_crop), 4, 9, 100) }, // Adjusted range for pH normalization
-    { factor: 'Rain', value: normalizeValue(prediction.rainfall, 0, 2500, 100), optimal: normalizeValue(getOptimalRainfall(prediction.predicted_crop), 0, 2500, 100) }, // Adjusted range
+    { factor: 'pH', value: normalizeValue(prediction.soil_ph, 4, 9, 100), optimal: normalizeValue(getOptimalPH(crop), 4, 9, 100) }, // Adjusted range for pH normalization
+    { factor: 'Rain', value: normalizeValue(prediction.rainfall, 0, 2500, 100), optimal: normalizeValue(getOptimalRainfall(crop), 0, 2500, 100) }, // Adjusted range
     // Add NPK if available and relevant normalization range known
   ];
 
@@ -127,20 +133,26 @@ const EnhancedVisualization: React.FC<EnhancedVisualizationProps> = ({ predictio
   const COLORS = ['hsl(var(--primary))', 'hsl(var(--muted))'];
 
   const featureImportanceData = prepareFeatureImportanceData(featureImportances);
+  const attributionData = prepareAttributionData(prediction.feature_attributions);
+  const cropRecommendations = (prediction.crop_recommendations ?? []).slice(0, 5);
 
   // Placeholder data for new plots using only the current prediction
   const actualVsPredictedData = [{ actual: bestYield, predicted: bestYield }]; // Simplified
   const residualData = [{ predicted: bestYield, residual: 0 }]; // Simplified
 
+  const imputed = prediction.imputed_features ?? {};
+  const imputedLabels = Object.keys(imputed).map((f) => f.charAt(0).toUpperCase() + f.slice(1));
+
    const inputParameters = [
-    { label: 'Temperature', value: prediction.temperature, unit: '°C', optimal: getOptimalTemp(prediction.predicted_crop), icon: <ThermometerSun className="h-5 w-5 text-orange-500" />, color: 'text-orange-500', actual: prediction.temperature },
+    { label: 'Temperature', value: prediction.temperature, unit: '°C', optimal: getOptimalTemp(crop), icon: <ThermometerSun className="h-5 w-5 text-orange-500" />, color: 'text-orange-500', actual: prediction.temperature },
     { label: 'Humidity', value: prediction.humidity, unit: '%', optimal: 70, icon: <Droplets className="h-5 w-5 text-teal-500" />, color: 'text-teal-500', actual: prediction.humidity },
-    { label: 'Soil pH', value: prediction.soil_ph, unit: '', optimal: getOptimalPH(prediction.predicted_crop), icon: <Wind className="h-5 w-5 text-gray-500" />, color: 'text-gray-500', actual: prediction.soil_ph },
-    { label: 'Rainfall', value: prediction.rainfall, unit: 'mm', optimal: getOptimalRainfall(prediction.predicted_crop), icon: <Cloud className="h-5 w-5 text-blue-500" />, color: 'text-blue-500', actual: prediction.rainfall },
+    { label: 'Soil pH', value: prediction.soil_ph, unit: '', optimal: getOptimalPH(crop), icon: <Wind className="h-5 w-5 text-gray-500" />, color: 'text-gray-500', actual: prediction.soil_ph },
+    { label: 'Rainfall', value: prediction.rainfall, unit: 'mm', optimal: getOptimalRainfall(crop), icon: <Cloud className="h-5 w-5 text-blue-500" />, color: 'text-blue-500', actual: prediction.rainfall },
     // Add NPK if available in prediction type and you have optimal values
-     { label: 'Nitrogen', value: (prediction as any).nitrogen, unit: 'kg/ha', optimal: 120, /* Placeholder optimal */ icon: <span className="font-bold text-green-700">N</span>, color: 'text-green-700', actual: (prediction as any).nitrogen },
-     { label: 'Phosphorus', value: (prediction as any).phosphorus, unit: 'kg/ha', optimal: 60, /* Placeholder optimal */ icon: <span className="font-bold text-purple-700">P</span>, color: 'text-purple-700', actual: (prediction as any).phosphorus },
-     { label: 'Potassium', value: (prediction as any).potassium, unit: 'kg/ha', optimal: 80, /* Placeholder optimal */ icon: <span className="font-bold text-yellow-700">K</span>, color: 'text-yellow-700', actual: (prediction as any).potassium },
+     // Empty NPK inputs show the imputed value the models used
+     { label: 'Nitrogen', value: prediction.nitrogen ?? imputed.nitrogen, unit: 'kg/ha', optimal: 120, /* Placeholder optimal */ icon: <span className="font-bold text-green-700">N</span>, color: 'text-green-700', actual: prediction.nitrogen, imputed: 'nitrogen' in imputed },
+     { label: 'Phosphorus', value: prediction.phosphorus ?? imputed.phosphorus, unit: 'kg/ha', optimal: 60, /* Placeholder optimal */ icon: <span className="font-bold text-purple-700">P</span>, color: 'text-purple-700', actual: prediction.phosphorus, imputed: 'phosphorus' in imputed },
+     { label: 'Potassium', value: prediction.potassium ?? imputed.potassium, unit: 'kg/ha', optimal: 80, /* Placeholder optimal */ icon: <span className="font-bold text-yellow-700">K</span>, color: 'text-yellow-700', actual: prediction.potassium, imputed: 'potassium' in imputed },
      { label: 'Fertilizer', value: prediction.fertilizer, unit: 'kg/ha', optimal: 150, /* Placeholder */ icon: <span className="text-xs text-lime-600">Fert</span>, color: 'text-lime-600', actual: prediction.fertilizer },
   ];
 
@@ -150,11 +162,12 @@ const EnhancedVisualization: React.FC<EnhancedVisualizationProps> = ({ predictio
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Predicted Crop</CardTitle>
+              <CardTitle className="text-sm font-medium">Crop</CardTitle>
               <Target className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold text-primary">{prediction.predicted_crop ?? 'N/A'}</div>
+              <div className="text-2xl font-bold text-primary">{crop ?? 'N/A'}</div>
+              <p className="text-xs text-muted-foreground">Recommended: {prediction.predicted_crop ?? 'N/A'}</p>
             </CardContent>
           </Card>
            <Card>
@@ -173,7 +186,11 @@ const EnhancedVisualization: React.FC<EnhancedVisualizationProps> = ({ predictio
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-green-600">{bestYield.toFixed(1)}</div>
-              <p className="text-xs text-muted-foreground">kg/ha</p>
+              <p className="text-xs text-muted-foreground">
+                {confidencePercent !== null && best?.yield_lower != null && best.yield_upper != null
+                  ? `kg/ha · ${confidencePercent}% range ${best.yield_lower.toFixed(0)}–${best.yield_upper.toFixed(0)}`
+                  : 'kg/ha'}
+              </p>
             </CardContent>
           </Card>
           <Card>
@@ -193,7 +210,10 @@ const EnhancedVisualization: React.FC<EnhancedVisualizationProps> = ({ predictio
         <Card>
           <CardHeader>
             <CardTitle>Model Yield & Accuracy</CardTitle>
-            <CardDescription>Comparing prediction outputs and R² scores</CardDescription>
+            <CardDescription>
+              Comparing prediction outputs and R² scores
+              {confidencePercent !== null && ` · error bars show the ${confidencePercent}% prediction interval`}
+            </CardDescription>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={250}>
@@ -204,7 +224,9 @@ const EnhancedVisualization: React.FC<EnhancedVisualizationProps> = ({ predictio
                 <YAxis yAxisId="right" orientation="right" label={{ value: 'R² (%)', angle: 90, position: 'insideRight', fontSize: 12, dy: -20 }} fontSize={12} domain={[0, 100]} />
                 <Tooltip contentStyle={{ fontSize: 12 }} />
                 <Legend wrapperStyle={{ fontSize: 12 }} />
-                <Bar yAxisId="left" dataKey="yield" fill="hsl(var(--primary))" name="Predicted Yield" radius={[4, 4, 0, 0]} />
+                <Bar yAxisId="left" dataKey="yield" fill="hsl(var(--primary))" name="Predicted Yield" radius={[4, 4, 0, 0]}>
+                  <ErrorBar dataKey="yieldRange" width={6} strokeWidth={1.5} stroke="hsl(var(--foreground))" />
+                </Bar>
                 <Bar yAxisId="right" dataKey="accuracy" fill="hsl(var(--secondary))" name="Model R² Score" radius={[4, 4, 0, 0]}/>
               </BarChart>
             </ResponsiveContainer>
@@ -275,12 +297,28 @@ const EnhancedVisualization: React.FC<EnhancedVisualizationProps> = ({ predictio
 
         {/* Feature Importance Chart */}
         <Card>
-          <CardHeader>
-            <CardTitle>Top Feature Importances ({bestModelName})</CardTitle>
-            <CardDescription>Most influential factors for this prediction</CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-2">
+            <div className="space-y-1.5">
+              <CardTitle>{importanceView === 'global' ? 'Top Feature Importances' : 'Feature Contributions'} ({bestModelName})</CardTitle>
+              <CardDescription>
+                {importanceView === 'global'
+                  ? 'Drop in held-out R² when each feature is shuffled'
+                  : `How each input moved this prediction from the ${prediction.feature_attributions?.baseline.toFixed(0) ?? '-'} kg/ha baseline`}
+              </CardDescription>
+            </div>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={importanceView}
+              onValueChange={(value) => value && setImportanceView(value as 'global' | 'local')}
+            >
+              <ToggleGroupItem value="global" className="text-xs">Global</ToggleGroupItem>
+              <ToggleGroupItem value="local" className="text-xs">This prediction</ToggleGroupItem>
+            </ToggleGroup>
           </CardHeader>
           <CardContent>
-             {featureImportanceData.length > 0 ? (
+             {importanceView === 'global' && featureImportanceData.length > 0 ? (
               <ResponsiveContainer width="100%" height={250}>
                   <BarChart data={featureImportanceData} layout="vertical" margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
                       <CartesianGrid strokeDasharray="3 3" opacity={0.5} />
@@ -290,14 +328,63 @@ const EnhancedVisualization: React.FC<EnhancedVisualizationProps> = ({ predictio
                       <Bar dataKey="importance" fill="hsl(var(--primary))" name="Importance" radius={[0, 4, 4, 0]} barSize={15} />
                   </BarChart>
               </ResponsiveContainer>
+            ) : importanceView === 'local' && attributionData.length > 0 ? (
+              <ResponsiveContainer width="100%" height={250}>
+                  <BarChart data={attributionData} layout="vertical" margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" opacity={0.5} />
+                      <XAxis type="number" fontSize={12} />
+                      <YAxis dataKey="feature" type="category" width={110} fontSize={10} interval={0} />
+                      <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" />
+                      <Tooltip formatter={(value: number) => `${value > 0 ? '+' : ''}${value.toFixed(1)} kg/ha`} contentStyle={{ fontSize: 12 }} />
+                      <Bar dataKey="contribution" name="Contribution" barSize={15}>
+                        {attributionData.map((entry) => (
+                          <Cell key={entry.feature} fill={entry.contribution >= 0 ? 'hsl(var(--primary))' : 'hsl(var(--destructive))'} />
+                        ))}
+                      </Bar>
+                  </BarChart>
+              </ResponsiveContainer>
             ) : (
                  <div className="h-[250px] flex items-center justify-center text-muted-foreground text-sm">
-                    <Info className="h-4 w-4 mr-2"/> Feature importance data not available for {bestModelName}.
+                    <Info className="h-4 w-4 mr-2"/>
+                    {importanceView === 'global'
+                      ? `Feature importance data not available for ${bestModelName}.`
+                      : 'No feature contributions stored for this prediction.'}
                  </div>
             )}
           </CardContent>
         </Card>
 
+        {/* Crop Recommendations */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Recommended Crops</CardTitle>
+            <CardDescription>Suitability of each trained crop for these conditions</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {cropRecommendations.length > 0 ? (
+              <ol className="space-y-4">
+                {cropRecommendations.map((rec, index) => (
+                  <li key={rec.crop} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="flex items-center gap-2 font-medium">
+                        <span className="text-muted-foreground w-5">{index + 1}.</span>
+                        {index === 0 && <Sprout className="h-4 w-4 text-green-600" />}
+                        {rec.crop}
+                      </span>
+                      <span className="text-muted-foreground">{(rec.probability * 100).toFixed(1)}%</span>
+                    </div>
+                    <Progress value={rec.probability * 100} className="h-2" />
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <div className="h-[250px] flex items-center justify-center text-muted-foreground text-sm">
+                <Info className="h-4 w-4 mr-2"/> No crop ranking stored for this prediction.
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Actual vs Predicted Plot (Placeholder) */}
         <Card>
             <CardHeader>
@@ -362,7 +449,11 @@ const EnhancedVisualization: React.FC<EnhancedVisualizationProps> = ({ predictio
       <Card>
         <CardHeader>
           <CardTitle>Input Parameter Analysis</CardTitle>
-          <CardDescription>Comparison with estimated optimal values for {prediction.predicted_crop ?? 'the crop'}</CardDescription>
+          <CardDescription>
+            Comparison with estimated optimal values for {crop ?? 'the crop'}
+            {imputedLabels.length > 0 &&
+              `. ${imputedLabels.join(', ')} ${imputedLabels.length === 1 ? 'was' : 'were'} not given and ${imputedLabels.length === 1 ? 'was' : 'were'} imputed with the crop's median in the training data.`}
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -376,6 +467,7 @@ const EnhancedVisualization: React.FC<EnhancedVisualizationProps> = ({ predictio
                     optimal={param.optimal}
                     icon={param.icon}
                     color={param.color}
+                    imputed={param.imputed}
                 />
             ))}
           </div>
@@ -386,13 +478,14 @@ const EnhancedVisualization: React.FC<EnhancedVisualizationProps> = ({ predictio
 };
 
 // Helper component for parameter rows
-const ParameterRow = ({ label, value, unit, optimal, icon: Icon, color }: {
+const ParameterRow = ({ label, value, unit, optimal, icon: Icon, color, imputed = false }: {
   label: string;
   value: number | null;
   unit: string;
   optimal: number | null;
   icon: React.ReactNode;
   color: string;
+  imputed?: boolean; // Not given by the user; value estimated from training data
 }) => {
   if (value === null || typeof value === 'undefined') return null; // Don't render if no value
 
@@ -423,7 +516,10 @@ const ParameterRow = ({ label, value, unit, optimal, icon: Icon, color }: {
       <div className="flex items-center gap-3">
         {IconComponent}
         <div>
-          <p className="text-sm font-medium text-card-foreground">{label}</p>
+          <p className="text-sm font-medium text-card-foreground">
+            {label}
+            {imputed && <Badge variant="outline" className="ml-2 text-[10px] px-1.5 py-0">Imputed</Badge>}
+          </p>
           <p className="text-xs text-muted-foreground">Optimal: {optimal ?? 'N/A'} {unit}</p>
         </div>
       </div>
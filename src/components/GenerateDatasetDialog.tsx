@@ -0,0 +1,328 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Database, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+
+type Distribution =
+  | { type: "uniform"; min: number; max: number }
+  | { type: "normal"; mean: number; std: number };
+
+interface CropSpec {
+  name: string;
+  min_yield: number;
+  max_yield: number;
+}
+
+// Body accepted by the generate-dataset function (seed omitted = drawn at random).
+// Rows go into a new version named dataset_name, or are appended to dataset_id.
+export interface GenerationConfig {
+  dataset_id?: string;
+  dataset_name?: string;
+  seed?: number;
+  record_count: number;
+  crops: CropSpec[];
+  distributions: Record<string, Distribution>;
+  noise: number;
+  missing_rate: number;
+  outlier_rate: number;
+}
+
+// Mirrors DEFAULT_GENERATION_CONFIG in supabase/functions/_shared/generation.ts
+const DEFAULT_CONFIG: GenerationConfig = {
+  record_count: 5000,
+  crops: [
+    { name: "Wheat", min_yield: 2000, max_yield: 5000 },
+    { name: "Rice", min_yield: 3000, max_yield: 7000 },
+    { name: "Corn", min_yield: 4000, max_yield: 9000 },
+    { name: "Cotton", min_yield: 1000, max_yield: 3000 },
+    { name: "Sugarcane", min_yield: 40000, max_yield: 80000 },
+    { name: "Soybean", min_yield: 1500, max_yield: 4000 },
+    { name: "Barley", min_yield: 2000, max_yield: 5500 },
+  ],
+  distributions: {
+    temperature: { type: "uniform", min: 15, max: 40 },
+    rainfall: { type: "uniform", min: 300, max: 1800 },
+    fertilizer: { type: "uniform", min: 50, max: 300 },
+    soil_ph: { type: "uniform", min: 5.5, max: 8 },
+    humidity: { type: "uniform", min: 40, max: 90 },
+    nitrogen: { type: "uniform", min: 50, max: 200 },
+    phosphorus: { type: "uniform", min: 20, max: 100 },
+    potassium: { type: "uniform", min: 30, max: 150 },
+  },
+  noise: 0.2,
+  missing_rate: 0,
+  outlier_rate: 0,
+};
+
+const FEATURE_LABELS: Record<string, string> = {
+  temperature: "Temperature (°C)",
+  rainfall: "Rainfall (mm)",
+  fertilizer: "Fertilizer (kg/ha)",
+  soil_ph: "Soil pH",
+  humidity: "Humidity (%)",
+  nitrogen: "Nitrogen (kg/ha)",
+  phosphorus: "Phosphorus (kg/ha)",
+  potassium: "Potassium (kg/ha)",
+};
+
+// Rates are edited as percentages
+const RATE_FIELDS = [
+  { key: "noise", label: "Yield noise (±%)" },
+  { key: "missing_rate", label: "Missing NPK values (%)" },
+  { key: "outlier_rate", label: "Yield outliers (%)" },
+] as const;
+
+const NEW_VERSION = "__new__";
+
+interface DatasetOption {
+  id: string;
+  name: string;
+  version: number;
+  is_active: boolean;
+}
+
+interface GenerateDatasetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onGenerate: (config: GenerationConfig) => void;
+  generating: boolean;
+}
+
+const GenerateDatasetDialog = ({ open, onOpenChange, onGenerate, generating }: GenerateDatasetDialogProps) => {
+  const [seed, setSeed] = useState("");
+  const [config, setConfig] = useState<GenerationConfig>(DEFAULT_CONFIG);
+  const [target, setTarget] = useState(NEW_VERSION);
+  const [datasetName, setDatasetName] = useState("Synthetic");
+  const [datasets, setDatasets] = useState<DatasetOption[]>([]);
+
+  // Versions rows can be appended to (archived ones are read-only)
+  useEffect(() => {
+    if (!open) return;
+    supabase
+      .from("datasets")
+      .select("id, name, version, is_active")
+      .eq("status", "ready")
+      .order("created_at", { ascending: false })
+      .then(({ data, error }) => {
+        if (error) console.error("Error loading datasets:", error);
+        setDatasets(data ?? []);
+      });
+  }, [open]);
+
+  const update = (patch: Partial<GenerationConfig>) => setConfig((prev) => ({ ...prev, ...patch }));
+
+  const updateCrop = (index: number, patch: Partial<CropSpec>) =>
+    update({ crops: config.crops.map((c, i) => (i === index ? { ...c, ...patch } : c)) });
+
+  const updateDistribution = (feature: string, distribution: Distribution) =>
+    update({ distributions: { ...config.distributions, [feature]: distribution } });
+
+  // Switching type keeps the same rough location: uniform [min, max] <-> normal (centre, quarter width)
+  const switchType = (feature: string, type: Distribution["type"]) => {
+    const d = config.distributions[feature];
+    if (d.type === type) return;
+    updateDistribution(feature, d.type === "uniform"
+      ? { type: "normal", mean: (d.min + d.max) / 2, std: (d.max - d.min) / 4 }
+      : { type: "uniform", min: d.mean - 2 * d.std, max: d.mean + 2 * d.std });
+  };
+
+  const seedValue = seed.trim() === "" ? undefined : Number(seed);
+  const invalidSeed = seedValue !== undefined && !Number.isInteger(seedValue);
+
+  const handleSubmit = () =>
+    onGenerate({
+      ...config,
+      seed: seedValue,
+      ...(target === NEW_VERSION ? { dataset_name: datasetName.trim() } : { dataset_id: target }),
+    });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Generate Synthetic Dataset</DialogTitle>
+          <DialogDescription>
+            The same seed and settings always produce the same rows. Every run's settings are saved with the rows it creates,
+            and models are retrained on the dataset version the rows go into (which becomes the active one).
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[60vh] pr-4">
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Write rows to</Label>
+                <Select value={target} onValueChange={setTarget}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NEW_VERSION}>New dataset version</SelectItem>
+                    {datasets.map((d) => (
+                      <SelectItem key={d.id} value={d.id}>
+                        Append to {d.name} v{d.version}{d.is_active ? " (active)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="dataset-name">Dataset name</Label>
+                <Input
+                  id="dataset-name"
+                  value={datasetName}
+                  disabled={target !== NEW_VERSION}
+                  onChange={(e) => setDatasetName(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="seed">Seed</Label>
+                <Input id="seed" type="number" placeholder="Random" value={seed} onChange={(e) => setSeed(e.target.value)} />
+                {invalidSeed && <p className="text-xs text-destructive">Seed must be a whole number</p>}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="record-count">Records</Label>
+                <Input
+                  id="record-count"
+                  type="number"
+                  min={1}
+                  max={50000}
+                  value={config.record_count}
+                  onChange={(e) => update({ record_count: Number(e.target.value) })}
+                />
+              </div>
+              {RATE_FIELDS.map(({ key, label }) => (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={key}>{label}</Label>
+                  <Input
+                    id={key}
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={Math.round(config[key] * 1000) / 10}
+                    onChange={(e) => update({ [key]: Number(e.target.value) / 100 })}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {/* Crops and their yield ranges */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Crops (yield range, kg/ha)</h3>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-1"
+                  onClick={() => update({ crops: [...config.crops, { name: "", min_yield: 1000, max_yield: 3000 }] })}
+                >
+                  <Plus className="h-4 w-4" />
+                  Add crop
+                </Button>
+              </div>
+              {config.crops.map((crop, index) => (
+                <div key={index} className="grid grid-cols-[1fr_8rem_8rem_auto] gap-2 items-center">
+                  <Input placeholder="Crop name" value={crop.name} onChange={(e) => updateCrop(index, { name: e.target.value })} />
+                  <Input
+                    type="number"
+                    aria-label={`${crop.name} minimum yield`}
+                    value={crop.min_yield}
+                    onChange={(e) => updateCrop(index, { min_yield: Number(e.target.value) })}
+                  />
+                  <Input
+                    type="number"
+                    aria-label={`${crop.name} maximum yield`}
+                    value={crop.max_yield}
+                    onChange={(e) => updateCrop(index, { max_yield: Number(e.target.value) })}
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    aria-label={`Remove ${crop.name}`}
+                    disabled={config.crops.length === 1}
+                    onClick={() => update({ crops: config.crops.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {/* Per-feature distributions */}
+            <div className="space-y-2">
+              <h3 className="font-semibold">Feature distributions</h3>
+              {Object.entries(config.distributions).map(([feature, d]) => (
+                <div key={feature} className="grid grid-cols-[1fr_8rem_7rem_7rem] gap-2 items-center">
+                  <Label>{FEATURE_LABELS[feature] ?? feature}</Label>
+                  <Select value={d.type} onValueChange={(type) => switchType(feature, type as Distribution["type"])}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="uniform">Uniform</SelectItem>
+                      <SelectItem value="normal">Normal</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {d.type === "uniform" ? (
+                    <>
+                      <Input type="number" aria-label={`${feature} min`} value={d.min}
+                        onChange={(e) => updateDistribution(feature, { ...d, min: Number(e.target.value) })} />
+                      <Input type="number" aria-label={`${feature} max`} value={d.max}
+                        onChange={(e) => updateDistribution(feature, { ...d, max: Number(e.target.value) })} />
+                    </>
+                  ) : (
+                    <>
+                      <Input type="number" aria-label={`${feature} mean`} value={d.mean}
+                        onChange={(e) => updateDistribution(feature, { ...d, mean: Number(e.target.value) })} />
+                      <Input type="number" aria-label={`${feature} std`} value={d.std}
+                        onChange={(e) => updateDistribution(feature, { ...d, std: Number(e.target.value) })} />
+                    </>
+                  )}
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">Uniform: min / max. Normal: mean / standard deviation.</p>
+            </div>
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="ghost"
+            className="gap-2"
+            onClick={() => {
+              setSeed("");
+              setConfig(DEFAULT_CONFIG);
+              setTarget(NEW_VERSION);
+              setDatasetName("Synthetic");
+            }}
+          >
+            <RotateCcw className="h-4 w-4" />
+            Reset
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={generating || invalidSeed || (target === NEW_VERSION && datasetName.trim() === "")}
+            className="gap-2"
+          >
+            <Database className="h-4 w-4" />
+            {generating ? "Generating..." : "Generate"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GenerateDatasetDialog;
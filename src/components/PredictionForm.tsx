@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
@@ -12,11 +12,22 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Leaf, Loader2, Sprout, Droplets, ThermometerSun, Wind, Cloud } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { functionErrorMessage } from "@/lib/functions";
+import { fetchTrainedCrops } from "@/lib/models";
 
 interface PredictionFormProps {
+  refreshTrigger: number;
   onPredictionComplete: () => void;
 }
 
+// Optional nutrient amount. The empty string is matched first so an empty field stays
+// empty instead of being coerced to 0.
+const optionalAmount = z
+  .literal("")
+  .or(z.null())
+  .or(z.coerce.number({ invalid_type_error: "Must be a number" }).min(0, "Cannot be negative"))
+  .optional();
+
 // Define the validation schema using Zod
 const predictionFormSchema = z.object({
   crop: z.string().min(1, { message: "Please select a crop." }),
@@ -25,17 +36,71 @@ const predictionFormSchema = z.object({
   fertilizer: z.coerce.number({ required_error: "Fertilizer amount is required.", invalid_type_error: "Must be a number" }).min(0, "Cannot be negative"),
   soil_ph: z.coerce.number({ required_error: "Soil pH is required.", invalid_type_error: "Must be a number" }).min(0, "Min pH is 0").max(14, "Max pH is 14"),
   humidity: z.coerce.number({ required_error: "Humidity is required.", invalid_type_error: "Must be a number" }).min(0, "Min humidity is 0%").max(100, "Max humidity is 100%"),
-  nitrogen: z.coerce.number({ invalid_type_error: "Must be a number" }).min(0, "Cannot be negative").optional().or(z.literal("")).or(z.null()), // Allow empty string or null
-  phosphorus: z.coerce.number({ invalid_type_error: "Must be a number" }).min(0, "Cannot be negative").optional().or(z.literal("")).or(z.null()),
-  potassium: z.coerce.number({ invalid_type_error: "Must be a number" }).min(0, "Cannot be negative").optional().or(z.literal("")).or(z.null()),
+  nitrogen: optionalAmount,
+  phosphorus: optionalAmount,
+  potassium: optionalAmount,
 });
 
 // Infer the form data type from the schema
 type PredictionFormData = z.infer<typeof predictionFormSchema>;
 
-export const PredictionForm = ({ onPredictionComplete }: PredictionFormProps) => {
+// Empty means unknown: sent as null, and predict-yield imputes it from the training data
+const amountOrNull = (value: number | "" | null | undefined) =>
+  value === "" || value === null || value === undefined ? null : value;
+
+// Labels and icons of known crops; the options are the crops the models were trained on
+const CROP_CATALOGUE = [
+  { value: 'rice', label: 'Rice', icon: '🌾', category: 'Cereal' },
+  { value: 'wheat', label: 'Wheat', icon: '🌾', category: 'Cereal' },
+  { value: 'maize', label: 'Maize (Corn)', icon: '🌽', category: 'Cereal' },
+  { value: 'barley', label: 'Barley', icon: '🌾', category: 'Cereal' },
+  { value: 'millet', label: 'Millet', icon: '🌾', category: 'Cereal' },
+  { value: 'sorghum', label: 'Sorghum', icon: '🌾', category: 'Cereal' },
+  { value: 'cotton', label: 'Cotton', icon: '🌿', category: 'Fiber' },
+  { value: 'jute', label: 'Jute', icon: '🌱', category: 'Fiber' },
+  { value: 'sugarcane', label: 'Sugarcane', icon: '🎋', category: 'Cash Crop' },
+  { value: 'coffee', label: 'Coffee', icon: '☕', category: 'Beverage' },
+  { value: 'tea', label: 'Tea', icon: '🍵', category: 'Beverage' },
+  { value: 'tobacco', label: 'Tobacco', icon: '🚬', category: 'Cash Crop' },
+  { value: 'soybean', label: 'Soybean', icon: '🫘', category: 'Legume' },
+  { value: 'groundnut', label: 'Groundnut (Peanut)', icon: '🥜', category: 'Legume' },
+  { value: 'chickpea', label: 'Chickpea', icon: '🫘', category: 'Legume' },
+  { value: 'lentil', label: 'Lentil', icon: '🫘', category: 'Legume' },
+  { value: 'potato', label: 'Potato', icon: '🥔', category: 'Vegetable' },
+  { value: 'tomato', label: 'Tomato', icon: '🍅', category: 'Vegetable' },
+  { value: 'onion', label: 'Onion', icon: '🧅', category: 'Vegetable' },
+  { value: 'cabbage', label: 'Cabbage', icon: '🥬', category: 'Vegetable' },
+  { value: 'carrot', label: 'Carrot', icon: '🥕', category: 'Vegetable' },
+  { value: 'pepper', label: 'Pepper', icon: '🌶️', category: 'Vegetable' },
+  { value: 'banana', label: 'Banana', icon: '🍌', category: 'Fruit' },
+  { value: 'mango', label: 'Mango', icon: '🥭', category: 'Fruit' },
+  { value: 'apple', label: 'Apple', icon: '🍎', category: 'Fruit' },
+  { value: 'orange', label: 'Orange', icon: '🍊', category: 'Fruit' },
+  { value: 'grapes', label: 'Grapes', icon: '🍇', category: 'Fruit' },
+  { value: 'coconut', label: 'Coconut', icon: '🥥', category: 'Plantation' },
+  { value: 'rubber', label: 'Rubber', icon: '🌳', category: 'Plantation' },
+];
+
+// A trained crop as a select option, by its name in the dataset (e.g. "Wheat")
+const cropOption = (name: string) => {
+  const known = CROP_CATALOGUE.find(c => c.value === name.toLowerCase());
+  return { value: name.toLowerCase(), label: known?.label ?? name, icon: known?.icon ?? '🌱' };
+};
+
+export const PredictionForm = ({ refreshTrigger, onPredictionComplete }: PredictionFormProps) => {
   const { toast } = useToast();
   const [loading, setLoading] = useState(false);
+  const [crops, setCrops] = useState<ReturnType<typeof cropOption>[] | null>(null); // null while loading
+
+  // A new training run can add crops
+  useEffect(() => {
+    fetchTrainedCrops()
+      .then((names) => setCrops(names.map(cropOption)))
+      .catch((error) => {
+        console.error("Error loading trained crops:", error);
+        setCrops([]);
+      });
+  }, [refreshTrigger]);
 
   // Initialize react-hook-form
   const form = useForm<PredictionFormData>({
@@ -56,39 +121,6 @@ export const PredictionForm = ({ onPredictionComplete }: PredictionFormProps) =>
 
   const selectedCrop = form.watch("crop"); // Watch the crop value
 
-   // Available crops for selection (expanded list from Crop-yield project)
-   const crops = [
-    { value: 'rice', label: 'Rice', icon: '🌾', category: 'Cereal' },
-    { value: 'wheat', label: 'Wheat', icon: '🌾', category: 'Cereal' },
-    { value: 'maize', label: 'Maize (Corn)', icon: '🌽', category: 'Cereal' },
-    { value: 'barley', label: 'Barley', icon: '🌾', category: 'Cereal' },
-    { value: 'millet', label: 'Millet', icon: '🌾', category: 'Cereal' },
-    { value: 'sorghum', label: 'Sorghum', icon: '🌾', category: 'Cereal' },
-    { value: 'cotton', label: 'Cotton', icon: '🌿', category: 'Fiber' },
-    { value: 'jute', label: 'Jute', icon: '🌱', category: 'Fiber' },
-    { value: 'sugarcane', label: 'Sugarcane', icon: '🎋', category: 'Cash Crop' },
-    { value: 'coffee', label: 'Coffee', icon: '☕', category: 'Beverage' },
-    { value: 'tea', label: 'Tea', icon: '🍵', category: 'Beverage' },
-    { value: 'tobacco', label: 'Tobacco', icon: '🚬', category: 'Cash Crop' },
-    { value: 'soybean', label: 'Soybean', icon: '🫘', category: 'Legume' },
-    { value: 'groundnut', label: 'Groundnut (Peanut)', icon: '🥜', category: 'Legume' },
-    { value: 'chickpea', label: 'Chickpea', icon: '🫘', category: 'Legume' },
-    { value: 'lentil', label: 'Lentil', icon: '🫘', category: 'Legume' },
-    { value: 'potato', label: 'Potato', icon: '🥔', category: 'Vegetable' },
-    { value: 'tomato', label: 'Tomato', icon: '🍅', category: 'Vegetable' },
-    { value: 'onion', label: 'Onion', icon: '🧅', category: 'Vegetable' },
-    { value: 'cabbage', label: 'Cabbage', icon: '🥬', category: 'Vegetable' },
-    { value: 'carrot', label: 'Carrot', icon: '🥕', category: 'Vegetable' },
-    { value: 'pepper', label: 'Pepper', icon: '🌶️', category: 'Vegetable' },
-    { value: 'banana', label: 'Banana', icon: '🍌', category: 'Fruit' },
-    { value: 'mango', label: 'Mango', icon: '🥭', category: 'Fruit' },
-    { value: 'apple', label: 'Apple', icon: '🍎', category: 'Fruit' },
-    { value: 'orange', label: 'Orange', icon: '🍊', category: 'Fruit' },
-    { value: 'grapes', label: 'Grapes', icon: '🍇', category: 'Fruit' },
-    { value: 'coconut', label: 'Coconut', icon: '🥥', category: 'Plantation' },
-    { value: 'rubber', label: 'Rubber', icon: '🌳', category: 'Plantation' },
-  ];
-
   // Crop-specific optimal conditions (for reference)
   const cropConditions: Record<string, { temp: string; ph: string; rainfall: string }> = {
     rice: { temp: '20-27°C', ph: '5.0-6.5', rainfall: 'High' },
@@ -110,29 +142,30 @@ export const PredictionForm = ({ onPredictionComplete }: PredictionFormProps) =>
           fertilizer: values.fertilizer,
           soil_ph: values.soil_ph,
           humidity: values.humidity,
-          // Send 0 if optional NPK fields are empty/null/undefined
-          nitrogen: Number(values.nitrogen) || 0,
-          phosphorus: Number(values.phosphorus) || 0,
-          potassium: Number(values.potassium) || 0,
+          nitrogen: amountOrNull(values.nitrogen),
+          phosphorus: amountOrNull(values.phosphorus),
+          potassium: amountOrNull(values.potassium),
       };
       console.log("Sending payload:", payload);
 
       const { data, error } = await supabase.functions.invoke("predict-yield", { body: payload });
 
-      if (error) throw error;
+      if (error) throw new Error(await functionErrorMessage(error, "Unable to generate prediction."));
 
       toast({
         title: "Prediction Complete!",
-        description: `Predicted crop: ${data.predicted_crop || 'N/A'}`,
+        description: `${data.target_crop} yield: ${data.predicted_yield.toFixed(1)} kg/ha (recommended crop: ${data.predicted_crop || 'N/A'})`,
       });
       onPredictionComplete();
       form.reset(); // Reset form
 
-    } catch (error: any) {
+    } catch (error) {
       console.error("Prediction error:", error);
       toast({
         title: "Prediction Failed",
-        description: error?.message || "Unable to generate prediction. Please try again.",
+        description: error instanceof Error && error.message
+          ? error.message
+          : "Unable to generate prediction. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -162,14 +195,18 @@ export const PredictionForm = ({ onPredictionComplete }: PredictionFormProps) =>
               render={({ field }) => (
                 <FormItem>
                   <FormLabel className="text-base font-semibold">Select Crop to Predict *</FormLabel>
-                  <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                  <Select onValueChange={field.onChange} value={field.value ?? ""} disabled={!crops?.length}>
                     <FormControl>
                       <SelectTrigger>
-                        <SelectValue placeholder="Choose a crop..." />
+                        <SelectValue
+                          placeholder={
+                            crops === null ? "Loading crops..." : crops.length === 0 ? "Train models first" : "Choose a crop..."
+                          }
+                        />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {crops.map((crop) => (
+                      {crops?.map((crop) => (
                         <SelectItem key={crop.value} value={crop.value}>
                           <span className="flex items-center gap-2">
                             <span>{crop.icon}</span>
@@ -188,7 +225,7 @@ export const PredictionForm = ({ onPredictionComplete }: PredictionFormProps) =>
             {selectedCrop && cropConditions[selectedCrop] && (
               <Alert className="bg-primary/5 border-primary/20">
                 <AlertDescription className="text-sm text-primary">
-                  <strong>Optimal Conditions for {crops.find(c => c.value === selectedCrop)?.label}:</strong> Temp: {cropConditions[selectedCrop].temp},
+                  <strong>Optimal Conditions for {crops?.find(c => c.value === selectedCrop)?.label}:</strong> Temp: {cropConditions[selectedCrop].temp},
                   pH: {cropConditions[selectedCrop].ph},
                   Rainfall: {cropConditions[selectedCrop].rainfall}
                 </AlertDescription>
@@ -198,6 +235,9 @@ export const PredictionForm = ({ onPredictionComplete }: PredictionFormProps) =>
             {/* Soil Nutrients Section */}
             <div className="space-y-3">
               <FormLabel className="text-base font-semibold">Soil Nutrients (Optional)</FormLabel>
+              <p className="text-sm text-muted-foreground">
+                Leave a value empty if it was not measured: it is estimated from typical values for the crop.
+              </p>
               <div className="grid grid-cols-3 gap-4 p-4 border rounded-md bg-background shadow-sm">
                 <FormField
                   control={form.control}
@@ -6,16 +6,46 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton'; // Import Skeleton
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { supabase } from '@/integrations/supabase/client';
 import {
   History, Calendar, Eye, Trash2,
-  Download, Search, AlertCircle // Added AlertCircle
+  Download, Search, AlertCircle, // Added AlertCircle
+  ChevronDown, Layers
 } from 'lucide-react';
-import { Database } from '@/integrations/supabase/types'; // Import generated types
+import { bestOutput, type Prediction, type PredictionJson } from '@/lib/predictions';
 
-// Use the generated types for Prediction
-type Prediction = Database['public']['Tables']['predictions']['Row'] & {
-    // Add any potential client-side computed fields if needed
+// Most recent predictions loaded; a batch straddling the limit is shown in part
+const HISTORY_LIMIT = 100;
+
+// Older predictions have no target crop; fall back to the recommended one
+const cropOf = (p: Prediction): string | null => p.target_crop ?? p.predicted_crop;
+
+// List entries in recency order: a single prediction, or every prediction of one batch
+// (placed where the batch's newest prediction falls)
+interface HistoryEntry {
+  batchId: string | null;
+  predictions: Prediction[];
+}
+
+const groupByBatch = (predictions: Prediction[]): HistoryEntry[] => {
+  const entries: HistoryEntry[] = [];
+  const batches = new Map<string, HistoryEntry>();
+  for (const p of predictions) {
+    if (!p.batch_id) {
+      entries.push({ batchId: null, predictions: [p] });
+      continue;
+    }
+    const batch = batches.get(p.batch_id);
+    if (batch) {
+      batch.predictions.push(p);
+    } else {
+      const entry = { batchId: p.batch_id, predictions: [p] };
+      batches.set(p.batch_id, entry);
+      entries.push(entry);
+    }
+  }
+  return entries;
 };
 
 interface PredictionHistoryProps {
@@ -30,6 +60,7 @@ const PredictionHistory: React.FC<PredictionHistoryProps> = ({ onViewDetails })
   const [filterModel, setFilterModel] = useState('all');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null); // Add error state
+  const [batchSizes, setBatchSizes] = useState<Record<string, number>>({}); // Predictions per loaded batch
 
   const loadPredictionHistory = useCallback(async () => {
     setIsLoading(true);
@@ -37,16 +68,29 @@ const PredictionHistory: React.FC<PredictionHistoryProps> = ({ onViewDetails })
     try {
       const { data, error: dbError } = await supabase
         .from('predictions')
-        .select('*')
+        .select('*, prediction_outputs(*)')
         .order('created_at', { ascending: false })
-        .limit(100); // Add a reasonable limit initially
+        .limit(HISTORY_LIMIT)
+        .overrideTypes<PredictionJson[]>();
 
       if (dbError) throw dbError;
 
-      setPredictions(data || []);
-    } catch (err: any) {
+      // Full size of each batch, since the limit can cut the oldest one short
+      const batchIds = [...new Set(data.map(p => p.batch_id).filter((id): id is string => id !== null))];
+      const sizes = await Promise.all(batchIds.map(async (batchId) => {
+        const { count, error: countError } = await supabase
+          .from('predictions')
+          .select('id', { count: 'exact', head: true })
+          .eq('batch_id', batchId);
+        if (countError) throw countError;
+        return [batchId, count ?? 0] as const;
+      }));
+
+      setBatchSizes(Object.fromEntries(sizes));
+      setPredictions(data);
+    } catch (err) {
       console.error('Error loading predictions:', err);
-      setError(err.message || 'Failed to load prediction history.');
+      setError(err instanceof Error && err.message ? err.message : 'Failed to load prediction history.');
       setPredictions([]); // Clear data on error
     } finally {
       setIsLoading(false);
@@ -59,13 +103,13 @@ const PredictionHistory: React.FC<PredictionHistoryProps> = ({ onViewDetails })
     // Search filter
     if (searchTerm) {
       filtered = filtered.filter(p =>
-        p.predicted_crop?.toLowerCase().includes(searchTerm.toLowerCase())
+        cropOf(p)?.toLowerCase().includes(searchTerm.toLowerCase())
       );
     }
 
     // Crop filter
     if (filterCrop !== 'all') {
-      filtered = filtered.filter(p => p.predicted_crop === filterCrop);
+      filtered = filtered.filter(p => cropOf(p) === filterCrop);
     }
 
     // Model filter
@@ -97,31 +141,35 @@ const PredictionHistory: React.FC<PredictionHistoryProps> = ({ onViewDetails })
 
         setPredictions(prev => prev.filter(p => p.id !== id));
         // No need to manually call filterPredictions, useEffect will handle it
-      } catch (err: any) {
+      } catch (err) {
         console.error('Error deleting prediction:', err);
-        setError(err.message || 'Failed to delete prediction.'); // Show error
+        setError(err instanceof Error && err.message ? err.message : 'Failed to delete prediction.'); // Show error
       }
     }
   };
 
   const handleExport = () => {
+    // One yield column per model that produced an output in the exported predictions
+    const modelNames = [...new Set(filteredPredictions.flatMap(p => p.prediction_outputs.map(o => o.model_name)))].sort();
     const csvContent = [
-        ['ID', 'Date', 'Crop', 'Best Model', 'LR Yield', 'RF Yield', 'Temp', 'Rain', 'Fert', 'pH', 'Humid', 'N', 'P', 'K'],
+        ['ID', 'Batch', 'Date', 'Crop', 'Recommended Crop', 'Best Model', ...modelNames.map(name => `${name} Yield`), 'Temp', 'Rain', 'Fert', 'pH', 'Humid', 'N', 'P', 'K', 'Imputed'],
         ...filteredPredictions.map(p => [
           p.id,
+          p.batch_id ?? '',
           p.created_at ? new Date(p.created_at).toLocaleString() : 'N/A',
+          cropOf(p) ?? 'N/A',
           p.predicted_crop ?? 'N/A',
           p.best_model ?? 'N/A',
-          p.predicted_yield_lr?.toFixed(2) ?? 'N/A',
-          p.predicted_yield_rf?.toFixed(2) ?? 'N/A',
+          ...modelNames.map(name => p.prediction_outputs.find(o => o.model_name === name)?.predicted_yield.toFixed(2) ?? 'N/A'),
           p.temperature ?? 'N/A',
           p.rainfall ?? 'N/A',
           p.fertilizer ?? 'N/A',
           p.soil_ph ?? 'N/A',
           p.humidity ?? 'N/A',
-          (p as any).nitrogen ?? 'N/A', // Type assertion for optional NPK fields
-          (p as any).phosphorus ?? 'N/A',
-          (p as any).potassium ?? 'N/A',
+          p.nitrogen ?? 'N/A',
+          p.phosphorus ?? 'N/A',
+          p.potassium ?? 'N/A',
+          Object.keys(p.imputed_features ?? {}).join(' '),
         ])
       ].map(row => row.join(',')).join('\n');
 
@@ -152,15 +200,89 @@ const PredictionHistory: React.FC<PredictionHistoryProps> = ({ onViewDetails })
 
 
   // Use Set to get unique values, handle potential nulls
-  const uniqueCrops = [...new Set(predictions.map(p => p.predicted_crop).filter(Boolean))] as string[];
+  const uniqueCrops = [...new Set(predictions.map(cropOf).filter(Boolean))] as string[];
   const uniqueModels = [...new Set(predictions.map(p => p.best_model).filter(Boolean))] as string[];
 
   // Calculate stats safely
     const maxYield = predictions.length > 0 ? Math.max(
-        ...predictions.map(p => Math.max(p.predicted_yield_lr ?? 0, p.predicted_yield_rf ?? 0))
+        ...predictions.map(p => bestOutput(p)?.predicted_yield ?? 0)
     ) : 0;
 
 
+  const renderPrediction = (prediction: Prediction) => (
+    <Card key={prediction.id} className="hover:shadow-lg transition-shadow duration-200">
+      <CardContent className="p-4 flex flex-col sm:flex-row items-start gap-4">
+        {/* Crop Icon */}
+        <div className="text-4xl mt-1 hidden sm:block">{getCropIcon(cropOf(prediction))}</div>
+
+        {/* Details */}
+        <div className="flex-1">
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+             <div className="text-4xl mt-1 sm:hidden mr-2">{getCropIcon(cropOf(prediction))}</div> {/* Icon for mobile */}
+             <h3 className="text-lg font-semibold text-card-foreground">
+              {cropOf(prediction) ? cropOf(prediction)!.charAt(0).toUpperCase() + cropOf(prediction)!.slice(1) : 'Unknown Crop'}
+            </h3>
+            <Badge variant="secondary">
+              {prediction.best_model ?? 'N/A'}
+            </Badge>
+          </div>
+
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-x-4 gap-y-2 text-sm mb-3">
+             {/* Simplified yield display */}
+              <div>
+                  <p className="text-xs text-muted-foreground">Best Yield</p>
+                  <p className="font-semibold text-primary">
+                      {bestOutput(prediction)?.predicted_yield.toFixed(1) ?? 'N/A'} kg/ha
+                  </p>
+              </div>
+             {/* Add other key metrics if desired */}
+              <div>
+                  <p className="text-xs text-muted-foreground">Temp / Humid</p>
+                  <p className="font-semibold">{prediction.temperature ?? 'N/A'}°C / {prediction.humidity ?? 'N/A'}%</p>
+              </div>
+               <div>
+                  <p className="text-xs text-muted-foreground">Rain / pH</p>
+                  <p className="font-semibold">{prediction.rainfall ?? 'N/A'}mm / {prediction.soil_ph ?? 'N/A'}</p>
+              </div>
+          </div>
+
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Calendar className="h-3 w-3" />
+            {prediction.created_at ? new Date(prediction.created_at).toLocaleString('en-US', {
+              year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+            }) : 'Date unknown'}
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-2 mt-2 sm:mt-0 sm:ml-auto flex-shrink-0">
+            {onViewDetails && ( // Conditionally render View button
+             <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onViewDetails?.(prediction)}
+                  className="gap-1"
+                  aria-label={`View details for prediction ${prediction.id}`}
+              >
+                  <Eye className="h-4 w-4" />
+                  <span className="hidden sm:inline">View</span>
+              </Button>
+            )}
+          <Button
+            size="sm"
+            variant="ghost" // Use ghost for less emphasis
+            onClick={() => handleDelete(prediction.id)}
+            className="gap-1 text-destructive hover:bg-destructive/10"
+             aria-label={`Delete prediction ${prediction.id}`}
+          >
+            <Trash2 className="h-4 w-4" />
+             <span className="hidden sm:inline">Delete</span>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -261,7 +383,8 @@ const PredictionHistory: React.FC<PredictionHistoryProps> = ({ onViewDetails })
         <CardHeader>
           <CardTitle>Recent Predictions</CardTitle>
           <CardDescription>
-            {isLoading ? "Loading..." : error ? "Error loading data" : `Showing ${filteredPredictions.length} of ${predictions.length} predictions`}
+            {isLoading ? "Loading..." : error ? "Error loading data" : `Showing ${filteredPredictions.length} of ${predictions.length} predictions` +
+              (predictions.length === HISTORY_LIMIT ? ` (the latest ${HISTORY_LIMIT})` : '')}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -310,79 +433,38 @@ const PredictionHistory: React.FC<PredictionHistoryProps> = ({ onViewDetails })
           ) : (
             <ScrollArea className="h-[600px] pr-4 -mr-4"> {/* Offset padding for scrollbar */}
               <div className="space-y-4">
-                {filteredPredictions.map((prediction) => (
-                  <Card key={prediction.id} className="hover:shadow-lg transition-shadow duration-200">
-                    <CardContent className="p-4 flex flex-col sm:flex-row items-start gap-4">
-                      {/* Crop Icon */}
-                      <div className="text-4xl mt-1 hidden sm:block">{getCropIcon(prediction.predicted_crop)}</div>
-
-                      {/* Details */}
-                      <div className="flex-1">
-                        <div className="flex flex-wrap items-center gap-2 mb-2">
-                           <div className="text-4xl mt-1 sm:hidden mr-2">{getCropIcon(prediction.predicted_crop)}</div> {/* Icon for mobile */}
-                           <h3 className="text-lg font-semibold text-card-foreground">
-                            {prediction.predicted_crop ? prediction.predicted_crop.charAt(0).toUpperCase() + prediction.predicted_crop.slice(1) : 'Unknown Crop'}
-                          </h3>
-                          <Badge variant={prediction.best_model === "Random Forest" ? "default" : "secondary"}>
-                            {prediction.best_model ?? 'N/A'}
-                          </Badge>
-                        </div>
-
-                        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-x-4 gap-y-2 text-sm mb-3">
-                           {/* Simplified yield display */}
-                            <div>
-                                <p className="text-xs text-muted-foreground">Best Yield</p>
-                                <p className="font-semibold text-primary">
-                                    {Math.max(prediction.predicted_yield_lr ?? 0, prediction.predicted_yield_rf ?? 0).toFixed(1)} kg/ha
-                                </p>
-                            </div>
-                           {/* Add other key metrics if desired */}
-                            <div>
-                                <p className="text-xs text-muted-foreground">Temp / Humid</p>
-                                <p className="font-semibold">{prediction.temperature ?? 'N/A'}°C / {prediction.humidity ?? 'N/A'}%</p>
-                            </div>
-                             <div>
-                                <p className="text-xs text-muted-foreground">Rain / pH</p>
-                                <p className="font-semibold">{prediction.rainfall ?? 'N/A'}mm / {prediction.soil_ph ?? 'N/A'}</p>
-                            </div>
-                        </div>
-
-                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                          <Calendar className="h-3 w-3" />
-                          {prediction.created_at ? new Date(prediction.created_at).toLocaleString('en-US', {
-                            year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
-                          }) : 'Date unknown'}
-                        </div>
-                      </div>
-
-                      {/* Actions */}
-                      <div className="flex gap-2 mt-2 sm:mt-0 sm:ml-auto flex-shrink-0">
-                          {onViewDetails && ( // Conditionally render View button
-                           <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => onViewDetails?.(prediction)}
-                                className="gap-1"
-                                aria-label={`View details for prediction ${prediction.id}`}
-                            >
-                                <Eye className="h-4 w-4" />
-                                <span className="hidden sm:inline">View</span>
-                            </Button>
-                          )}
-                        <Button
-                          size="sm"
-                          variant="ghost" // Use ghost for less emphasis
-                          onClick={() => handleDelete(prediction.id)}
-                          className="gap-1 text-destructive hover:bg-destructive/10"
-                           aria-label={`Delete prediction ${prediction.id}`}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                           <span className="hidden sm:inline">Delete</span>
-                        </Button>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))}
+                {groupByBatch(filteredPredictions).map((entry) =>
+                  entry.batchId ? (
+                    <Collapsible key={entry.batchId} className="border rounded-lg">
+                      <CollapsibleTrigger asChild>
+                        <button className="group flex w-full items-center gap-3 p-4 text-left hover:bg-muted/50 rounded-lg">
+                          <Layers className="h-5 w-5 text-primary" />
+                          <div className="flex-1">
+                            <p className="font-semibold">
+                              Batch of {Math.max(batchSizes[entry.batchId] ?? 0, entry.predictions.length)} predictions
+                              {entry.predictions.length < (batchSizes[entry.batchId] ?? 0) && (
+                                <span className="font-normal text-muted-foreground">
+                                  {' '}(showing {entry.predictions.length} of {batchSizes[entry.batchId]})
+                                </span>
+                              )}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {[...new Set(entry.predictions.map(cropOf).filter(Boolean))].join(', ')}
+                              {entry.predictions[0].created_at &&
+                                ` · ${new Date(entry.predictions[0].created_at).toLocaleString()}`}
+                            </p>
+                          </div>
+                          <ChevronDown className="h-4 w-4 transition-transform group-data-[state=open]:rotate-180" />
+                        </button>
+                      </CollapsibleTrigger>
+                      <CollapsibleContent className="space-y-4 p-4 pt-0">
+                        {entry.predictions.map(renderPrediction)}
+                      </CollapsibleContent>
+                    </Collapsible>
+                  ) : (
+                    renderPrediction(entry.predictions[0])
+                  )
+                )}
               </div>
             </ScrollArea>
           )}
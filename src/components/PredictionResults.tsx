@@ -2,36 +2,26 @@ import { useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 import { supabase } from "@/integrations/supabase/client";
 import { TrendingUp, Award } from "lucide-react";
 import EnhancedVisualization from "@/components/EnhancedVisualization"; // Import the enhanced component
+import TuningLeaderboard from "@/components/TuningLeaderboard";
+import type { ModelMetrics, ModelMetricsJson, Prediction, PredictionJson } from "@/lib/predictions";
 
-interface Prediction {
-  id: string;
-  temperature: number;
-  rainfall: number;
-  fertilizer: number;
-  soil_ph: number;
-  humidity: number;
-  nitrogen: number;
-  phosphorus: number;
-  potassium: number;
-  predicted_crop: string;
-  predicted_yield_lr: number;
-  predicted_yield_rf: number;
-  best_model: string;
-  created_at: string;
-  feature_importances: string; // JSON string
-}
+// Mirrors STACKED_ENSEMBLE_NAME (supabase/functions/_shared/stacking.ts)
+const STACKED_ENSEMBLE = "Stacked Ensemble";
 
-interface ModelMetrics {
-  model_name: string;
-  r2_score: number;
-  mae: number;
-  rmse: number;
-  evaluation_method: string;
-  tuned_parameters: string;
+// Latest metrics row per (model, crop); rows must be ordered newest first
+function latestPerCrop(rows: ModelMetrics[]): ModelMetrics[] {
+  const seen = new Set<string>();
+  return rows.filter((row) => {
+    const key = `${row.model_name}/${row.crop}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
 }
 
 interface PredictionResultsProps {
@@ -41,28 +31,44 @@ interface PredictionResultsProps {
 export const PredictionResults = ({ refreshTrigger }: PredictionResultsProps) => {
   const [latestPrediction, setLatestPrediction] = useState<Prediction | null>(null);
   const [modelMetrics, setModelMetrics] = useState<ModelMetrics[]>([]);
-  // Add state for feature importances if returned by the backend
-  const [featureImportances, setFeatureImportances] = useState<Record<string, number> | null>(null);
-
+  const [cropMetrics, setCropMetrics] = useState<ModelMetrics[]>([]);
+  const [versionMetrics, setVersionMetrics] = useState<ModelMetrics[]>([]); // Of the latest prediction's model versions
   useEffect(() => {
     fetchLatestPrediction();
     fetchModelMetrics();
+    fetchCropMetrics();
   }, [refreshTrigger]);
 
+  // Metrics of the exact versions that served the latest prediction, which need not be the
+  // latest trained ones (a model retrained since, or a pinned version)
+  useEffect(() => {
+    const ids = Object.values(latestPrediction?.model_versions ?? {}).map(v => v?.id).filter((id): id is string => Boolean(id));
+    if (ids.length === 0) {
+      setVersionMetrics([]);
+      return;
+    }
+    supabase
+      .from("model_metrics")
+      .select("*")
+      .in("model_id", ids)
+      .overrideTypes<ModelMetricsJson[]>()
+      .then(({ data, error }) => {
+        if (error) console.error("Error loading metrics of the serving models:", error);
+        setVersionMetrics(data ?? []);
+      });
+  }, [latestPrediction]);
+
   const fetchLatestPrediction = async () => {
     const { data, error } = await supabase
       .from("predictions")
-      .select("*")
+      .select("*, prediction_outputs(*)")
       .order("created_at", { ascending: false })
       .limit(1)
-      .maybeSingle();
+      .maybeSingle()
+      .overrideTypes<PredictionJson>();
 
     if (data && !error) {
       setLatestPrediction(data);
-      // Parse feature importances if available
-      if (data.feature_importances) {
-        setFeatureImportances(JSON.parse(data.feature_importances));
-      }
     }
   };
 
@@ -70,11 +76,27 @@ export const PredictionResults = ({ refreshTrigger }: PredictionResultsProps) =>
     const { data, error } = await supabase
       .from("model_metrics")
       .select("*")
+      .is("crop", null) // Pooled models
       .order("training_date", { ascending: false })
-      .limit(2);
+      .limit(50)
+      .overrideTypes<ModelMetricsJson[]>();
 
     if (data && !error) {
-      setModelMetrics(data);
+      setModelMetrics(latestPerCrop(data));
+    }
+  };
+
+  const fetchCropMetrics = async () => {
+    const { data, error } = await supabase
+      .from("model_metrics")
+      .select("*")
+      .not("crop", "is", null)
+      .order("training_date", { ascending: false })
+      .limit(200)
+      .overrideTypes<ModelMetricsJson[]>();
+
+    if (data && !error) {
+      setCropMetrics(latestPerCrop(data));
     }
   };
 
@@ -92,23 +114,36 @@ export const PredictionResults = ({ refreshTrigger }: PredictionResultsProps) =>
     );
   }
 
-  const chartData = [
-    {
-      name: "Linear Regression",
-      yield: parseFloat(latestPrediction.predicted_yield_lr.toString()),
-    },
-    {
-      name: "Random Forest",
-      yield: parseFloat(latestPrediction.predicted_yield_rf.toString()),
-    },
-  ];
+  // Metrics of the models that served the latest prediction. Predictions made before model
+  // versions were recorded fall back to the latest metrics of their crop's models, if any.
+  const latestCrop = latestPrediction.target_crop;
+  const servingMetrics = versionMetrics.length > 0
+    ? versionMetrics
+    : latestCrop && cropMetrics.some(m => m.crop === latestCrop)
+      ? cropMetrics.filter(m => m.crop === latestCrop)
+      : modelMetrics;
+
+  // One row per crop, with a pair of columns per model trained for any crop
+  const cropModelNames = [...new Set(cropMetrics.map(m => m.model_name))].sort();
+  const cropCards = [...new Set(cropMetrics.map(m => m.crop as string))].sort().map(crop => ({
+    crop,
+    metrics: cropModelNames.map(name => cropMetrics.find(m => m.crop === crop && m.model_name === name)),
+  }));
+
+  // Pooled models that record the hyperparameters they were trained with, one table column each
+  const tunedModels = modelMetrics.filter(m => m.tuned_parameters);
+  const parameterNames = [...new Set(tunedModels.flatMap(m => Object.keys(m.tuned_parameters!)))];
+
+  // The ensemble output stores the weight of each model it blended
+  const ensembleOutput = latestPrediction.prediction_outputs.find(o => o.model_name === STACKED_ENSEMBLE);
+  const ensembleWeights = Object.entries(ensembleOutput?.details ?? {}).sort(([, a], [, b]) => b - a);
 
   return (
     <div className="space-y-6">
       <EnhancedVisualization
         prediction={latestPrediction}
-        modelMetrics={modelMetrics}
-        featureImportances={featureImportances} // Pass importances
+        modelMetrics={servingMetrics}
+        featureImportances={latestPrediction.feature_importances}
       />
 
       {/* Optional: Keep the simpler Model Performance Metrics table as well */}
@@ -116,16 +151,19 @@ export const PredictionResults = ({ refreshTrigger }: PredictionResultsProps) =>
         <Card>
           <CardHeader>
             <CardTitle>Model Performance Metrics Summary</CardTitle>
-            <CardDescription>Latest training results overview</CardDescription>
+            <CardDescription>Latest training results, scored on held-out data</CardDescription>
           </CardHeader>
           <CardContent>
             <Table>
               <TableHeader>
                 <TableRow>
                   <TableHead>Model</TableHead>
-                  <TableHead>R² Score</TableHead>
-                  <TableHead>MAE</TableHead>
-                  <TableHead>RMSE</TableHead>
+                  <TableHead>Test R²</TableHead>
+                  <TableHead>Test MAE</TableHead>
+                  <TableHead>Test RMSE</TableHead>
+                  <TableHead>Validation R²</TableHead>
+                  <TableHead>CV R² (mean ± std)</TableHead>
+                  <TableHead>Rows (train / val / test)</TableHead>
                   <TableHead>Evaluation Method</TableHead>
                 </TableRow>
               </TableHeader>
@@ -136,20 +174,127 @@ export const PredictionResults = ({ refreshTrigger }: PredictionResultsProps) =>
                     <TableCell>{metric.r2_score?.toFixed(4) ?? 'N/A'}</TableCell>
                     <TableCell>{metric.mae?.toFixed(2) ?? 'N/A'}</TableCell>
                     <TableCell>{metric.rmse?.toFixed(2) ?? 'N/A'}</TableCell>
+                    <TableCell>{metric.validation_r2?.toFixed(4) ?? 'N/A'}</TableCell>
+                    <TableCell>
+                      {metric.cv_r2_mean != null
+                        ? `${metric.cv_r2_mean.toFixed(4)} ± ${(metric.cv_r2_std ?? 0).toFixed(4)}`
+                        : 'N/A'}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {metric.train_rows != null
+                        ? `${metric.train_rows} / ${metric.validation_rows} / ${metric.test_rows}`
+                        : 'N/A'}
+                    </TableCell>
                     <TableCell className="text-xs text-muted-foreground">{metric.evaluation_method ?? 'N/A'}</TableCell>
                   </TableRow>
                 ))}
               </TableBody>
             </Table>
-            {/* Optionally display tuned parameters */}
-            {modelMetrics.find(m => m.model_name === 'Random Forest' && m.tuned_parameters) && (
-              <p className="text-xs text-muted-foreground mt-2">
-                Best RF Params: {modelMetrics.find(m => m.model_name === 'Random Forest')?.tuned_parameters}
+            {latestPrediction.model_versions && (
+              <p className="text-xs text-muted-foreground mt-4">
+                Latest prediction made with:{' '}
+                {Object.entries(latestPrediction.model_versions)
+                  .map(([name, ref]) => `${name} v${ref.version}${ref.crop ? ` (${ref.crop})` : ''}`)
+                  .join(' · ')}
               </p>
             )}
+            {/* Fold-level cross-validation scores */}
+            {modelMetrics.some(m => m.cv_fold_scores?.length) && (
+              <div className="mt-4 space-y-1">
+                {modelMetrics.filter(m => m.cv_fold_scores?.length).map(m => (
+                  <p key={m.model_name} className="text-xs text-muted-foreground">
+                    {m.model_name} fold R²: {m.cv_fold_scores!.map(f => `#${f.fold} ${f.r2.toFixed(3)}`).join(', ')}
+                  </p>
+                ))}
+              </div>
+            )}
+            {tunedModels.length > 0 && (
+              <div className="mt-4">
+                <h4 className="text-sm font-semibold mb-2">Hyperparameters</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Parameter</TableHead>
+                      {tunedModels.map(m => <TableHead key={m.model_name}>{m.model_name}</TableHead>)}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {parameterNames.map(name => (
+                      <TableRow key={name}>
+                        <TableCell className="font-mono text-xs">{name}</TableCell>
+                        {tunedModels.map(m => (
+                          <TableCell key={m.model_name}>{String(m.tuned_parameters![name] ?? '—')}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {cropCards.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Per-Crop Accuracy</CardTitle>
+            <CardDescription>Latest per-crop models, each scored on its crop's held-out test rows</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Crop</TableHead>
+                  {cropModelNames.flatMap(name => [
+                    <TableHead key={`${name}-r2`}>{name} Test R²</TableHead>,
+                    <TableHead key={`${name}-mae`}>{name} Test MAE</TableHead>,
+                  ])}
+                  <TableHead>Test Rows</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cropCards.map(({ crop, metrics }) => (
+                  <TableRow key={crop} className={crop === latestCrop ? 'bg-muted/50' : undefined}>
+                    <TableCell className="font-medium">{crop}</TableCell>
+                    {metrics.flatMap((m, i) => [
+                      <TableCell key={`${cropModelNames[i]}-r2`}>{m?.r2_score?.toFixed(4) ?? 'N/A'}</TableCell>,
+                      <TableCell key={`${cropModelNames[i]}-mae`}>{m?.mae?.toFixed(2) ?? 'N/A'}</TableCell>,
+                    ])}
+                    <TableCell>{metrics.find(Boolean)?.test_rows ?? 'N/A'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {ensembleWeights.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Ensemble Weights</CardTitle>
+            <CardDescription>
+              How the {STACKED_ENSEMBLE} blended the models for the latest prediction, learned from their out-of-fold predictions
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-4">
+              {ensembleWeights.map(([name, weight]) => (
+                <li key={name} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{name}</span>
+                    <span className="text-muted-foreground">{(weight * 100).toFixed(1)}%</span>
+                  </div>
+                  <Progress value={weight * 100} className="h-2" />
+                </li>
+              ))}
+            </ul>
           </CardContent>
         </Card>
       )}
+
+      <TuningLeaderboard refreshTrigger={refreshTrigger} />
     </div>
   );
 };
@@ -0,0 +1,69 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type Handling, HANDLING_LABELS, ISSUE_KINDS, type QualityConfig } from "@/lib/quality";
+
+interface QualitySettingsProps {
+  config: QualityConfig;
+  onChange: (config: QualityConfig) => void;
+  disabled?: boolean;
+}
+
+// Outlier method and threshold, plus what to do with each kind of issue
+const QualitySettings = ({ config, onChange, disabled }: QualitySettingsProps) => {
+  const iqr = config.outlier_method === "iqr";
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div className="space-y-1">
+        <Label>Outlier detection (per crop)</Label>
+        <Select
+          value={config.outlier_method}
+          onValueChange={(value) => onChange({ ...config, outlier_method: value as QualityConfig["outlier_method"] })}
+          disabled={disabled}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="iqr">Interquartile range (Tukey fences)</SelectItem>
+            <SelectItem value="zscore">Z-score</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="outlier-threshold">{iqr ? "IQR multiplier" : "Z-score threshold"}</Label>
+        <Input
+          id="outlier-threshold"
+          type="number"
+          min={0.1}
+          step={0.1}
+          value={iqr ? config.iqr_multiplier : config.z_threshold}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...config, [iqr ? "iqr_multiplier" : "z_threshold"]: Number(e.target.value) })}
+        />
+      </div>
+      {ISSUE_KINDS.map(({ kind, label, options }) => (
+        <div key={kind} className="space-y-1">
+          <Label>{label}</Label>
+          <Select
+            value={config.handling[kind]}
+            onValueChange={(value) => onChange({ ...config, handling: { ...config.handling, [kind]: value as Handling } })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option} value={option}>{HANDLING_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default QualitySettings;
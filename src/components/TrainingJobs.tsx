@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BrainCircuit, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { functionErrorMessage } from "@/lib/functions";
+import type { TrainingJob, TrainingJobJson } from "@/lib/predictions";
+
+const POLL_INTERVAL_MS = 3000;
+const JOBS_SHOWN = 5;
+
+// A job nobody is working on for this long (its worker's lease ran out, or the next step
+// never started) can be resumed
+const STALL_AFTER_MS = 60 * 1000;
+
+type TrainingJobRow = TrainingJob & { datasets: { name: string; version: number } | null };
+
+const STATUS_VARIANTS = {
+  queued: "outline",
+  running: "secondary",
+  succeeded: "default",
+  failed: "destructive",
+} as const;
+
+function isActive(job: TrainingJob): boolean {
+  return job.status === "queued" || job.status === "running";
+}
+
+function isStalled(job: TrainingJob): boolean {
+  if (!isActive(job)) return false;
+  const now = Date.now();
+  const leased = job.lease_expires_at !== null && new Date(job.lease_expires_at).getTime() > now;
+  return !leased && now - new Date(job.updated_at).getTime() > STALL_AFTER_MS;
+}
+
+function progressPercent(job: TrainingJob): number {
+  return job.steps.length > 0 ? (job.completed_steps / job.steps.length) * 100 : 0;
+}
+
+interface TrainingJobsProps {
+  refreshTrigger: number;
+  onJobFinished: () => void; // A job followed by this panel succeeded or failed
+}
+
+const TrainingJobs = ({ refreshTrigger, onJobFinished }: TrainingJobsProps) => {
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<TrainingJobRow[]>([]);
+  const [starting, setStarting] = useState(false);
+  const activeIds = useRef(new Set<string>()); // Jobs seen queued or running on the last load
+
+  const loadJobs = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("training_jobs")
+      .select("*, datasets(name, version)")
+      .order("created_at", { ascending: false })
+      .limit(JOBS_SHOWN)
+      .overrideTypes<TrainingJobJson[]>();
+    if (error) {
+      console.error("Error loading training jobs:", error);
+      return;
+    }
+
+    const finished = data.filter((job) => activeIds.current.has(job.id) && !isActive(job));
+    activeIds.current = new Set(data.filter(isActive).map((job) => job.id));
+    setJobs(data);
+    for (const job of finished) {
+      toast(job.status === "succeeded"
+        ? { title: "Training Complete", description: "The new models are now serving predictions." }
+        : { title: "Training Failed", description: job.error ?? "The training job failed.", variant: "destructive" });
+    }
+    if (finished.length > 0) onJobFinished();
+  }, [onJobFinished, toast]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs, refreshTrigger]);
+
+  // Poll while a job is in progress
+  const polling = jobs.some(isActive);
+  useEffect(() => {
+    if (!polling) return;
+    const timer = setInterval(loadJobs, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [polling, loadJobs]);
+
+  // Without a job id, train-models queues a job on the active dataset version
+  const invokeTraining = async (body: { job_id?: string }) => {
+    setStarting(true);
+    try {
+      const { error } = await supabase.functions.invoke("train-models", { body });
+      if (error) throw new Error(await functionErrorMessage(error, "Unable to start training."));
+      await loadJobs();
+    } catch (error) {
+      console.error("Training error:", error);
+      toast({
+        title: "Training Failed",
+        description: error instanceof Error ? error.message : "Unable to start training.",
+        variant: "destructive",
+      });
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const [latest, ...earlier] = jobs;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BrainCircuit className="h-5 w-5" />
+          Model Training
+        </CardTitle>
+        <CardDescription>
+          Models train in the background on the active dataset version, one step at a time
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button onClick={() => invokeTraining({})} disabled={starting || polling} className="gap-2">
+          {(starting || polling) && <Loader2 className="h-4 w-4 animate-spin" />}
+          {polling ? "Training..." : "Train Models"}
+        </Button>
+
+        {latest ? (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span className="flex items-center gap-2">
+                <Badge variant={STATUS_VARIANTS[latest.status as keyof typeof STATUS_VARIANTS]}>{latest.status}</Badge>
+                {latest.datasets && <span className="font-medium">{latest.datasets.name} v{latest.datasets.version}</span>}
+                <span className="text-muted-foreground">{new Date(latest.created_at).toLocaleString()}</span>
+              </span>
+              <span className="text-muted-foreground">
+                {latest.steps.length > 0 ? `${latest.completed_steps} of ${latest.steps.length} steps` : "Waiting to start"}
+              </span>
+            </div>
+            <Progress value={progressPercent(latest)} className="h-2" />
+            {latest.error && <p className="text-sm text-destructive">{latest.error}</p>}
+            {isStalled(latest) && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                This job has stopped making progress.
+                <Button size="sm" variant="outline" disabled={starting} onClick={() => invokeTraining({ job_id: latest.id })}>
+                  Resume
+                </Button>
+              </div>
+            )}
+            {latest.logs.length > 0 && (
+              <ol className="max-h-48 overflow-y-auto rounded-md border bg-muted/30 p-3 font-mono text-xs space-y-1">
+                {latest.logs.map((entry, i) => (
+                  <li key={i}>
+                    <span className="text-muted-foreground">{new Date(entry.at).toLocaleTimeString()}</span>{" "}
+                    {entry.message}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No training jobs yet.</p>
+        )}
+
+        {earlier.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Queued</TableHead>
+                <TableHead>Dataset</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Steps</TableHead>
+                <TableHead>Finished</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {earlier.map((job) => (
+                <TableRow key={job.id}>
+                  <TableCell>{new Date(job.created_at).toLocaleString()}</TableCell>
+                  <TableCell>{job.datasets ? `${job.datasets.name} v${job.datasets.version}` : "—"}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[job.status as keyof typeof STATUS_VARIANTS]}>{job.status}</Badge>
+                  </TableCell>
+                  <TableCell>{job.completed_steps} / {job.steps.length}</TableCell>
+                  <TableCell>{job.finished_at ? new Date(job.finished_at).toLocaleString() : "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrainingJobs;
@@ -0,0 +1,220 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, SlidersHorizontal } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { functionErrorMessage } from "@/lib/functions";
+import { fetchCropsWithOwnModels } from "@/lib/models";
+import type { TuningTrial, TuningTrialJson } from "@/lib/predictions";
+
+// Mirrors the names in YIELD_MODELS (supabase/functions/_shared/yield-models.ts)
+const TUNABLE_MODELS = ["Random Forest", "Gradient Boosting", "Linear Regression"];
+
+// Trials shown per search, best first
+const LEADERBOARD_SIZE = 10;
+
+const POLL_INTERVAL_MS = 3000;
+
+// Select value for the pooled models, tuned on every crop's rows
+const POOLED = "pooled";
+
+type TuningRun = Tables<"tuning_runs">;
+
+function isActive(run: TuningRun | null): boolean {
+  return run?.status === "queued" || run?.status === "running";
+}
+
+interface TuningLeaderboardProps {
+  refreshTrigger: number;
+}
+
+const TuningLeaderboard = ({ refreshTrigger }: TuningLeaderboardProps) => {
+  const { toast } = useToast();
+  const [modelName, setModelName] = useState(TUNABLE_MODELS[0]);
+  const [crop, setCrop] = useState(POOLED);
+  const [crops, setCrops] = useState<string[]>([]); // Crops modelName has models of its own for
+  const [run, setRun] = useState<TuningRun | null>(null); // Latest search for modelName and crop
+  const [trials, setTrials] = useState<TuningTrial[]>([]);
+  const [trialCount, setTrialCount] = useState(0); // Trials of the run done so far
+  const [tuning, setTuning] = useState(false);
+  const activeRunId = useRef<string | null>(null); // Run seen queued or running on the last load
+
+  useEffect(() => {
+    fetchCropsWithOwnModels(modelName)
+      .then((names) => {
+        setCrops(names);
+        setCrop((current) => (current === POOLED || names.includes(current) ? current : POOLED));
+      })
+      .catch((error) => console.error("Error loading crop models:", error));
+  }, [modelName, refreshTrigger]);
+
+  const loadLeaderboard = useCallback(async () => {
+    const runs = supabase.from("tuning_runs").select("*").eq("model_name", modelName);
+    const { data: latest, error } = await (crop === POOLED ? runs.is("crop", null) : runs.eq("crop", crop))
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) {
+      console.error("Error loading tuning runs:", error);
+      return;
+    }
+    setRun(latest);
+    if (latest && activeRunId.current === latest.id && !isActive(latest)) {
+      toast(latest.status === "succeeded"
+        ? { title: "Tuning Complete", description: "The next training run uses the promoted trial." }
+        : { title: "Tuning Failed", description: latest.error ?? "The search failed.", variant: "destructive" });
+    }
+    activeRunId.current = latest && isActive(latest) ? latest.id : null;
+    if (!latest) {
+      setTrials([]);
+      setTrialCount(0);
+      return;
+    }
+
+    const { data, count, error: trialsError } = await supabase
+      .from("tuning_trials")
+      .select("*", { count: "exact" })
+      .eq("run_id", latest.id)
+      .order("cv_r2_mean", { ascending: false })
+      .limit(LEADERBOARD_SIZE)
+      .overrideTypes<TuningTrialJson[]>();
+    if (trialsError) console.error("Error loading tuning trials:", trialsError);
+    setTrials(data ?? []);
+    setTrialCount(count ?? 0);
+  }, [modelName, crop, toast]);
+
+  useEffect(() => {
+    loadLeaderboard();
+  }, [loadLeaderboard, refreshTrigger]);
+
+  // Poll while the search is in progress
+  const polling = isActive(run);
+  useEffect(() => {
+    if (!polling) return;
+    const timer = setInterval(loadLeaderboard, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [polling, loadLeaderboard]);
+
+  // tune-model queues the search and runs its trials in the background
+  const runSearch = async () => {
+    setTuning(true);
+    try {
+      const { error } = await supabase.functions.invoke("tune-model", {
+        body: { model_name: modelName, crop: crop === POOLED ? null : crop, strategy: "random" },
+      });
+      if (error) throw new Error(await functionErrorMessage(error, `Unable to tune ${modelName}.`));
+      await loadLeaderboard();
+    } catch (error) {
+      console.error("Tuning error:", error);
+      toast({
+        title: "Tuning Failed",
+        description: error instanceof Error ? error.message : `Unable to tune ${modelName}.`,
+        variant: "destructive",
+      });
+    } finally {
+      setTuning(false);
+    }
+  };
+
+  // Only the searched hyperparameters differ between trials
+  const searched = run ? Object.keys(run.search_space as Record<string, unknown>) : [];
+  const candidates = run ? (run.candidates as unknown[]).length : 0;
+  const scope = crop === POOLED ? modelName : `${modelName} (${crop})`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          Hyperparameter Search
+        </CardTitle>
+        <CardDescription>
+          {run
+            ? `Latest ${run.strategy} search: ${run.folds}-fold CV on ${run.training_rows} rows, ${new Date(run.created_at).toLocaleString()}`
+            : `No search has been run for ${scope} yet`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={modelName} onValueChange={setModelName}>
+            <SelectTrigger className="sm:w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TUNABLE_MODELS.map((name) => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={crop} onValueChange={setCrop}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={POOLED}>All crops (pooled)</SelectItem>
+              {crops.map((name) => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={runSearch} disabled={tuning || polling} className="gap-2">
+            {(tuning || polling) && <Loader2 className="h-4 w-4 animate-spin" />}
+            {polling ? "Searching..." : "Run Random Search"}
+          </Button>
+        </div>
+
+        {run && polling && (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>{run.status === "queued" ? "Waiting to start" : "Running trials"}</span>
+              <span>{trialCount} of {candidates} trials</span>
+            </div>
+            <Progress value={candidates > 0 ? (trialCount / candidates) * 100 : 0} className="h-2" />
+          </div>
+        )}
+        {run?.error && <p className="text-sm text-destructive">{run.error}</p>}
+
+        {trials.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rank</TableHead>
+                <TableHead>Trial</TableHead>
+                {searched.map((name) => (
+                  <TableHead key={name}>{name}</TableHead>
+                ))}
+                <TableHead>CV R² (mean ± std)</TableHead>
+                <TableHead>CV MAE</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {trials.map((trial, rank) => (
+                <TableRow key={trial.id} className={trial.promoted ? "bg-muted/50" : undefined}>
+                  <TableCell className="font-medium">{rank + 1}</TableCell>
+                  <TableCell>{trial.trial}</TableCell>
+                  {searched.map((name) => (
+                    <TableCell key={name}>{String(trial.parameters[name] ?? "—")}</TableCell>
+                  ))}
+                  <TableCell>{trial.cv_r2_mean.toFixed(4)} ± {trial.cv_r2_std.toFixed(4)}</TableCell>
+                  <TableCell>{trial.cv_mae_mean.toFixed(2)}</TableCell>
+                  <TableCell>{(trial.duration_ms / 1000).toFixed(1)} s</TableCell>
+                  <TableCell>{trial.promoted && <Badge>Promoted</Badge>}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TuningLeaderboard;
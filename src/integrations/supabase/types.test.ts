@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+// types.ts is generated from the database; this replays supabase/migrations to check it is
+// regenerated whenever a migration adds, renames or retypes a column.
+
+interface Column {
+  type: string; // TypeScript type of the Row field
+  nullable: boolean;
+  hasDefault: boolean;
+}
+
+type Schema = Map<string, Map<string, Column>>;
+
+const MIGRATIONS_DIR = join(__dirname, '../../../supabase/migrations');
+const TYPES_FILE = join(__dirname, 'types.ts');
+
+const SQL_TYPES: [RegExp, string][] = [
+  [/^(UUID|TEXT|TIMESTAMP)\b/, 'string'],
+  [/^(DECIMAL|NUMERIC|INTEGER|BIGINT|SMALLINT)\b/, 'number'],
+  [/^BOOLEAN\b/, 'boolean'],
+  [/^JSONB?\b/, 'Json'],
+];
+
+// Split on commas outside parentheses (DECIMAL(7,2), CHECK (...))
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')') depth--;
+    else if (text[i] === ',' && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts.filter(Boolean);
+}
+
+function parseColumn(definition: string): [string, Column] {
+  const [, name, rest] = definition.match(/^(\w+)\s+(.*)$/s)!;
+  const sqlType = rest.toUpperCase();
+  const match = SQL_TYPES.find(([pattern]) => pattern.test(sqlType));
+  if (!match) throw new Error(`Unmapped SQL type in "${definition}"`);
+  const isArray = /^\w+(\(\d+(,\s*\d+)?\))?\[\]/.test(sqlType);
+  return [name, {
+    type: isArray ? `${match[1]}[]` : match[1],
+    nullable: !/\bNOT NULL\b|\bPRIMARY KEY\b/.test(sqlType),
+    hasDefault: /\bDEFAULT\b/.test(sqlType),
+  }];
+}
+
+function applyAlter(schema: Schema, table: string, actions: string) {
+  const rename = actions.match(/^RENAME TO (\w+)$/i);
+  if (rename) {
+    schema.set(rename[1], schema.get(table)!);
+    schema.delete(table);
+    return;
+  }
+  const columns = schema.get(table)!;
+  for (const action of splitTopLevel(actions)) {
+    const add = action.match(/^ADD COLUMN (?:IF NOT EXISTS )?(.*)$/is);
+    const notNull = action.match(/^ALTER COLUMN (\w+) (SET|DROP) NOT NULL$/i);
+    const retype = action.match(/^ALTER COLUMN (\w+) (?:SET DATA )?TYPE (\S+)/i);
+    const drop = action.match(/^DROP COLUMN (?:IF EXISTS )?(\w+)/i);
+    if (add) {
+      const [name, column] = parseColumn(add[1]);
+      if (!columns.has(name)) columns.set(name, column);
+    } else if (notNull) {
+      columns.get(notNull[1])!.nullable = notNull[2].toUpperCase() === 'DROP';
+    } else if (retype) {
+      columns.get(retype[1])!.type = parseColumn(`${retype[1]} ${retype[2]}`)[1].type;
+    } else if (drop) {
+      columns.delete(drop[1]);
+    }
+  }
+}
+
+// Tables and columns after running every migration in order
+function migratedSchema(): Schema {
+  const schema: Schema = new Map();
+  const files = readdirSync(MIGRATIONS_DIR).filter((f) => f.endsWith('.sql')).sort();
+  for (const file of files) {
+    const sql = readFileSync(join(MIGRATIONS_DIR, file), 'utf8')
+      .replace(/\$\$[\s\S]*?\$\$/g, '') // Function bodies
+      .replace(/--.*$/gm, '');
+    for (const statement of sql.split(';').map((s) => s.replace(/\s+/g, ' ').trim())) {
+      const create = statement.match(/^CREATE TABLE (?:public\.)?(\w+) \((.*)\)$/i);
+      const alter = statement.match(/^ALTER TABLE (?:public\.)?(\w+) (.*)$/i);
+      if (create) {
+        const definitions = splitTopLevel(create[2]).filter((d) => !/^(CONSTRAINT|PRIMARY KEY|UNIQUE|CHECK)\b/i.test(d));
+        schema.set(create[1], new Map(definitions.map(parseColumn)));
+      } else if (alter) {
+        applyAlter(schema, alter[1], alter[2]);
+      }
+    }
+  }
+  return schema;
+}
+
+// { <table>: { Row: { <column>: <type> }, Insert: { <column>: <type> } } } from types.ts
+function generatedTables(): Record<string, Record<'Row' | 'Insert', Record<string, string>>> {
+  const source = readFileSync(TYPES_FILE, 'utf8');
+  const tables = source.slice(source.indexOf('Tables: {'), source.indexOf('Views: {'));
+  const result: Record<string, Record<'Row' | 'Insert', Record<string, string>>> = {};
+  for (const [, table, body] of tables.matchAll(/^ {6}(\w+): \{\n([\s\S]*?)^ {6}\}/gm)) {
+    const block = (name: string) => Object.fromEntries(
+      [...body.match(new RegExp(`${name}: \\{\\n([\\s\\S]*?)\\n\\s*\\}`))![1].matchAll(/(\w+\??): (.+)/g)]
+        .map(([, field, type]) => [field, type.trim()]),
+    );
+    result[table] = { Row: block('Row'), Insert: block('Insert') };
+  }
+  return result;
+}
+
+describe('supabase types', () => {
+  const schema = migratedSchema();
+  const generated = generatedTables();
+
+  it('covers exactly the tables the migrations create', () => {
+    expect(Object.keys(generated).sort()).toEqual([...schema.keys()].sort());
+  });
+
+  it('types every column as the migrations define it', () => {
+    for (const [table, columns] of schema) {
+      const expected = Object.fromEntries(
+        [...columns].map(([name, c]) => [name, c.nullable ? `${c.type} | null` : c.type]),
+      );
+      expect({ table, row: generated[table]?.Row }).toEqual({ table, row: expected });
+    }
+  });
+
+  it('makes insert fields optional exactly when the column is nullable or has a default', () => {
+    for (const [table, columns] of schema) {
+      const expected = Object.fromEntries(
+        [...columns].map(([name, c]) => [
+          c.nullable || c.hasDefault ? `${name}?` : name,
+          c.nullable ? `${c.type} | null` : c.type,
+        ]),
+      );
+      expect({ table, insert: generated[table]?.Insert }).toEqual({ table, insert: expected });
+    }
+  });
+});
@@ -18,116 +18,747 @@ export type Database = {
         Row: {
           created_at: string
           crop: string
+          dataset_id: string
           fertilizer: number
+          generation_id: string | null
           humidity: number
           id: string
+          import_id: string | null
+          nitrogen: number | null
+          npk_ratio: number | null
+          ph_fertilizer_interaction: number | null
+          phosphorus: number | null
+          potassium: number | null
           rainfall: number
           soil_ph: number
+          source: string
+          temp_rainfall_interaction: number | null
+          temp_squared: number | null
           temperature: number
           yield: number
         }
         Insert: {
           created_at?: string
           crop: string
+          dataset_id: string
           fertilizer: number
+          generation_id?: string | null
           humidity: number
           id?: string
+          import_id?: string | null
+          nitrogen?: number | null
+          npk_ratio?: number | null
+          ph_fertilizer_interaction?: number | null
+          phosphorus?: number | null
+          potassium?: number | null
           rainfall: number
           soil_ph: number
+          source?: string
+          temp_rainfall_interaction?: number | null
+          temp_squared?: number | null
           temperature: number
           yield: number
         }
         Update: {
           created_at?: string
           crop?: string
+          dataset_id?: string
           fertilizer?: number
+          generation_id?: string | null
           humidity?: number
           id?: string
+          import_id?: string | null
+          nitrogen?: number | null
+          npk_ratio?: number | null
+          ph_fertilizer_interaction?: number | null
+          phosphorus?: number | null
+          potassium?: number | null
           rainfall?: number
           soil_ph?: number
+          source?: string
+          temp_rainfall_interaction?: number | null
+          temp_squared?: number | null
           temperature?: number
           yield?: number
         }
+        Relationships: [
+          {
+            foreignKeyName: "crops_dataset_dataset_id_fkey"
+            columns: ["dataset_id"]
+            isOneToOne: false
+            referencedRelation: "datasets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "crops_dataset_generation_id_fkey"
+            columns: ["generation_id"]
+            isOneToOne: false
+            referencedRelation: "generation_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "crops_dataset_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "dataset_imports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      data_quality_reports: {
+        Row: {
+          applied: boolean
+          changed_rows: number
+          columns: Json
+          config: Json
+          created_at: string
+          dataset_id: string
+          dropped_rows: number
+          duplicate_rows: number
+          id: string
+          import_id: string | null
+          issue_count: number
+          issues: Json
+          kept_rows: number
+          total_rows: number
+        }
+        Insert: {
+          applied: boolean
+          changed_rows: number
+          columns: Json
+          config: Json
+          created_at?: string
+          dataset_id: string
+          dropped_rows: number
+          duplicate_rows: number
+          id?: string
+          import_id?: string | null
+          issue_count: number
+          issues?: Json
+          kept_rows: number
+          total_rows: number
+        }
+        Update: {
+          applied?: boolean
+          changed_rows?: number
+          columns?: Json
+          config?: Json
+          created_at?: string
+          dataset_id?: string
+          dropped_rows?: number
+          duplicate_rows?: number
+          id?: string
+          import_id?: string | null
+          issue_count?: number
+          issues?: Json
+          kept_rows?: number
+          total_rows?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_quality_reports_dataset_id_fkey"
+            columns: ["dataset_id"]
+            isOneToOne: false
+            referencedRelation: "datasets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "data_quality_reports_import_id_fkey"
+            columns: ["import_id"]
+            isOneToOne: false
+            referencedRelation: "dataset_imports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dataset_imports: {
+        Row: {
+          column_mapping: Json
+          created_at: string
+          dataset_id: string | null
+          duplicate_rows: number
+          errors: Json
+          file_name: string
+          id: string
+          imported_rows: number
+          rejected_rows: number
+          total_rows: number
+        }
+        Insert: {
+          column_mapping: Json
+          created_at?: string
+          dataset_id?: string | null
+          duplicate_rows: number
+          errors?: Json
+          file_name: string
+          id?: string
+          imported_rows: number
+          rejected_rows: number
+          total_rows: number
+        }
+        Update: {
+          column_mapping?: Json
+          created_at?: string
+          dataset_id?: string | null
+          duplicate_rows?: number
+          errors?: Json
+          file_name?: string
+          id?: string
+          imported_rows?: number
+          rejected_rows?: number
+          total_rows?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dataset_imports_dataset_id_fkey"
+            columns: ["dataset_id"]
+            isOneToOne: false
+            referencedRelation: "datasets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      datasets: {
+        Row: {
+          archived_at: string | null
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          row_count: number
+          status: string
+          version: number
+        }
+        Insert: {
+          archived_at?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          row_count?: number
+          status?: string
+          version: number
+        }
+        Update: {
+          archived_at?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          row_count?: number
+          status?: string
+          version?: number
+        }
         Relationships: []
       }
+      generation_runs: {
+        Row: {
+          config: Json
+          created_at: string
+          dataset_id: string | null
+          id: string
+          seed: number
+        }
+        Insert: {
+          config: Json
+          created_at?: string
+          dataset_id?: string | null
+          id?: string
+          seed: number
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          dataset_id?: string | null
+          id?: string
+          seed?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_runs_dataset_id_fkey"
+            columns: ["dataset_id"]
+            isOneToOne: false
+            referencedRelation: "datasets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       model_metrics: {
         Row: {
           created_at: string
+          crop: string | null
+          cv_fold_scores: Json | null
+          cv_r2_mean: number | null
+          cv_r2_std: number | null
+          dataset_id: string | null
+          evaluation_method: string | null
           id: string
           mae: number
+          model_id: string | null
           model_name: string
+          permutation_importances: Json | null
           r2_score: number
           rmse: number
+          test_rows: number | null
+          train_rows: number | null
           training_date: string
+          tuned_parameters: Json | null
+          validation_r2: number | null
+          validation_rows: number | null
         }
         Insert: {
           created_at?: string
+          crop?: string | null
+          cv_fold_scores?: Json | null
+          cv_r2_mean?: number | null
+          cv_r2_std?: number | null
+          dataset_id?: string | null
+          evaluation_method?: string | null
           id?: string
           mae: number
+          model_id?: string | null
           model_name: string
+          permutation_importances?: Json | null
           r2_score: number
           rmse: number
+          test_rows?: number | null
+          train_rows?: number | null
           training_date?: string
+          tuned_parameters?: Json | null
+          validation_r2?: number | null
+          validation_rows?: number | null
         }
         Update: {
           created_at?: string
+          crop?: string | null
+          cv_fold_scores?: Json | null
+          cv_r2_mean?: number | null
+          cv_r2_std?: number | null
+          dataset_id?: string | null
+          evaluation_method?: string | null
           id?: string
           mae?: number
+          model_id?: string | null
           model_name?: string
+          permutation_importances?: Json | null
           r2_score?: number
           rmse?: number
+          test_rows?: number | null
+          train_rows?: number | null
           training_date?: string
+          tuned_parameters?: Json | null
+          validation_r2?: number | null
+          validation_rows?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "model_metrics_dataset_id_fkey"
+            columns: ["dataset_id"]
+            isOneToOne: false
+            referencedRelation: "datasets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "model_metrics_model_id_fkey"
+            columns: ["model_id"]
+            isOneToOne: false
+            referencedRelation: "models"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      models: {
+        Row: {
+          algorithm: string
+          created_at: string
+          crop: string | null
+          crops: string[]
+          dataset_id: string | null
+          dataset_snapshot: string | null
+          features: string[]
+          hyperparameters: Json
+          id: string
+          imputer: Json | null
+          model_name: string
+          parameters: Json
+          scaler: Json | null
+          training_job_id: string | null
+          training_rows: number
+          training_step: string | null
+          version: number
+        }
+        Insert: {
+          algorithm: string
+          created_at?: string
+          crop?: string | null
+          crops?: string[]
+          dataset_id?: string | null
+          dataset_snapshot?: string | null
+          features: string[]
+          hyperparameters?: Json
+          id?: string
+          imputer?: Json | null
+          model_name: string
+          parameters: Json
+          scaler?: Json | null
+          training_job_id?: string | null
+          training_rows: number
+          training_step?: string | null
+          version: number
+        }
+        Update: {
+          algorithm?: string
+          created_at?: string
+          crop?: string | null
+          crops?: string[]
+          dataset_id?: string | null
+          dataset_snapshot?: string | null
+          features?: string[]
+          hyperparameters?: Json
+          id?: string
+          imputer?: Json | null
+          model_name?: string
+          parameters?: Json
+          scaler?: Json | null
+          training_job_id?: string | null
+          training_rows?: number
+          training_step?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "models_dataset_id_fkey"
+            columns: ["dataset_id"]
+            isOneToOne: false
+            referencedRelation: "datasets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "models_training_job_id_fkey"
+            columns: ["training_job_id"]
+            isOneToOne: false
+            referencedRelation: "training_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prediction_outputs: {
+        Row: {
+          created_at: string
+          details: Json | null
+          id: string
+          model_id: string | null
+          model_name: string
+          predicted_yield: number
+          prediction_id: string
+          yield_lower: number | null
+          yield_upper: number | null
+        }
+        Insert: {
+          created_at?: string
+          details?: Json | null
+          id?: string
+          model_id?: string | null
+          model_name: string
+          predicted_yield: number
+          prediction_id: string
+          yield_lower?: number | null
+          yield_upper?: number | null
+        }
+        Update: {
+          created_at?: string
+          details?: Json | null
+          id?: string
+          model_id?: string | null
+          model_name?: string
+          predicted_yield?: number
+          prediction_id?: string
+          yield_lower?: number | null
+          yield_upper?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prediction_outputs_model_id_fkey"
+            columns: ["model_id"]
+            isOneToOne: false
+            referencedRelation: "models"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prediction_outputs_prediction_id_fkey"
+            columns: ["prediction_id"]
+            isOneToOne: false
+            referencedRelation: "predictions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       predictions: {
         Row: {
+          batch_id: string | null
           best_model: string
+          confidence_level: number | null
           created_at: string
+          crop_recommendations: Json | null
+          feature_attributions: Json | null
+          feature_importances: Json | null
           fertilizer: number
           humidity: number
           id: string
+          imputed_features: Json
+          model_versions: Json | null
+          nitrogen: number | null
+          phosphorus: number | null
+          potassium: number | null
           predicted_crop: string
-          predicted_yield_lr: number
-          predicted_yield_rf: number
           rainfall: number
           soil_ph: number
+          target_crop: string | null
           temperature: number
         }
         Insert: {
+          batch_id?: string | null
           best_model: string
+          confidence_level?: number | null
           created_at?: string
+          crop_recommendations?: Json | null
+          feature_attributions?: Json | null
+          feature_importances?: Json | null
           fertilizer: number
           humidity: number
           id?: string
+          imputed_features?: Json
+          model_versions?: Json | null
+          nitrogen?: number | null
+          phosphorus?: number | null
+          potassium?: number | null
           predicted_crop: string
-          predicted_yield_lr: number
-          predicted_yield_rf: number
           rainfall: number
           soil_ph: number
+          target_crop?: string | null
           temperature: number
         }
         Update: {
+          batch_id?: string | null
           best_model?: string
+          confidence_level?: number | null
           created_at?: string
+          crop_recommendations?: Json | null
+          feature_attributions?: Json | null
+          feature_importances?: Json | null
           fertilizer?: number
           humidity?: number
           id?: string
+          imputed_features?: Json
+          model_versions?: Json | null
+          nitrogen?: number | null
+          phosphorus?: number | null
+          potassium?: number | null
           predicted_crop?: string
-          predicted_yield_lr?: number
-          predicted_yield_rf?: number
           rainfall?: number
           soil_ph?: number
+          target_crop?: string | null
           temperature?: number
         }
         Relationships: []
       }
+      training_jobs: {
+        Row: {
+          completed_steps: number
+          config: Json
+          created_at: string
+          dataset_id: string | null
+          dataset_snapshot: string | null
+          error: string | null
+          finished_at: string | null
+          hyperparameters: Json | null
+          id: string
+          lease_expires_at: string | null
+          logs: Json
+          result: Json | null
+          started_at: string | null
+          status: string
+          steps: string[]
+          updated_at: string
+        }
+        Insert: {
+          completed_steps?: number
+          config?: Json
+          created_at?: string
+          dataset_id?: string | null
+          dataset_snapshot?: string | null
+          error?: string | null
+          finished_at?: string | null
+          hyperparameters?: Json | null
+          id?: string
+          lease_expires_at?: string | null
+          logs?: Json
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          steps?: string[]
+          updated_at?: string
+        }
+        Update: {
+          completed_steps?: number
+          config?: Json
+          created_at?: string
+          dataset_id?: string | null
+          dataset_snapshot?: string | null
+          error?: string | null
+          finished_at?: string | null
+          hyperparameters?: Json | null
+          id?: string
+          lease_expires_at?: string | null
+          logs?: Json
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          steps?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "training_jobs_dataset_id_fkey"
+            columns: ["dataset_id"]
+            isOneToOne: false
+            referencedRelation: "datasets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tuning_runs: {
+        Row: {
+          candidates: Json
+          created_at: string
+          crop: string | null
+          dataset_id: string | null
+          error: string | null
+          finished_at: string | null
+          folds: number
+          id: string
+          lease_expires_at: string | null
+          model_name: string
+          scaler: string
+          search_space: Json
+          seed: number
+          status: string
+          strategy: string
+          training_rows: number
+          updated_at: string
+        }
+        Insert: {
+          candidates?: Json
+          created_at?: string
+          crop?: string | null
+          dataset_id?: string | null
+          error?: string | null
+          finished_at?: string | null
+          folds: number
+          id?: string
+          lease_expires_at?: string | null
+          model_name: string
+          scaler?: string
+          search_space: Json
+          seed: number
+          status?: string
+          strategy: string
+          training_rows: number
+          updated_at?: string
+        }
+        Update: {
+          candidates?: Json
+          created_at?: string
+          crop?: string | null
+          dataset_id?: string | null
+          error?: string | null
+          finished_at?: string | null
+          folds?: number
+          id?: string
+          lease_expires_at?: string | null
+          model_name?: string
+          scaler?: string
+          search_space?: Json
+          seed?: number
+          status?: string
+          strategy?: string
+          training_rows?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tuning_runs_dataset_id_fkey"
+            columns: ["dataset_id"]
+            isOneToOne: false
+            referencedRelation: "datasets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tuning_trials: {
+        Row: {
+          created_at: string
+          cv_mae_mean: number
+          cv_r2_mean: number
+          cv_r2_std: number
+          cv_rmse_mean: number
+          duration_ms: number
+          fold_scores: Json
+          id: string
+          parameters: Json
+          promoted: boolean
+          run_id: string
+          trial: number
+        }
+        Insert: {
+          created_at?: string
+          cv_mae_mean: number
+          cv_r2_mean: number
+          cv_r2_std: number
+          cv_rmse_mean: number
+          duration_ms: number
+          fold_scores: Json
+          id?: string
+          parameters: Json
+          promoted?: boolean
+          run_id: string
+          trial: number
+        }
+        Update: {
+          created_at?: string
+          cv_mae_mean?: number
+          cv_r2_mean?: number
+          cv_r2_std?: number
+          cv_rmse_mean?: number
+          duration_ms?: number
+          fold_scores?: Json
+          id?: string
+          parameters?: Json
+          promoted?: boolean
+          run_id?: string
+          trial?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tuning_trials_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "tuning_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      activate_dataset: { Args: { target: string }; Returns: undefined }
+      is_number_map: { Args: { value: Json }; Returns: boolean }
+      is_parameter_map: { Args: { value: Json }; Returns: boolean }
     }
     Enums: {
       [_ in never]: never
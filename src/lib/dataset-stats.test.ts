@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { boxStats, correlation, correlationMatrix, histogram, quantile, summarizeColumn } from './dataset-stats';
+
+describe('summarizeColumn', () => {
+  it('computes min/max/mean/sample std and counts missing values', () => {
+    const summary = summarizeColumn([2, 4, null, 4, 4, 5, 5, 7, 9, NaN]);
+    expect(summary).toMatchObject({ count: 8, missing: 2, min: 2, max: 9, mean: 5 });
+    expect(summary.std).toBeCloseTo(2.138, 3);
+  });
+
+  it('handles an all-missing column', () => {
+    expect(summarizeColumn([null, null])).toEqual({ count: 0, missing: 2, min: null, max: null, mean: null, std: null });
+  });
+});
+
+describe('histogram', () => {
+  it('puts every value in an equal-width bin, max in the last one', () => {
+    const bins = histogram([0, 1, 2, 3, 4, 5, 6, 7, 8, 10], 5);
+    expect(bins.map((b) => b.count)).toEqual([2, 2, 2, 2, 2]);
+    expect(bins[0].start).toBe(0);
+    expect(bins[4].end).toBe(10);
+  });
+
+  it('copes with a constant column', () => {
+    expect(histogram([3, 3, 3], 4)[0].count).toBe(3);
+  });
+});
+
+describe('quantile and boxStats', () => {
+  it('interpolates between ranks', () => {
+    expect(quantile([1, 2, 3, 4], 0.5)).toBe(2.5);
+    expect(quantile([1, 2, 3, 4], 0.25)).toBe(1.75);
+  });
+
+  it('puts whiskers at the furthest non-outlying values', () => {
+    const stats = boxStats([1, 2, 3, 4, 5, 6, 7, 8, 100]);
+    expect(stats).toMatchObject({ q1: 3, median: 5, q3: 7, lowerWhisker: 1, upperWhisker: 8, outliers: 1, count: 9 });
+  });
+
+  it('returns null without values', () => {
+    expect(boxStats([null])).toBeNull();
+  });
+});
+
+describe('correlation', () => {
+  it('is 1 / -1 for perfectly linear columns and skips incomplete pairs', () => {
+    expect(correlation([1, 2, 3, null], [2, 4, 6, 8])).toBeCloseTo(1);
+    expect(correlation([1, 2, 3], [3, 2, 1])).toBeCloseTo(-1);
+  });
+
+  it('is undefined for a constant column', () => {
+    expect(correlation([1, 1, 1], [1, 2, 3])).toBeNull();
+  });
+
+  it('builds a symmetric matrix with a unit diagonal', () => {
+    const matrix = correlationMatrix([[1, 2, 3], [1, 3, 2], [3, 2, 1]]);
+    expect(matrix[0][0]).toBe(1);
+    expect(matrix[0][1]).toBeCloseTo(matrix[1][0]!);
+    expect(matrix[0][2]).toBeCloseTo(-1);
+  });
+});
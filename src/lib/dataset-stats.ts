@@ -0,0 +1,112 @@
+// Descriptive statistics for the dataset explorer. Missing values (null/NaN) are
+// counted but otherwise ignored.
+
+export interface ColumnSummary {
+  count: number; // Non-missing values
+  missing: number;
+  min: number | null;
+  max: number | null;
+  mean: number | null;
+  std: number | null; // Sample standard deviation
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+// Tukey box plot: whiskers reach the furthest values within 1.5 × IQR of the box
+export interface BoxStats {
+  q1: number;
+  median: number;
+  q3: number;
+  lowerWhisker: number;
+  upperWhisker: number;
+  outliers: number; // Values beyond the whiskers
+  count: number;
+}
+
+const present = (values: (number | null)[]): number[] =>
+  values.filter((v): v is number => v !== null && Number.isFinite(v));
+
+export function summarizeColumn(values: (number | null)[]): ColumnSummary {
+  const xs = present(values);
+  const missing = values.length - xs.length;
+  if (xs.length === 0) return { count: 0, missing, min: null, max: null, mean: null, std: null };
+
+  const mean = xs.reduce((sum, v) => sum + v, 0) / xs.length;
+  const variance = xs.length > 1 ? xs.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (xs.length - 1) : 0;
+  return {
+    count: xs.length,
+    missing,
+    min: xs.reduce((m, v) => Math.min(m, v), Infinity),
+    max: xs.reduce((m, v) => Math.max(m, v), -Infinity),
+    mean,
+    std: Math.sqrt(variance),
+  };
+}
+
+// Equal-width bins over [min, max]; the last bin includes max
+export function histogram(values: (number | null)[], bins = 20): HistogramBin[] {
+  const xs = present(values);
+  if (xs.length === 0) return [];
+  const min = xs.reduce((m, v) => Math.min(m, v), Infinity);
+  const max = xs.reduce((m, v) => Math.max(m, v), -Infinity);
+  const width = (max - min) / bins || 1;
+  const counts = new Array(bins).fill(0);
+  for (const v of xs) counts[Math.min(bins - 1, Math.floor((v - min) / width))]++;
+  return counts.map((count, i) => ({ start: min + i * width, end: min + (i + 1) * width, count }));
+}
+
+// Linear interpolation between closest ranks; `sorted` must be ascending
+export function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function boxStats(values: (number | null)[]): BoxStats | null {
+  const sorted = present(values).sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const fence = 1.5 * (q3 - q1);
+  const inside = sorted.filter((v) => v >= q1 - fence && v <= q3 + fence);
+  return {
+    q1,
+    median: quantile(sorted, 0.5),
+    q3,
+    lowerWhisker: inside[0],
+    upperWhisker: inside[inside.length - 1],
+    outliers: sorted.length - inside.length,
+    count: sorted.length,
+  };
+}
+
+// Pearson correlation of two columns over the rows where both are present (null if undefined)
+export function correlation(a: (number | null)[], b: (number | null)[]): number | null {
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i];
+    const y = b[i];
+    if (x !== null && y !== null && Number.isFinite(x) && Number.isFinite(y)) pairs.push([x, y]);
+  }
+  if (pairs.length < 2) return null;
+  const meanX = pairs.reduce((s, [x]) => s + x, 0) / pairs.length;
+  const meanY = pairs.reduce((s, [, y]) => s + y, 0) / pairs.length;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (const [x, y] of pairs) {
+    cov += (x - meanX) * (y - meanY);
+    varX += (x - meanX) ** 2;
+    varY += (y - meanY) ** 2;
+  }
+  return varX === 0 || varY === 0 ? null : cov / Math.sqrt(varX * varY);
+}
+
+export function correlationMatrix(columns: (number | null)[][]): (number | null)[][] {
+  return columns.map((a, i) => columns.map((b, j) => (i === j ? 1 : correlation(a, b))));
+}
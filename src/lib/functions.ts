@@ -0,0 +1,15 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+// Edge functions answer errors with `{ error: string }`; surface that message
+// instead of supabase-js' generic "non-2xx status code" text.
+export async function functionErrorMessage(error: unknown, fallback: string): Promise<string> {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      if (typeof body?.error === "string") return body.error;
+    } catch {
+      // Body was not JSON; fall through
+    }
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
@@ -0,0 +1,27 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Crops `modelName` has versions of its own for, besides the pooled model trained on every
+// crop (train-models only trains them for crops with enough rows)
+export async function fetchCropsWithOwnModels(modelName: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("models")
+    .select("crop")
+    .eq("model_name", modelName)
+    .not("crop", "is", null);
+  if (error) throw error;
+  return [...new Set(data.map((m) => m.crop as string))].sort();
+}
+
+// Crops predictions can be made for: those of the latest crop recommender, which is trained
+// on every crop of the dataset (predict-yield rejects the rest). Empty before the first training run.
+export async function fetchTrainedCrops(): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("models")
+    .select("crops")
+    .eq("model_name", "Crop Recommender")
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? [...data.crops].sort() : [];
+}
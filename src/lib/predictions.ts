@@ -0,0 +1,85 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+// Rows of predictions, model_metrics, tuning_trials and training_jobs as the results views
+// read them. The generated types leave JSONB columns as Json; these are the shapes
+// predict-yield, train-models and tune-model write, applied to queries with
+// .overrideTypes<PredictionJson>() / <ModelMetricsJson>() / <TuningTrialJson>() / <TrainingJobJson>().
+
+export interface CropRecommendation {
+  crop: string;
+  probability: number;
+}
+
+export interface ModelVersionRef {
+  id: string;
+  version: number;
+  crop?: string | null; // Set when a per-crop model served the prediction
+}
+
+// Additive explanation of one prediction: baseline + sum(contributions) = predicted yield
+export interface FeatureAttributions {
+  model: string;
+  baseline: number;
+  contributions: Record<string, number>; // kg/ha
+}
+
+export interface FoldScore {
+  fold: number;
+  r2: number;
+  mae: number;
+  rmse: number;
+}
+
+// Hyperparameter name -> value, e.g. { n_estimators: 50, max_depth: 10 }
+export type Hyperparameters = Record<string, number | string | boolean | null>;
+
+// One yield model's estimate in prediction_outputs
+export type PredictionOutput = Omit<Tables<"prediction_outputs">, "details"> & {
+  details: Record<string, number> | null; // e.g. { std, min, max } of a forest's trees, or the ensemble's weight per model
+};
+
+export type PredictionJson = {
+  feature_importances: Record<string, number> | null; // Global importances of the best model
+  crop_recommendations: CropRecommendation[] | null; // Classifier ranking, most suitable first
+  feature_attributions: FeatureAttributions | null;
+  model_versions: Record<string, ModelVersionRef> | null; // Exact models behind the prediction
+  imputed_features: Record<string, number>; // Inputs left empty and the values used for them
+  prediction_outputs: PredictionOutput[]; // Embedded with .select("*, prediction_outputs(*)")
+};
+
+export type ModelMetricsJson = {
+  cv_fold_scores: FoldScore[] | null;
+  permutation_importances: Record<string, number> | null; // Drop in held-out R² per permuted feature
+  tuned_parameters: Hyperparameters | null; // Hyperparameters the evaluated model was trained with
+};
+
+export type TuningTrialJson = {
+  parameters: Hyperparameters; // Full configuration tried, defaults included
+  fold_scores: FoldScore[];
+};
+
+export interface TrainingLogEntry {
+  at: string;
+  message: string;
+}
+
+export type TrainingJobJson = {
+  logs: TrainingLogEntry[];
+  result: {
+    crop_recommender_accuracy: number | null;
+    model_versions: Record<string, number>; // Pooled models and the recommender
+  } | null; // Filled in as steps complete
+};
+
+export type Prediction = Omit<Tables<"predictions">, keyof PredictionJson> & PredictionJson;
+
+export type ModelMetrics = Omit<Tables<"model_metrics">, keyof ModelMetricsJson> & ModelMetricsJson;
+
+export type TuningTrial = Omit<Tables<"tuning_trials">, keyof TuningTrialJson> & TuningTrialJson;
+
+export type TrainingJob = Omit<Tables<"training_jobs">, keyof TrainingJobJson> & TrainingJobJson;
+
+// The output of the prediction's best model
+export function bestOutput(prediction: Prediction): PredictionOutput | undefined {
+  return prediction.prediction_outputs.find((o) => o.model_name === prediction.best_model);
+}
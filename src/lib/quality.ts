@@ -0,0 +1,62 @@
+// Data-quality config and report as exchanged with the ingest-dataset and
+// check-dataset-quality functions. Mirrors supabase/functions/_shared/quality.ts.
+
+export type IssueKind = "duplicate" | "out_of_range" | "outlier" | "missing";
+export type Handling = "flag" | "drop" | "cap" | "impute";
+
+export interface QualityConfig {
+  outlier_method: "iqr" | "zscore";
+  iqr_multiplier: number;
+  z_threshold: number;
+  handling: Record<IssueKind, Handling>;
+}
+
+export const DEFAULT_QUALITY_CONFIG: QualityConfig = {
+  outlier_method: "iqr",
+  iqr_multiplier: 1.5,
+  z_threshold: 3,
+  handling: { duplicate: "flag", out_of_range: "flag", outlier: "flag", missing: "flag" },
+};
+
+export const ISSUE_KINDS: { kind: IssueKind; label: string; options: Handling[] }[] = [
+  { kind: "duplicate", label: "Duplicate rows", options: ["flag", "drop"] },
+  { kind: "out_of_range", label: "Implausible values", options: ["flag", "drop", "cap"] },
+  { kind: "outlier", label: "Statistical outliers", options: ["flag", "drop", "cap", "impute"] },
+  { kind: "missing", label: "Missing values", options: ["flag", "drop", "impute"] },
+];
+
+export const HANDLING_LABELS: Record<Handling, string> = {
+  flag: "Flag only",
+  drop: "Drop row",
+  cap: "Cap to bounds",
+  impute: "Impute crop median",
+};
+
+export interface QualityIssue {
+  row: number;
+  row_id?: string; // crops_dataset id, in reports on a stored dataset version
+  column: string | null;
+  kind: IssueKind;
+  value: number | null;
+  action: Handling;
+  replacement?: number | null;
+}
+
+export interface ColumnQuality {
+  missing: number;
+  out_of_range: number;
+  outliers: number;
+  plausible_range: [number, number] | null;
+}
+
+export interface QualityReport {
+  config: QualityConfig;
+  total_rows: number;
+  kept_rows: number;
+  dropped_rows: number;
+  changed_rows: number;
+  duplicate_rows: number;
+  issue_count: number;
+  columns: Record<string, ColumnQuality>;
+  issues: QualityIssue[];
+}
@@ -0,0 +1,74 @@
+import ExcelJS from 'exceljs';
+import { describe, it, expect } from 'vitest';
+import { applyColumnMapping, guessColumnMapping, missingRequiredColumns, parseCsv, parseXlsx } from './upload';
+
+describe('guessColumnMapping', () => {
+  it('matches common header spellings', () => {
+    const mapping = guessColumnMapping(['Crop Name', 'Temp (C)', 'Rainfall_mm', 'Fertiliser', 'pH', 'Humidity', 'N', 'P', 'K', 'Yield (kg/ha)']);
+    expect(mapping).toEqual({
+      crop: 'Crop Name',
+      temperature: 'Temp (C)',
+      rainfall: 'Rainfall_mm',
+      fertilizer: 'Fertiliser',
+      soil_ph: 'pH',
+      humidity: 'Humidity',
+      nitrogen: 'N',
+      phosphorus: 'P',
+      potassium: 'K',
+      yield: 'Yield (kg/ha)',
+    });
+  });
+
+  it('leaves unknown columns unmapped', () => {
+    const mapping = guessColumnMapping(['crop', 'field_id']);
+    expect(mapping.crop).toBe('crop');
+    expect(mapping.temperature).toBeNull();
+  });
+});
+
+describe('missingRequiredColumns', () => {
+  it('lists required columns without a source, ignoring optional NPK', () => {
+    const mapping = guessColumnMapping(['crop', 'temperature', 'rainfall', 'fertilizer', 'soil_ph', 'humidity']);
+    expect(missingRequiredColumns(mapping)).toEqual(['yield']);
+  });
+});
+
+describe('applyColumnMapping', () => {
+  it('renames mapped columns and drops the rest', () => {
+    const mapping = { ...guessColumnMapping([]), crop: 'Crop', yield: 'Harvest' };
+    expect(applyColumnMapping([{ Crop: 'wheat', Harvest: '3200', Notes: 'north field' }], mapping)).toEqual([
+      { crop: 'wheat', yield: '3200' },
+    ]);
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads quoted cells and drops the byte order mark Excel writes', () => {
+    const sheet = parseCsv('\uFEFFCrop,Notes\r\nwheat,"north, ""upper"" field"\r\n\r\nmaize,\r\n');
+    expect(sheet.headers).toEqual(['Crop', 'Notes']);
+    expect(sheet.rows).toEqual([
+      { Crop: 'wheat', Notes: 'north, "upper" field' },
+      { Crop: 'maize', Notes: '' },
+    ]);
+  });
+});
+
+describe('parseXlsx', () => {
+  it('reads the first sheet with every cell as text', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('Yields');
+    sheet.addRow(['Crop', 'Yield', 'Notes']);
+    sheet.addRow(['wheat', 3200.5, ' north field ']);
+    sheet.addRow([]);
+    sheet.addRow(['maize', 4100]);
+    workbook.addWorksheet('Ignored').addRow(['other']);
+    const data = await workbook.xlsx.writeBuffer();
+
+    const parsed = await parseXlsx(data as ArrayBuffer);
+    expect(parsed.headers).toEqual(['Crop', 'Yield', 'Notes']);
+    expect(parsed.rows).toEqual([
+      { Crop: 'wheat', Yield: '3200.5', Notes: 'north field' },
+      { Crop: 'maize', Yield: '4100', Notes: '' },
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { parseCsvRows } from "../../supabase/functions/_shared/csv.ts";
+
+// crops_dataset columns an uploaded file can be mapped onto, with the header
+// spellings recognised automatically (compared lowercase, ignoring non-alphanumerics)
+export const DATASET_COLUMNS = [
+  { key: "crop", label: "Crop", required: true, aliases: ["crop", "cropname", "croptype"] },
+  { key: "temperature", label: "Temperature (°C)", required: true, aliases: ["temperature", "temp", "tempc", "avgtemp"] },
+  { key: "rainfall", label: "Rainfall (mm)", required: true, aliases: ["rainfall", "rain", "rainfallmm", "precipitation"] },
+  { key: "fertilizer", label: "Fertilizer (kg/ha)", required: true, aliases: ["fertilizer", "fertiliser", "fertilizerkgha"] },
+  { key: "soil_ph", label: "Soil pH", required: true, aliases: ["soilph", "ph"] },
+  { key: "humidity", label: "Humidity (%)", required: true, aliases: ["humidity", "relativehumidity", "rh"] },
+  { key: "nitrogen", label: "Nitrogen (kg/ha)", required: false, aliases: ["nitrogen", "n"] },
+  { key: "phosphorus", label: "Phosphorus (kg/ha)", required: false, aliases: ["phosphorus", "p"] },
+  { key: "potassium", label: "Potassium (kg/ha)", required: false, aliases: ["potassium", "k"] },
+  { key: "yield", label: "Yield (kg/ha)", required: true, aliases: ["yield", "yieldkgha", "harvest", "production"] },
+] as const;
+
+export type DatasetColumn = (typeof DATASET_COLUMNS)[number]["key"];
+
+// Dataset column -> source header (null when not mapped)
+export type ColumnMapping = Record<DatasetColumn, string | null>;
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping = {} as ColumnMapping;
+  for (const column of DATASET_COLUMNS) {
+    const aliases: readonly string[] = column.aliases;
+    mapping[column.key] = headers.find((h) => aliases.includes(normalizeHeader(h))) ?? null;
+  }
+  return mapping;
+}
+
+export function missingRequiredColumns(mapping: ColumnMapping): DatasetColumn[] {
+  return DATASET_COLUMNS.filter((c) => c.required && !mapping[c.key]).map((c) => c.key);
+}
+
+// Rows keyed by dataset column, ready for the ingest-dataset function
+export function applyColumnMapping(rows: Record<string, string>[], mapping: ColumnMapping): Record<string, string>[] {
+  const mapped = Object.entries(mapping).filter(([, source]) => source) as [DatasetColumn, string][];
+  return rows.map((row) => Object.fromEntries(mapped.map(([column, source]) => [column, row[source] ?? ""])));
+}
+
+// First sheet of a CSV or Excel (.xlsx) file, every cell as text
+export async function readSpreadsheet(file: File): Promise<Spreadsheet> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".csv")) return parseCsv(await file.text());
+  if (name.endsWith(".xlsx")) return parseXlsx(await file.arrayBuffer());
+  throw new Error("Upload a CSV or Excel (.xlsx) file. Save older .xls workbooks as .xlsx first.");
+}
+
+// The first row is the header; a byte order mark (as Excel writes) is dropped
+export function parseCsv(text: string): Spreadsheet {
+  return toSpreadsheet(parseCsvRows(text.replace(/^\uFEFF/, "")));
+}
+
+// First worksheet of an .xlsx workbook, cells as Excel displays them. The parser is loaded
+// on demand, since most uploads are CSV.
+export async function parseXlsx(data: ArrayBuffer): Promise<Spreadsheet> {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const cells: string[][] = [];
+  sheet.eachRow((row) => {
+    cells.push(Array.from({ length: sheet.columnCount }, (_, i) => row.getCell(i + 1).text));
+  });
+  return toSpreadsheet(cells.filter((row) => row.some((cell) => cell.trim() !== "")));
+}
+
+function toSpreadsheet([header = [], ...body]: string[][]): Spreadsheet {
+  const headers = header.map((h) => h.trim());
+  const rows = body.map((cells) => Object.fromEntries(headers.map((h, i) => [h, (cells[i] ?? "").trim()])));
+  return { headers: headers.filter(Boolean), rows };
+}
@@ -0,0 +1,623 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { type ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import DataQualityReport from "@/components/DataQualityReport";
+import QualitySettings from "@/components/QualitySettings";
+import { ArrowDown, ArrowLeft, ArrowUp, ChevronLeft, ChevronRight, ShieldCheck, Table2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { functionErrorMessage } from "@/lib/functions";
+import { DEFAULT_QUALITY_CONFIG, type QualityReport } from "@/lib/quality";
+import {
+  type BoxStats,
+  boxStats,
+  correlationMatrix,
+  histogram,
+  summarizeColumn,
+} from "@/lib/dataset-stats";
+
+type Dataset = Database["public"]["Tables"]["datasets"]["Row"];
+type StoredQualityReport = Database["public"]["Tables"]["data_quality_reports"]["Row"];
+
+// Numeric crops_dataset columns: base conditions, engineered features and the target
+const NUMERIC_COLUMNS = [
+  { key: "temperature", label: "Temperature" },
+  { key: "rainfall", label: "Rainfall" },
+  { key: "fertilizer", label: "Fertilizer" },
+  { key: "soil_ph", label: "Soil pH" },
+  { key: "humidity", label: "Humidity" },
+  { key: "nitrogen", label: "Nitrogen" },
+  { key: "phosphorus", label: "Phosphorus" },
+  { key: "potassium", label: "Potassium" },
+  { key: "temp_rainfall_interaction", label: "Temp × Rain" },
+  { key: "ph_fertilizer_interaction", label: "pH × Fert" },
+  { key: "temp_squared", label: "Temp²" },
+  { key: "npk_ratio", label: "NPK ratio" },
+  { key: "yield", label: "Yield" },
+] as const;
+
+type NumericColumn = (typeof NUMERIC_COLUMNS)[number]["key"];
+type DatasetRow = { id: string; crop: string; source: string } & Record<NumericColumn, number | null>;
+type SortKey = NumericColumn | "crop";
+
+const PAGE_SIZE = 25; // Table rows per page
+const FETCH_SIZE = 1000; // PostgREST caps responses at 1000 rows by default
+
+const histogramConfig = { count: { label: "Rows", color: "hsl(var(--chart-1))" } } satisfies ChartConfig;
+const boxConfig = { range: { label: "Yield (kg/ha)", color: "hsl(var(--chart-2))" } } satisfies ChartConfig;
+
+const formatNumber = (value: number | null | undefined, digits = 2) =>
+  value === null || value === undefined ? "—" : value.toLocaleString(undefined, { maximumFractionDigits: digits });
+
+// Draws a Tukey box inside the floating bar Recharts lays out for [lowerWhisker, upperWhisker]
+const BoxShape = (props: {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: BoxStats;
+  logScale: boolean;
+}) => {
+  const { x = 0, y = 0, width = 0, height = 0, payload, logScale } = props;
+  if (!payload) return null;
+  const t = (v: number) => (logScale ? Math.log10(Math.max(1, v)) : v);
+  const top = t(payload.upperWhisker);
+  const span = top - t(payload.lowerWhisker);
+  const pixel = (v: number) => (span === 0 ? y : y + (height * (top - t(v))) / span);
+  const centre = x + width / 2;
+  const boxWidth = width * 0.6;
+  const stroke = "hsl(var(--foreground))";
+
+  return (
+    <g>
+      <line x1={centre} x2={centre} y1={y} y2={y + height} stroke={stroke} />
+      <line x1={centre - boxWidth / 4} x2={centre + boxWidth / 4} y1={y} y2={y} stroke={stroke} />
+      <line x1={centre - boxWidth / 4} x2={centre + boxWidth / 4} y1={y + height} y2={y + height} stroke={stroke} />
+      <rect
+        x={centre - boxWidth / 2}
+        y={pixel(payload.q3)}
+        width={boxWidth}
+        height={Math.max(1, pixel(payload.q1) - pixel(payload.q3))}
+        fill="var(--color-range)"
+        stroke={stroke}
+      />
+      <line
+        x1={centre - boxWidth / 2}
+        x2={centre + boxWidth / 2}
+        y1={pixel(payload.median)}
+        y2={pixel(payload.median)}
+        stroke={stroke}
+        strokeWidth={2}
+      />
+    </g>
+  );
+};
+
+// Green for positive, red for negative correlations, stronger colour for larger |r|
+const correlationColor = (r: number | null) =>
+  r === null
+    ? "hsl(var(--muted))"
+    : `hsl(var(${r >= 0 ? "--primary" : "--destructive"}) / ${Math.abs(r).toFixed(2)})`;
+
+const DatasetExplorer = () => {
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [datasets, setDatasets] = useState<Dataset[]>([]);
+  const [rows, setRows] = useState<DatasetRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [histogramColumn, setHistogramColumn] = useState<NumericColumn>("yield");
+  const [logScale, setLogScale] = useState(true);
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: "crop", ascending: true });
+  const [page, setPage] = useState(0);
+  const [qualityConfig, setQualityConfig] = useState(DEFAULT_QUALITY_CONFIG);
+  const [qualityReport, setQualityReport] = useState<StoredQualityReport | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  const datasetId = searchParams.get("id") ?? datasets.find((d) => d.is_active)?.id ?? null;
+  const dataset = datasets.find((d) => d.id === datasetId);
+
+  useEffect(() => {
+    supabase
+      .from("datasets")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .then(({ data, error: dbError }) => {
+        if (dbError) setError(dbError.message);
+        setDatasets(data ?? []);
+        if (data?.length === 0) setLoading(false);
+      });
+  }, []);
+
+  // Every row of the version: statistics and charts need the whole column, not one page
+  const loadRows = useCallback(async (id: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded: DatasetRow[] = [];
+      const columns = ["id", "crop", "source", ...NUMERIC_COLUMNS.map((c) => c.key)].join(",");
+      for (let from = 0; ; from += FETCH_SIZE) {
+        const { data, error: dbError } = await supabase
+          .from("crops_dataset")
+          .select(columns)
+          .eq("dataset_id", id)
+          .order("id")
+          .range(from, from + FETCH_SIZE - 1);
+        if (dbError) throw dbError;
+        const batch = (data ?? []) as unknown as DatasetRow[];
+        // DECIMAL columns may arrive as strings
+        for (const row of batch) {
+          for (const { key } of NUMERIC_COLUMNS) row[key] = row[key] === null ? null : Number(row[key]);
+        }
+        loaded.push(...batch);
+        if (batch.length < FETCH_SIZE) break;
+      }
+      setRows(loaded);
+      setPage(0);
+    } catch (err) {
+      console.error("Error loading dataset rows:", err);
+      setError(err instanceof Error ? err.message : "Failed to load dataset rows.");
+      setRows([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (datasetId) loadRows(datasetId);
+  }, [datasetId, loadRows]);
+
+  // The latest stored quality report of the version (previews included)
+  useEffect(() => {
+    setQualityReport(null);
+    if (!datasetId) return;
+    supabase
+      .from("data_quality_reports")
+      .select("*")
+      .eq("dataset_id", datasetId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+      .then(({ data, error: dbError }) => {
+        if (dbError) console.error("Error loading quality report:", dbError);
+        setQualityReport(data);
+      });
+  }, [datasetId]);
+
+  // Preview the handling, or apply it (after confirmation): the cleaned rows are saved as a
+  // new version, the checked one is left as it is
+  const runQualityCheck = async (apply: boolean) => {
+    if (!dataset) return;
+    if (apply && !window.confirm(`Apply the handling to ${dataset.name} v${dataset.version}? The cleaned rows are saved as a new version.`)) {
+      return;
+    }
+    setChecking(true);
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke("check-dataset-quality", {
+        body: { dataset_id: dataset.id, config: qualityConfig, apply },
+      });
+      if (invokeError) throw new Error(await functionErrorMessage(invokeError, "Unable to check data quality."));
+
+      const { data: stored } = await supabase.from("data_quality_reports").select("*").eq("id", data.report_id).single();
+      setQualityReport(stored);
+      if (apply) {
+        const report = data.report as QualityReport;
+        const { data: cleaned } = await supabase.from("datasets").select("*").eq("id", data.cleaned_dataset.id).single();
+        if (cleaned) setDatasets((current) => [cleaned, ...current]);
+        toast({
+          title: "Handling Applied",
+          description: `${report.dropped_rows} rows dropped and ${report.changed_rows} corrected in ${dataset.name} v${data.cleaned_dataset.version}. Activate it and retrain the models to use the cleaned data.`,
+        });
+      }
+    } catch (err) {
+      console.error("Quality check error:", err);
+      toast({
+        title: "Quality Check Failed",
+        description: err instanceof Error ? err.message : "Unable to check data quality.",
+        variant: "destructive",
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const columnValues = useMemo(
+    () => Object.fromEntries(NUMERIC_COLUMNS.map(({ key }) => [key, rows.map((r) => r[key])])) as Record<NumericColumn, (number | null)[]>,
+    [rows]
+  );
+
+  const summaries = useMemo(
+    () => NUMERIC_COLUMNS.map((c) => ({ ...c, ...summarizeColumn(columnValues[c.key]) })),
+    [columnValues]
+  );
+
+  const histogramData = useMemo(
+    () => histogram(columnValues[histogramColumn], 20).map((bin) => ({
+      ...bin,
+      label: formatNumber((bin.start + bin.end) / 2, 1),
+    })),
+    [columnValues, histogramColumn]
+  );
+
+  const boxData = useMemo(() => {
+    const byCrop = new Map<string, (number | null)[]>();
+    for (const r of rows) byCrop.set(r.crop, [...(byCrop.get(r.crop) ?? []), r.yield]);
+    return [...byCrop]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([crop, yields]) => ({ crop, stats: boxStats(yields) }))
+      .filter((d): d is { crop: string; stats: BoxStats } => d.stats !== null)
+      .map(({ crop, stats }) => ({
+        crop,
+        ...stats,
+        range: (logScale
+          ? [Math.max(1, stats.lowerWhisker), Math.max(1, stats.upperWhisker)]
+          : [stats.lowerWhisker, stats.upperWhisker]),
+      }));
+  }, [rows, logScale]);
+
+  const correlations = useMemo(
+    () => correlationMatrix(NUMERIC_COLUMNS.map((c) => columnValues[c.key])),
+    [columnValues]
+  );
+
+  const sortedRows = useMemo(() => {
+    const direction = sort.ascending ? 1 : -1;
+    return [...rows].sort((a, b) => {
+      const x = a[sort.key];
+      const y = b[sort.key];
+      if (x === y) return 0;
+      if (x === null) return 1; // Missing values last either way
+      if (y === null) return -1;
+      return (x < y ? -1 : 1) * direction;
+    });
+  }, [rows, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(sortedRows.length / PAGE_SIZE));
+  const pageRows = sortedRows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  const toggleSort = (key: SortKey) => {
+    setSort((prev) => ({ key, ascending: prev.key === key ? !prev.ascending : true }));
+    setPage(0);
+  };
+
+  const sortIcon = (key: SortKey) =>
+    sort.key !== key ? null : sort.ascending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
+      <header className="border-b border-border/50 backdrop-blur-sm bg-background/80">
+        <div className="container mx-auto px-4 py-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+              <Table2 className="h-8 w-8" />
+              Dataset Explorer
+            </h1>
+            <p className="text-muted-foreground mt-1">What the models are trained on</p>
+          </div>
+          <div className="flex gap-2">
+            <Select
+              value={datasetId ?? undefined}
+              onValueChange={(id) => setSearchParams({ id })}
+              disabled={datasets.length === 0}
+            >
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Choose a dataset" />
+              </SelectTrigger>
+              <SelectContent>
+                {datasets.map((d) => (
+                  <SelectItem key={d.id} value={d.id}>
+                    {d.name} v{d.version}{d.is_active ? " (active)" : d.status === "archived" ? " (archived)" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button asChild variant="outline" className="gap-2">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4" />
+                Back
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {error ? (
+          <Card>
+            <CardContent className="pt-6 text-center text-destructive">{error}</CardContent>
+          </Card>
+        ) : loading ? (
+          <div className="space-y-4">
+            {[...Array(3)].map((_, i) => <Skeleton key={i} className="h-64 w-full" />)}
+          </div>
+        ) : !dataset ? (
+          <Card>
+            <CardContent className="pt-6 text-center text-muted-foreground">
+              No datasets yet. Generate or upload a dataset first.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <span className="font-semibold text-foreground">{dataset.name} v{dataset.version}</span>
+              {dataset.is_active && <Badge>Active</Badge>}
+              {dataset.status === "archived" && <Badge variant="outline">Archived</Badge>}
+              <span>{rows.length.toLocaleString()} rows</span>
+              {dataset.description && <span>· {dataset.description}</span>}
+            </div>
+
+            {/* Summary statistics */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Column Statistics</CardTitle>
+                <CardDescription>Missing values are excluded from the other statistics (std is the sample standard deviation).</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Column</TableHead>
+                      <TableHead className="text-right">Count</TableHead>
+                      <TableHead className="text-right">Missing</TableHead>
+                      <TableHead className="text-right">Min</TableHead>
+                      <TableHead className="text-right">Max</TableHead>
+                      <TableHead className="text-right">Mean</TableHead>
+                      <TableHead className="text-right">Std</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summaries.map((s) => (
+                      <TableRow key={s.key}>
+                        <TableCell className="font-medium">{s.label}</TableCell>
+                        <TableCell className="text-right">{s.count.toLocaleString()}</TableCell>
+                        <TableCell className={`text-right ${s.missing > 0 ? "text-orange-600 font-semibold" : ""}`}>
+                          {s.missing.toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right">{formatNumber(s.min)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(s.max)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(s.mean)}</TableCell>
+                        <TableCell className="text-right">{formatNumber(s.std)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Histogram */}
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+                  <div>
+                    <CardTitle>Distribution</CardTitle>
+                    <CardDescription>20 equal-width bins</CardDescription>
+                  </div>
+                  <Select value={histogramColumn} onValueChange={(v) => setHistogramColumn(v as NumericColumn)}>
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {NUMERIC_COLUMNS.map((c) => <SelectItem key={c.key} value={c.key}>{c.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={histogramConfig} className="h-72 w-full aspect-auto">
+                    <BarChart data={histogramData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} interval="preserveStartEnd" />
+                      <YAxis allowDecimals={false} width={48} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="count" fill="var(--color-count)" radius={[2, 2, 0, 0]} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+
+              {/* Per-crop yield box plots */}
+              <Card>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+                  <div>
+                    <CardTitle>Yield by Crop</CardTitle>
+                    <CardDescription>Box: quartiles and median. Whiskers: 1.5 × IQR.</CardDescription>
+                  </div>
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    value={logScale ? "log" : "linear"}
+                    onValueChange={(v) => v && setLogScale(v === "log")}
+                  >
+                    <ToggleGroupItem value="linear">Linear</ToggleGroupItem>
+                    <ToggleGroupItem value="log">Log</ToggleGroupItem>
+                  </ToggleGroup>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={boxConfig} className="h-72 w-full aspect-auto">
+                    <BarChart data={boxData}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="crop" tickLine={false} />
+                      <YAxis
+                        scale={logScale ? "log" : "auto"}
+                        domain={logScale ? ["auto", "auto"] : [0, "auto"]}
+                        allowDataOverflow
+                        width={64}
+                        tickFormatter={(v: number) => formatNumber(v, 0)}
+                      />
+                      <ChartTooltip
+                        content={({ active, payload }) => {
+                          const d = active ? payload?.[0]?.payload : null;
+                          if (!d) return null;
+                          return (
+                            <div className="rounded-lg border bg-background px-3 py-2 text-xs shadow-xl space-y-0.5">
+                              <p className="font-semibold">{d.crop} ({d.count} rows)</p>
+                              <p>Median: {formatNumber(d.median, 0)} kg/ha</p>
+                              <p>Q1–Q3: {formatNumber(d.q1, 0)} – {formatNumber(d.q3, 0)}</p>
+                              <p>Whiskers: {formatNumber(d.lowerWhisker, 0)} – {formatNumber(d.upperWhisker, 0)}</p>
+                              {d.outliers > 0 && <p className="text-orange-600">{d.outliers} outliers</p>}
+                            </div>
+                          );
+                        }}
+                      />
+                      <Bar dataKey="range" shape={<BoxShape logScale={logScale} />} isAnimationActive={false} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Correlation heatmap */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Correlations</CardTitle>
+                <CardDescription>Pearson correlation between columns, over rows where both are present.</CardDescription>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <div
+                  className="grid gap-px text-[10px] min-w-[720px]"
+                  style={{ gridTemplateColumns: `7rem repeat(${NUMERIC_COLUMNS.length}, minmax(0, 1fr))` }}
+                >
+                  <div />
+                  {NUMERIC_COLUMNS.map((c) => (
+                    <div key={c.key} className="text-center font-medium truncate px-0.5" title={c.label}>{c.label}</div>
+                  ))}
+                  {NUMERIC_COLUMNS.map((row, i) => (
+                    <div key={row.key} className="contents">
+                      <div className="font-medium truncate pr-1 flex items-center">{row.label}</div>
+                      {NUMERIC_COLUMNS.map((col, j) => {
+                        const r = correlations[i][j];
+                        return (
+                          <div
+                            key={col.key}
+                            className="aspect-square flex items-center justify-center rounded-sm"
+                            style={{ backgroundColor: correlationColor(r) }}
+                            title={`${row.label} × ${col.label}: ${r === null ? "undefined" : r.toFixed(3)}`}
+                          >
+                            {r === null ? "—" : r.toFixed(2)}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Data quality */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5" />
+                  Data Quality
+                </CardTitle>
+                <CardDescription>
+                  {dataset.status === "archived"
+                    ? "Archived versions are read-only. Restore this version to check it again."
+                    : "Check every row for duplicates, implausible values, outliers and missing values. Preview first; applying deletes dropped rows and rewrites corrected values."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <QualitySettings
+                  config={qualityConfig}
+                  onChange={setQualityConfig}
+                  disabled={checking || dataset.status === "archived"}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => runQualityCheck(false)}
+                    disabled={checking || dataset.status === "archived"}
+                  >
+                    {checking ? "Checking..." : "Preview"}
+                  </Button>
+                  <Button onClick={() => runQualityCheck(true)} disabled={checking || dataset.status === "archived"}>
+                    Apply
+                  </Button>
+                </div>
+                {qualityReport && (
+                  <div className="space-y-2 border-t pt-4">
+                    <p className="text-sm text-muted-foreground">
+                      {qualityReport.applied ? "Applied" : "Previewed"} {new Date(qualityReport.created_at).toLocaleString()}
+                      {qualityReport.import_id && " (upload)"}
+                    </p>
+                    <DataQualityReport
+                      report={qualityReport as unknown as QualityReport}
+                      applied={qualityReport.applied}
+                    />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Rows */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Rows</CardTitle>
+                <CardDescription>Click a column header to sort.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {[{ key: "crop" as SortKey, label: "Crop" }, ...NUMERIC_COLUMNS].map((c) => (
+                          <TableHead key={c.key}>
+                            <button className="flex items-center gap-1 whitespace-nowrap" onClick={() => toggleSort(c.key)}>
+                              {c.label}
+                              {sortIcon(c.key)}
+                            </button>
+                          </TableHead>
+                        ))}
+                        <TableHead>Source</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {pageRows.map((row) => (
+                        <TableRow key={row.id}>
+                          <TableCell className="font-medium">{row.crop}</TableCell>
+                          {NUMERIC_COLUMNS.map((c) => (
+                            <TableCell key={c.key} className={row[c.key] === null ? "text-orange-600" : undefined}>
+                              {formatNumber(row[c.key])}
+                            </TableCell>
+                          ))}
+                          <TableCell>
+                            <Badge variant={row.source === "upload" ? "default" : "secondary"}>{row.source}</Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <div className="flex items-center justify-end gap-2 text-sm">
+                  <span className="text-muted-foreground">Page {page + 1} of {pageCount}</span>
+                  <Button size="icon" variant="outline" aria-label="Previous page" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="outline"
+                    aria-label="Next page"
+                    disabled={page >= pageCount - 1}
+                    onClick={() => setPage(page + 1)}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default DatasetExplorer;
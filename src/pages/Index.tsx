@@ -1,18 +1,24 @@
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { PredictionForm } from "@/components/PredictionForm";
 import { PredictionResults } from "@/components/PredictionResults";
 import EnhancedVisualization from "@/components/EnhancedVisualization";
 import PredictionHistory from "@/components/PredictionHistory";
+import GenerateDatasetDialog, { type GenerationConfig } from "@/components/GenerateDatasetDialog";
+import DatasetVersions from "@/components/DatasetVersions";
+import TrainingJobs from "@/components/TrainingJobs";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Database, Sparkles, BarChart3, History } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Database, Sparkles, BarChart3, History, Upload, Layers, Table2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { functionErrorMessage } from "@/lib/functions";
 
 const Index = () => {
   const { toast } = useToast();
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [generatingDataset, setGeneratingDataset] = useState(false);
+  const [generateDialogOpen, setGenerateDialogOpen] = useState(false);
   const [activeTab, setActiveTab] = useState('predict');
   const [latestPrediction, setLatestPrediction] = useState(null);
   const [modelMetrics, setModelMetrics] = useState([]);
@@ -23,27 +29,32 @@ const Index = () => {
     setActiveTab('results');
   };
 
-  const handleGenerateDataset = async () => {
+  // New models serve from the moment a training job finishes
+  const handleTrainingFinished = useCallback(() => setRefreshTrigger((prev) => prev + 1), []);
+
+  const handleGenerateDataset = async (config: GenerationConfig) => {
     setGeneratingDataset(true);
     toast({
       title: "Generating Dataset",
-      description: "Creating 5000+ crop records...",
+      description: `Creating ${config.record_count} crop records...`,
     });
 
     try {
-      const { data, error } = await supabase.functions.invoke("generate-dataset");
+      const { data, error } = await supabase.functions.invoke("generate-dataset", { body: config });
 
-      if (error) throw error;
+      if (error) throw new Error(await functionErrorMessage(error, "Unable to generate dataset."));
 
+      setGenerateDialogOpen(false);
+      setRefreshTrigger((prev) => prev + 1);
       toast({
         title: "Dataset Generated!",
-        description: `Successfully created ${data.records_created} records and trained models.`,
+        description: `Successfully created ${data.records_created} records in ${data.dataset.name} v${data.dataset.version} (seed ${data.generation_config.seed}). Models are training in the background.`,
       });
     } catch (error) {
       console.error("Dataset generation error:", error);
       toast({
         title: "Generation Failed",
-        description: "Unable to generate dataset. Please try again.",
+        description: error instanceof Error ? error.message : "Unable to generate dataset. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -66,23 +77,48 @@ const Index = () => {
                 Machine Learning Crop Yield Prediction System
               </p>
             </div>
-            <Button
-              onClick={handleGenerateDataset}
-              disabled={generatingDataset}
-              variant="outline"
-              className="gap-2"
-            >
-              <Database className="h-4 w-4" />
-              {generatingDataset ? "Generating..." : "Generate Dataset"}
-            </Button>
+            <div className="flex gap-2">
+              <Button asChild variant="outline" className="gap-2">
+                <Link to="/dataset">
+                  <Table2 className="h-4 w-4" />
+                  Explore Data
+                </Link>
+              </Button>
+              <Button asChild variant="outline" className="gap-2">
+                <Link to="/upload">
+                  <Upload className="h-4 w-4" />
+                  Upload Data
+                </Link>
+              </Button>
+              <Button
+                onClick={() => setGenerateDialogOpen(true)}
+                disabled={generatingDataset}
+                variant="outline"
+                className="gap-2"
+              >
+                <Database className="h-4 w-4" />
+                {generatingDataset ? "Generating..." : "Generate Dataset"}
+              </Button>
+            </div>
           </div>
         </div>
       </header>
 
+      <GenerateDatasetDialog
+        open={generateDialogOpen}
+        onOpenChange={setGenerateDialogOpen}
+        onGenerate={handleGenerateDataset}
+        generating={generatingDataset}
+      />
+
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <TrainingJobs refreshTrigger={refreshTrigger} onJobFinished={handleTrainingFinished} />
+        </div>
+
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full max-w-md mx-auto grid-cols-3 mb-8">
+          <TabsList className="grid w-full max-w-lg mx-auto grid-cols-4 mb-8">
             <TabsTrigger value="predict" className="gap-2">
               <Sparkles className="h-4 w-4" />
               Predict
@@ -95,11 +131,15 @@ const Index = () => {
               <History className="h-4 w-4" />
               History
             </TabsTrigger>
+            <TabsTrigger value="datasets" className="gap-2">
+              <Layers className="h-4 w-4" />
+              Datasets
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="predict">
             <div className="max-w-2xl mx-auto">
-              <PredictionForm onPredictionComplete={handlePredictionComplete} />
+              <PredictionForm refreshTrigger={refreshTrigger} onPredictionComplete={handlePredictionComplete} />
             </div>
           </TabsContent>
 
@@ -110,10 +150,14 @@ const Index = () => {
           <TabsContent value="history">
             <PredictionHistory />
           </TabsContent>
+
+          <TabsContent value="datasets">
+            <DatasetVersions refreshTrigger={refreshTrigger} />
+          </TabsContent>
         </Tabs>
 
         {/* Info Section */}
-        <div className="mt-12 grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="mt-12 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <div className="bg-card p-6 rounded-lg border border-border">
             <h3 className="font-semibold text-lg mb-2 text-primary">Linear Regression</h3>
             <p className="text-sm text-muted-foreground">
@@ -126,6 +170,12 @@ const Index = () => {
               Ensemble learning method that captures complex non-linear relationships.
             </p>
           </div>
+          <div className="bg-card p-6 rounded-lg border border-border">
+            <h3 className="font-semibold text-lg mb-2 text-primary">Gradient Boosting</h3>
+            <p className="text-sm text-muted-foreground">
+              Shallow trees added one at a time, each correcting the errors of the ones before it.
+            </p>
+          </div>
           <div className="bg-card p-6 rounded-lg border border-border">
             <h3 className="font-semibold text-lg mb-2 text-primary">Real-time Analysis</h3>
             <p className="text-sm text-muted-foreground">
@@ -0,0 +1,436 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import DataQualityReport from "@/components/DataQualityReport";
+import QualitySettings from "@/components/QualitySettings";
+import { AlertCircle, ArrowLeft, CheckCircle2, FileSpreadsheet, Upload as UploadIcon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { functionErrorMessage } from "@/lib/functions";
+import { DEFAULT_QUALITY_CONFIG, type QualityConfig, type QualityReport } from "@/lib/quality";
+import {
+  applyColumnMapping,
+  type ColumnMapping,
+  DATASET_COLUMNS,
+  guessColumnMapping,
+  missingRequiredColumns,
+  readSpreadsheet,
+  type Spreadsheet,
+} from "@/lib/upload";
+
+// Response of the ingest-dataset function (dry runs have no import_id, and no
+// dataset when the rows would go into a version that does not exist yet)
+interface ImportReport {
+  import_id: string | null;
+  dry_run: boolean;
+  dataset: { id: string; name: string; version: number } | null;
+  total: number;
+  valid: number;
+  rejected: number;
+  duplicates: number;
+  errors: { row: number; errors: string[] }[];
+  crops: { crop: string; existing: number; incoming: number }[];
+  quality: QualityReport; // Checked on the valid rows, before storage
+  preview: Record<string, number | string>[];
+}
+
+const UNMAPPED = "__none__";
+const NEW_VERSION = "__new__";
+
+interface DatasetOption {
+  id: string;
+  name: string;
+  version: number;
+  is_active: boolean;
+}
+const PREVIEW_COLUMNS = DATASET_COLUMNS.map((c) => c.key);
+
+// ingest-dataset drops repeated rows unless told otherwise
+const UPLOAD_QUALITY_CONFIG: QualityConfig = {
+  ...DEFAULT_QUALITY_CONFIG,
+  handling: { ...DEFAULT_QUALITY_CONFIG.handling, duplicate: "drop" },
+};
+
+const Upload = () => {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [sheet, setSheet] = useState<Spreadsheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [datasets, setDatasets] = useState<DatasetOption[]>([]);
+  const [target, setTarget] = useState(NEW_VERSION);
+  const [datasetName, setDatasetName] = useState("Field observations");
+  const [qualityConfig, setQualityConfig] = useState(UPLOAD_QUALITY_CONFIG);
+
+  // Rows are appended to a version (the active one by default) or start a new one
+  useEffect(() => {
+    supabase
+      .from("datasets")
+      .select("id, name, version, is_active")
+      .eq("status", "ready")
+      .order("created_at", { ascending: false })
+      .then(({ data, error }) => {
+        if (error) console.error("Error loading datasets:", error);
+        setDatasets(data ?? []);
+        const active = data?.find((d) => d.is_active);
+        if (active) setTarget(active.id);
+      });
+  }, []);
+
+  const missing = mapping ? missingRequiredColumns(mapping) : [];
+
+  const handleFile = async (file: File | undefined) => {
+    setReport(null);
+    if (!file) return;
+    try {
+      const parsed = await readSpreadsheet(file);
+      if (parsed.rows.length === 0) throw new Error("The file has no data rows.");
+      setFileName(file.name);
+      setSheet(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+    } catch (error) {
+      console.error("File read error:", error);
+      setSheet(null);
+      setMapping(null);
+      toast({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : "Upload a CSV or Excel (.xlsx) file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Validate first (dry run), then import the same rows once the preview looks right
+  const submit = async (dryRun: boolean) => {
+    if (!sheet || !mapping) return;
+    setBusy(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("ingest-dataset", {
+        body: {
+          rows: applyColumnMapping(sheet.rows, mapping),
+          file_name: fileName,
+          column_mapping: mapping,
+          dry_run: dryRun,
+          quality: qualityConfig,
+          ...(target === NEW_VERSION ? { dataset_name: datasetName.trim() } : { dataset_id: target }),
+        },
+      });
+      if (error) throw new Error(await functionErrorMessage(error, "Unable to process the upload."));
+
+      setReport(data as ImportReport);
+      if (!dryRun) {
+        toast({
+          title: "Import Complete",
+          description: `Added ${data.valid} rows to the dataset. Retrain the models to learn from them.`,
+        });
+      }
+    } catch (error) {
+      console.error("Upload error:", error);
+      toast({
+        title: dryRun ? "Validation Failed" : "Import Failed",
+        description: error instanceof Error ? error.message : "Unable to process the upload. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const imported = report !== null && !report.dry_run;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
+      <header className="border-b border-border/50 backdrop-blur-sm bg-background/80">
+        <div className="container mx-auto px-4 py-6 flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+              <UploadIcon className="h-8 w-8" />
+              Upload Field Observations
+            </h1>
+            <p className="text-muted-foreground mt-1">
+              Add real harvest records to the training dataset
+            </p>
+          </div>
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6 max-w-5xl">
+        {/* 1. File */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="h-5 w-5" />
+              1. Choose a file
+            </CardTitle>
+            <CardDescription>
+              CSV or Excel (.xlsx) with one observation per row and a header row. The first sheet is used.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Input
+              type="file"
+              accept=".csv,.xlsx"
+              disabled={busy}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {sheet && (
+              <p className="text-sm text-muted-foreground mt-2">
+                {fileName}: {sheet.rows.length} rows, {sheet.headers.length} columns
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* 2. Column mapping */}
+        {sheet && mapping && (
+          <Card>
+            <CardHeader>
+              <CardTitle>2. Map columns</CardTitle>
+              <CardDescription>
+                Pick the file column holding each value. Nitrogen, phosphorus and potassium are optional (missing values are stored empty).
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {DATASET_COLUMNS.map((column) => (
+                  <div key={column.key} className="space-y-1">
+                    <Label>
+                      {column.label}
+                      {column.required && <span className="text-destructive"> *</span>}
+                    </Label>
+                    <Select
+                      value={mapping[column.key] ?? UNMAPPED}
+                      onValueChange={(value) => {
+                        setReport(null);
+                        setMapping({ ...mapping, [column.key]: value === UNMAPPED ? null : value });
+                      }}
+                      disabled={busy || imported}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>— Not mapped —</SelectItem>
+                        {sheet.headers.map((header) => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {missing.length > 0 && (
+                <p className="text-sm text-destructive">Map the required columns: {missing.join(", ")}</p>
+              )}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 border-t pt-4">
+                <div className="space-y-1">
+                  <Label>Add rows to</Label>
+                  <Select
+                    value={target}
+                    onValueChange={(value) => {
+                      setReport(null);
+                      setTarget(value);
+                    }}
+                    disabled={busy || imported}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NEW_VERSION}>New dataset version</SelectItem>
+                      {datasets.map((d) => (
+                        <SelectItem key={d.id} value={d.id}>
+                          {d.name} v{d.version}{d.is_active ? " (active)" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {target === NEW_VERSION && (
+                  <div className="space-y-1">
+                    <Label htmlFor="dataset-name">Dataset name</Label>
+                    <Input
+                      id="dataset-name"
+                      value={datasetName}
+                      disabled={busy || imported}
+                      onChange={(e) => {
+                        setReport(null);
+                        setDatasetName(e.target.value);
+                      }}
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="space-y-2 border-t pt-4">
+                <h3 className="font-semibold">Data quality</h3>
+                <p className="text-sm text-muted-foreground">
+                  Valid rows are also checked for duplicates, implausible values and outliers. Choose what happens to each.
+                </p>
+                <QualitySettings
+                  config={qualityConfig}
+                  disabled={busy || imported}
+                  onChange={(config) => {
+                    setReport(null);
+                    setQualityConfig(config);
+                  }}
+                />
+              </div>
+              <Button
+                onClick={() => submit(true)}
+                disabled={busy || missing.length > 0 || imported || (target === NEW_VERSION && datasetName.trim() === "")}
+                className="gap-2"
+              >
+                {busy && !report ? "Validating..." : "Validate & Preview"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* 3. Preview / import report */}
+        {report && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{imported ? "Import report" : "3. Review and import"}</CardTitle>
+              <CardDescription>
+                {imported
+                  ? `Import ${report.import_id} from ${fileName} into ${report.dataset?.name} v${report.dataset?.version}`
+                  : "Nothing has been written yet. Check the rows below, then import."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                {[
+                  { label: "Rows in file", value: report.total, color: "text-blue-600" },
+                  { label: imported ? "Imported" : "Valid", value: report.valid, color: "text-green-600" },
+                  { label: "Rejected", value: report.rejected, color: "text-red-600" },
+                  {
+                    label: report.quality.config.handling.duplicate === "drop" ? "Duplicates skipped" : "Duplicates",
+                    value: report.duplicates,
+                    color: "text-orange-600",
+                  },
+                ].map((stat) => (
+                  <div key={stat.label} className="rounded-lg border p-4">
+                    <p className={`text-3xl font-bold ${stat.color}`}>{stat.value}</p>
+                    <p className="text-sm text-muted-foreground mt-1">{stat.label}</p>
+                  </div>
+                ))}
+              </div>
+
+              {imported && (
+                <Alert>
+                  <CheckCircle2 className="h-4 w-4" />
+                  <AlertTitle>Rows added to {report.dataset?.name} v{report.dataset?.version}</AlertTitle>
+                  <AlertDescription>
+                    They are used the next time models are trained on this dataset version.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {/* Per-crop diff against the current dataset */}
+              <div>
+                <h3 className="font-semibold mb-2">Rows per crop</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Crop</TableHead>
+                      <TableHead className="text-right">{imported ? "Before" : "In dataset"}</TableHead>
+                      <TableHead className="text-right">{imported ? "Added" : "To add"}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.crops.map((c) => {
+                      // After an import the count already includes the new rows
+                      const before = imported ? c.existing - c.incoming : c.existing;
+                      return (
+                        <TableRow key={c.crop}>
+                          <TableCell className="font-medium">
+                            {c.crop}
+                            {before === 0 && <Badge variant="secondary" className="ml-2">New crop</Badge>}
+                          </TableCell>
+                          <TableCell className="text-right">{before}</TableCell>
+                          <TableCell className="text-right text-green-600">+{c.incoming}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div>
+                <h3 className="font-semibold mb-2">Data quality</h3>
+                <DataQualityReport
+                  report={report.quality}
+                  applied={imported}
+                  rowLabel={(issue) => `Row ${issue.row + 1}`} // Spreadsheet row, counting the header row
+                />
+              </div>
+
+              {!imported && report.preview.length > 0 && (
+                <div>
+                  <h3 className="font-semibold mb-2">Preview (first {report.preview.length} valid rows, as stored)</h3>
+                  <ScrollArea className="w-full">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          {PREVIEW_COLUMNS.map((key) => <TableHead key={key}>{key}</TableHead>)}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {report.preview.map((row, i) => (
+                          <TableRow key={i}>
+                            {PREVIEW_COLUMNS.map((key) => <TableCell key={key}>{row[key]}</TableCell>)}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </ScrollArea>
+                </div>
+              )}
+
+              {report.errors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>{report.errors.length} rows {imported ? "were" : "will be"} skipped</AlertTitle>
+                  <AlertDescription>
+                    <ScrollArea className="h-48 mt-2">
+                      <ul className="text-sm space-y-1">
+                        {/* Spreadsheet row numbers, counting the header row */}
+                        {report.errors.map((e) => (
+                          <li key={e.row}>Row {e.row + 1}: {e.errors.join("; ")}</li>
+                        ))}
+                      </ul>
+                    </ScrollArea>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {!imported && (
+                <Button onClick={() => submit(false)} disabled={busy || report.valid === 0} className="gap-2">
+                  <UploadIcon className="h-4 w-4" />
+                  {busy ? "Importing..." : `Import ${report.valid} rows`}
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Upload;
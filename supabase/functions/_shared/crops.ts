@@ -0,0 +1,42 @@
+// Crop identity as a categorical model feature.
+//
+// Crops are one-hot encoded with the first (alphabetical) crop as the reference
+// level, so Linear Regression keeps a well-defined intercept.
+
+import type { FeatureRow } from "./features.ts";
+
+// Form values that name a dataset crop differently
+const CROP_ALIASES: Record<string, string> = {
+  maize: "corn",
+  "maize (corn)": "corn",
+};
+
+const CROP_FEATURE_PREFIX = "crop_";
+
+export function cropFeatureName(crop: string): string {
+  return `${CROP_FEATURE_PREFIX}${crop.toLowerCase().replace(/[^a-z0-9]+/g, "_")}`;
+}
+
+export function isCropFeature(feature: string): boolean {
+  return feature.startsWith(CROP_FEATURE_PREFIX);
+}
+
+// Indicator columns for every crop except the reference level
+export function cropFeatureNames(crops: string[]): string[] {
+  return [...crops].sort().slice(1).map(cropFeatureName);
+}
+
+export function withCropIndicators<T extends FeatureRow>(row: T, crop: string, crops: string[]): T {
+  const encoded: FeatureRow = { ...row };
+  for (const name of cropFeatureNames(crops)) encoded[name] = 0;
+  const own = cropFeatureName(crop);
+  if (own in encoded) encoded[own] = 1;
+  return encoded as T;
+}
+
+// Map a requested crop (e.g. the form value "maize") onto a crop the models were trained on
+export function resolveCrop(requested: string, crops: string[]): string | null {
+  const key = requested.trim().toLowerCase();
+  const wanted = CROP_ALIASES[key] ?? key;
+  return crops.find((c) => c.toLowerCase() === wanted) ?? null;
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, parseCsvRows } from './csv';
+
+describe('parseCsvRows', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsvRows('a,b\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('handles quoted fields, escaped quotes and CRLF', () => {
+    expect(parseCsvRows('name,note\r\n"rice, paddy","say ""hi"""\r\n')).toEqual([
+      ['name', 'note'],
+      ['rice, paddy', 'say "hi"'],
+    ]);
+  });
+
+  it('keeps newlines inside quotes and skips blank lines', () => {
+    expect(parseCsvRows('a\n\n"x\ny"\n\n')).toEqual([['a'], ['x\ny']]);
+  });
+
+  it('rejects an unterminated quote', () => {
+    expect(() => parseCsvRows('a\n"oops')).toThrow(/Unterminated/);
+  });
+});
+
+describe('parseCsv', () => {
+  it('keys rows by trimmed header names and fills missing cells', () => {
+    expect(parseCsv(' crop , rainfall\nwheat, 650\nrice')).toEqual([
+      { crop: 'wheat', rainfall: '650' },
+      { crop: 'rice', rainfall: '' },
+    ]);
+  });
+
+  it('returns no rows for empty input', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { datasetSnapshotId } from './dataset';
+
+const rows = [
+  { id: 'b', crop: 'Rice', yield: 4200, temperature: 27.5 },
+  { id: 'a', crop: 'Wheat', yield: 3100, temperature: 18 },
+];
+
+describe('datasetSnapshotId', () => {
+  it('does not depend on row or key order', async () => {
+    const reordered = [{ temperature: 18, yield: 3100, crop: 'Wheat', id: 'a' }, rows[0]];
+    expect(await datasetSnapshotId(reordered)).toBe(await datasetSnapshotId(rows));
+  });
+
+  it('changes when a value changes under the same row ids', async () => {
+    const corrected = [rows[0], { ...rows[1], temperature: 19 }];
+    expect(await datasetSnapshotId(corrected)).not.toBe(await datasetSnapshotId(rows));
+  });
+
+  it('changes when a row is left out', async () => {
+    expect(await datasetSnapshotId(rows.slice(1))).not.toBe(await datasetSnapshotId(rows));
+  });
+});
@@ -0,0 +1,72 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { BASE_FEATURES, type Conditions, engineerFeatures, FEATURE_NAMES, pickConditions } from "./features.ts";
+
+// Features the yield models are trained on (base + engineered)
+export const MODEL_FEATURES = FEATURE_NAMES;
+
+// Raw growing conditions the crop recommender is trained on. Engineered features are
+// left out because naive Bayes would count the information they share twice.
+export const CLASSIFIER_FEATURES: string[] = [...BASE_FEATURES];
+
+export interface TrainingRow extends Record<string, number | string> {
+  id: string;
+  crop: string;
+  yield: number;
+}
+
+const PAGE_SIZE = 1000; // PostgREST caps responses at 1000 rows by default
+
+// Fetch every row of one dataset version that has all base features populated.
+// Rows with missing measurements (inserted before the NPK columns existed, or
+// generated with a missing-value rate) are skipped. Engineered features
+// are recomputed from the base columns rather than read back (the stored copies
+// are rounded), so training sees exactly what predict-yield computes.
+export async function fetchTrainingRows(supabase: SupabaseClient, datasetId: string): Promise<TrainingRow[]> {
+  const rows: TrainingRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("crops_dataset")
+      .select(["id", "crop", "yield", ...BASE_FEATURES].join(","))
+      .eq("dataset_id", datasetId)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    const page = (data ?? []) as unknown as Record<string, number | string | null>[];
+    for (const record of page) {
+      if (BASE_FEATURES.every((f) => record[f] !== null) && record.yield !== null) {
+        rows.push({
+          id: String(record.id),
+          crop: String(record.crop),
+          yield: Number(record.yield),
+          ...engineerFeatures(pickConditions(record)),
+        });
+      }
+    }
+    if (page.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+// Stored crops_dataset feature columns: base conditions as measured and engineered
+// features, rounded for inspection in the dataset. Base values are not capped here, so
+// implausible ones stay visible to the quality report (the feature pipeline still caps
+// them for training). Missing measurements stay null, as do the features derived from them.
+export function datasetFeatureValues(conditions: Record<keyof Conditions, number | null>): Record<string, number | null> {
+  const measured = Object.fromEntries(BASE_FEATURES.map((f) => [f, conditions[f] ?? NaN])) as unknown as Conditions;
+  const values: Record<string, number> = { ...engineerFeatures(measured), ...measured };
+  return Object.fromEntries(
+    FEATURE_NAMES.map((f) => [f, Number.isFinite(values[f]) ? parseFloat(values[f].toFixed(2)) : null])
+  );
+}
+
+// Stable fingerprint of the exact rows a model was trained on: SHA-256 of every row's id,
+// crop, yield and feature values in id order, so corrected values change it as well
+export async function datasetSnapshotId(rows: TrainingRow[]): Promise<string> {
+  const canonical = [...rows]
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+    .map((row) => JSON.stringify(Object.keys(row).sort().map((key) => [key, row[key]])))
+    .join("\n");
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
@@ -0,0 +1,64 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// A named, numbered version of crops_dataset
+export interface Dataset {
+  id: string;
+  name: string;
+  version: number; // Assigned by the database, increasing per name
+  description: string | null;
+  status: "ready" | "archived";
+  is_active: boolean; // The version training uses by default
+  row_count: number;
+  created_at: string;
+  archived_at: string | null;
+}
+
+export const DEFAULT_DATASET_NAME = "Synthetic";
+
+export async function findDataset(supabase: SupabaseClient, id: string): Promise<Dataset | null> {
+  const { data, error } = await supabase.from("datasets").select("*").eq("id", id).maybeSingle();
+  if (error) throw error;
+  return data as Dataset | null;
+}
+
+// The given version, or the active one when `id` is omitted. Throws if there is none
+// or it is archived, since archived versions are kept for reference only.
+export async function loadDataset(supabase: SupabaseClient, id?: string): Promise<Dataset> {
+  let dataset: Dataset | null;
+  if (id === undefined) {
+    const { data, error } = await supabase.from("datasets").select("*").eq("is_active", true).maybeSingle();
+    if (error) throw error;
+    dataset = data as Dataset | null;
+    if (!dataset) throw new Error("No active dataset. Generate or upload a dataset first.");
+  } else {
+    dataset = await findDataset(supabase, id);
+    if (!dataset) throw new Error(`Dataset ${id} does not exist.`);
+  }
+  if (dataset.status === "archived") {
+    throw new Error(`Dataset ${dataset.name} v${dataset.version} is archived. Restore it first.`);
+  }
+  return dataset;
+}
+
+// New empty version of `name`; activated when `activate` is set
+export async function createDataset(
+  supabase: SupabaseClient,
+  name: string,
+  description: string | null,
+  activate: boolean,
+): Promise<Dataset> {
+  const { data, error } = await supabase.from("datasets").insert({ name, description }).select("*").single();
+  if (error) throw error;
+  if (activate) await activateDataset(supabase, data.id);
+  return { ...(data as Dataset), is_active: activate };
+}
+
+export async function activateDataset(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.rpc("activate_dataset", { target: id });
+  if (error) throw error;
+}
+
+// Reference to a dataset version as returned by the functions
+export function datasetRef({ id, name, version }: Dataset) {
+  return { id, name, version };
+}
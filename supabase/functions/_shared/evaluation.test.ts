@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateModel, kFoldSplits, regressionMetrics, trainValidationTestSplit } from './evaluation';
+import { fitLinearRegression, predictLinearRegression } from './linear-regression';
+
+describe('regressionMetrics', () => {
+  it('computes R², MAE and RMSE', () => {
+    const metrics = regressionMetrics([1, 2, 3, 4], [1, 2, 3, 6]);
+    expect(metrics.mae).toBeCloseTo(0.5);
+    expect(metrics.rmse).toBeCloseTo(1);
+    expect(metrics.r2).toBeCloseTo(1 - 4 / 5);
+  });
+});
+
+describe('splits', () => {
+  it('partitions rows into disjoint train/validation/test sets', () => {
+    const split = trainValidationTestSplit(100, { validationFraction: 0.15, testFraction: 0.15, seed: 1 });
+    expect([split.train.length, split.validation.length, split.test.length]).toEqual([70, 15, 15]);
+    expect(new Set([...split.train, ...split.validation, ...split.test]).size).toBe(100);
+  });
+
+  it('holds out every row exactly once across k folds', () => {
+    const indices = Array.from({ length: 23 }, (_, i) => i * 2);
+    const folds = kFoldSplits(indices, 5, 3);
+    const heldOut = folds.flatMap((f) => f.test).sort((a, b) => a - b);
+    expect(heldOut).toEqual(indices);
+    folds.forEach((f) => expect(f.train.length + f.test.length).toBe(23));
+  });
+});
+
+describe('evaluateModel', () => {
+  it('reports near-perfect scores for a model that matches the data', () => {
+    const rows = Array.from({ length: 200 }, (_, i) => ({ x: i, y: 5 + 3 * i }));
+    const evaluation = evaluateModel(
+      rows, 'y',
+      (train) => fitLinearRegression(train, ['x'], 'y'),
+      predictLinearRegression,
+    );
+    expect(evaluation.test.r2).toBeCloseTo(1, 6);
+    expect(evaluation.crossValidation).toHaveLength(5);
+    expect(evaluation.split).toEqual({ train: 140, validation: 30, test: 30 });
+  });
+});
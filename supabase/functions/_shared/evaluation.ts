@@ -0,0 +1,162 @@
+// Held-out evaluation: train/validation/test split, k-fold cross-validation and
+// regression metrics. Everything is index based and seeded so runs are repeatable.
+
+import type { FeatureRow } from "./features.ts";
+import { createRandom, randomInt } from "./random.ts";
+
+export interface RegressionMetrics {
+  r2: number;
+  mae: number;
+  rmse: number;
+}
+
+export interface FoldScore extends RegressionMetrics {
+  fold: number;
+}
+
+export interface SplitIndices {
+  train: number[];
+  validation: number[];
+  test: number[];
+}
+
+export interface EvaluationOptions {
+  validationFraction: number;
+  testFraction: number;
+  folds: number;
+  seed: number;
+}
+
+export const DEFAULT_EVALUATION_OPTIONS: EvaluationOptions = {
+  validationFraction: 0.15,
+  testFraction: 0.15,
+  folds: 5,
+  seed: 42,
+};
+
+export interface ModelEvaluation<M> {
+  model: M; // Fitted on train + validation
+  split: { train: number; validation: number; test: number };
+  validation: RegressionMetrics; // Model fitted on train only
+  crossValidation: FoldScore[]; // k-fold over train + validation
+  test: RegressionMetrics; // Final model on the untouched test rows
+  predictions: HeldOutPredictions; // Behind the scores above, e.g. for blending models
+}
+
+// Predictions for rows the predicting model did not see, in the order of the split's indices
+export interface HeldOutPredictions {
+  validation: number[]; // split.validation, by the model fitted on train only
+  outOfFold: number[]; // train then validation, each by the fold model that held it out
+  test: number[]; // split.test, by the final model
+}
+
+export function regressionMetrics(actual: number[], predicted: number[]): RegressionMetrics {
+  const n = actual.length;
+  if (n === 0 || n !== predicted.length) throw new Error("Metrics need equally sized, non-empty inputs");
+
+  const mean = actual.reduce((sum, v) => sum + v, 0) / n;
+  let absError = 0;
+  let squaredError = 0;
+  let totalVariance = 0;
+  for (let i = 0; i < n; i++) {
+    const residual = actual[i] - predicted[i];
+    absError += Math.abs(residual);
+    squaredError += residual * residual;
+    totalVariance += Math.pow(actual[i] - mean, 2);
+  }
+
+  return {
+    r2: totalVariance === 0 ? 0 : 1 - squaredError / totalVariance,
+    mae: absError / n,
+    rmse: Math.sqrt(squaredError / n),
+  };
+}
+
+export function shuffledIndices(n: number, seed: number): number[] {
+  const random = createRandom(seed);
+  const indices = Array.from({ length: n }, (_, i) => i);
+  for (let i = n - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1);
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices;
+}
+
+export function trainValidationTestSplit(
+  n: number,
+  options: Pick<EvaluationOptions, "validationFraction" | "testFraction" | "seed">,
+): SplitIndices {
+  const indices = shuffledIndices(n, options.seed);
+  const testSize = Math.round(n * options.testFraction);
+  const validationSize = Math.round(n * options.validationFraction);
+  return {
+    test: indices.slice(0, testSize),
+    validation: indices.slice(testSize, testSize + validationSize),
+    train: indices.slice(testSize + validationSize),
+  };
+}
+
+// Partition `indices` into k folds; each entry holds the rows held out for that fold.
+export function kFoldSplits(indices: number[], k: number, seed: number): { train: number[]; test: number[] }[] {
+  if (k < 2 || k > indices.length) throw new Error(`Cannot make ${k} folds from ${indices.length} rows`);
+  const order = shuffledIndices(indices.length, seed).map((i) => indices[i]);
+  return Array.from({ length: k }, (_, fold) => ({
+    test: order.filter((_, i) => i % k === fold),
+    train: order.filter((_, i) => i % k !== fold),
+  }));
+}
+
+// Fit on k-1 folds of `rows` and score on the remaining one, for each of the k folds.
+// Each row's prediction by the model that held it out is written to `outOfFold` if provided.
+export function crossValidate<M>(
+  rows: FeatureRow[],
+  target: string,
+  fit: (trainRows: FeatureRow[]) => M,
+  predict: (model: M, row: FeatureRow) => number,
+  folds: number,
+  seed: number,
+  outOfFold?: number[],
+): FoldScore[] {
+  const indices = Array.from({ length: rows.length }, (_, i) => i);
+  return kFoldSplits(indices, folds, seed).map(({ train, test }, fold) => {
+    const model = fit(train.map((i) => rows[i]));
+    const predicted = test.map((i) => predict(model, rows[i]));
+    if (outOfFold) test.forEach((i, j) => (outOfFold[i] = predicted[j]));
+    return {
+      fold: fold + 1,
+      ...regressionMetrics(test.map((i) => Number(rows[i][target])), predicted),
+    };
+  });
+}
+
+export function evaluateModel<M>(
+  rows: FeatureRow[],
+  target: string,
+  fit: (trainRows: FeatureRow[]) => M,
+  predict: (model: M, row: FeatureRow) => number,
+  options: EvaluationOptions = DEFAULT_EVALUATION_OPTIONS,
+): ModelEvaluation<M> {
+  const split = trainValidationTestSplit(rows.length, options);
+  const pick = (indices: number[]) => indices.map((i) => rows[i]);
+  const actual = (indices: number[]) => indices.map((i) => Number(rows[i][target]));
+
+  const trainModel = fit(pick(split.train));
+  const validationPredictions = pick(split.validation).map((r) => predict(trainModel, r));
+
+  const development = [...split.train, ...split.validation];
+  const outOfFold = new Array<number>(development.length);
+  const crossValidation = crossValidate(
+    pick(development), target, fit, predict, options.folds, options.seed, outOfFold,
+  );
+
+  const model = fit(pick(development));
+  const testPredictions = pick(split.test).map((r) => predict(model, r));
+  return {
+    model,
+    split: { train: split.train.length, validation: split.validation.length, test: split.test.length },
+    validation: regressionMetrics(actual(split.validation), validationPredictions),
+    crossValidation,
+    test: regressionMetrics(actual(split.test), testPredictions),
+    predictions: { validation: validationPredictions, outOfFold, test: testPredictions },
+  };
+}
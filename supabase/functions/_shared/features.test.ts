@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyScaler,
+  capConditions,
+  engineerFeatures,
+  FEATURE_NAMES,
+  fitScaler,
+  pickConditions,
+  predictScaled,
+  withScaling,
+} from './features';
+
+const conditions = {
+  temperature: 30, rainfall: 1200, fertilizer: 150, soil_ph: 6.5, humidity: 70,
+  nitrogen: 120, phosphorus: 40, potassium: 59,
+};
+
+describe('feature pipeline', () => {
+  it('caps temperature and rainfall to their bounds', () => {
+    const capped = capConditions({ ...conditions, temperature: 50, rainfall: 20 });
+    expect(capped.temperature).toBe(45);
+    expect(capped.rainfall).toBe(100);
+    expect(capped.fertilizer).toBe(150);
+  });
+
+  it('computes every engineered feature from the capped conditions', () => {
+    const row = engineerFeatures({ ...conditions, temperature: 60 });
+    expect(Object.keys(row).sort()).toEqual([...FEATURE_NAMES].sort());
+    expect(row.temp_rainfall_interaction).toBeCloseTo((45 * 1200) / 1000);
+    expect(row.ph_fertilizer_interaction).toBeCloseTo((6.5 * 150) / 100);
+    expect(row.temp_squared).toBeCloseTo(4.5 * 4.5);
+    expect(row.npk_ratio).toBeCloseTo(120 / 100);
+  });
+
+  it('gives the same features for a stored row as for the raw input', () => {
+    const stored = { id: 'a', crop: 'Rice', yield: 4000, ...engineerFeatures(conditions) };
+    expect(engineerFeatures(pickConditions(stored))).toEqual(engineerFeatures(conditions));
+  });
+});
+
+describe('fitted scalers', () => {
+  const rows = [{ x: 2, y: 10 }, { x: 4, y: 10 }, { x: 6, y: 10 }, { x: 8, y: 10 }];
+
+  it('standardizes to zero mean and unit variance', () => {
+    const scaler = fitScaler(rows, ['x', 'y'], 'standard');
+    const scaled = rows.map((r) => applyScaler(scaler, r));
+    expect(scaled.reduce((sum, r) => sum + Number(r.x), 0)).toBeCloseTo(0);
+    expect(scaled.reduce((sum, r) => sum + Number(r.x) ** 2, 0) / rows.length).toBeCloseTo(1);
+    expect(scaled[0].y).toBe(0); // Constant column is centred but not divided by zero
+  });
+
+  it('min-max scales to [0, 1] and passes other columns through', () => {
+    const scaler = fitScaler(rows, ['x'], 'minmax');
+    expect(rows.map((r) => applyScaler(scaler, r).x)).toEqual([0, 1 / 3, 2 / 3, 1]);
+    expect(applyScaler(scaler, { x: 5, crop: 'Rice' }).crop).toBe('Rice');
+  });
+});
+
+describe('scaled models', () => {
+  it('fits the scaler on the training rows and applies it at prediction time', () => {
+    const train = [{ x: 100 }, { x: 200 }, { x: 300 }];
+    // "Model" that remembers the largest value it was trained on
+    const fit = withScaling((rows) => Math.max(...rows.map((r) => Number(r.x))), ['x'], 'minmax');
+    const scaled = fit(train);
+    expect(scaled.scaler.offset.x).toBe(100);
+    expect(scaled.model).toBe(1);
+
+    const predict = predictScaled((model: number, row) => model - Number(row.x));
+    expect(predict(scaled, { x: 250 })).toBeCloseTo(0.25);
+  });
+});
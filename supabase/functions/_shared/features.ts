@@ -0,0 +1,150 @@
+// Feature pipeline shared by dataset generation, training and serving.
+//
+// Raw growing conditions are capped, then every engineered feature is derived
+// from its declarative definition below. Training rows and prediction inputs
+// both go through `engineerFeatures`, so the two can never compute a feature
+// differently.
+
+export type FeatureRow = Record<string, number | string | null>;
+
+export interface Conditions {
+  temperature: number; // °C
+  rainfall: number; // mm
+  fertilizer: number; // kg/ha
+  soil_ph: number;
+  humidity: number; // %
+  nitrogen: number; // kg/ha
+  phosphorus: number; // kg/ha
+  potassium: number; // kg/ha
+}
+
+export const BASE_FEATURES: (keyof Conditions)[] = [
+  "temperature", "rainfall", "fertilizer", "soil_ph", "humidity",
+  "nitrogen", "phosphorus", "potassium",
+];
+
+// Outlier handling: values outside these bounds are clamped before use
+export const FEATURE_CAPS: Partial<Record<keyof Conditions, [number, number]>> = {
+  temperature: [10, 45],
+  rainfall: [100, 2500],
+};
+
+export interface FeatureDefinition {
+  name: string;
+  description: string;
+  compute: (c: Conditions) => number; // Receives capped conditions
+}
+
+export const ENGINEERED_FEATURES: FeatureDefinition[] = [
+  {
+    name: "temp_rainfall_interaction",
+    description: "Temperature × rainfall / 1000",
+    compute: (c) => (c.temperature * c.rainfall) / 1000,
+  },
+  {
+    name: "ph_fertilizer_interaction",
+    description: "Soil pH × fertilizer / 100",
+    compute: (c) => (c.soil_ph * c.fertilizer) / 100,
+  },
+  {
+    name: "temp_squared",
+    description: "(Temperature / 10)²",
+    compute: (c) => Math.pow(c.temperature / 10, 2),
+  },
+  {
+    name: "npk_ratio",
+    description: "Nitrogen / (phosphorus + potassium + 1)",
+    compute: (c) => c.nitrogen / (c.phosphorus + c.potassium + 1),
+  },
+];
+
+// Every model feature, in the order models are trained on
+export const FEATURE_NAMES: string[] = [...BASE_FEATURES, ...ENGINEERED_FEATURES.map((f) => f.name)];
+
+export function capConditions(raw: Conditions): Conditions {
+  const capped = { ...raw };
+  for (const [feature, [min, max]] of Object.entries(FEATURE_CAPS) as [keyof Conditions, [number, number]][]) {
+    capped[feature] = Math.max(min, Math.min(max, raw[feature]));
+  }
+  return capped;
+}
+
+// Capped base conditions plus every engineered feature
+export function engineerFeatures(raw: Conditions): Record<string, number> {
+  const capped = capConditions(raw);
+  const row: Record<string, number> = { ...capped };
+  for (const feature of ENGINEERED_FEATURES) row[feature.name] = feature.compute(capped);
+  return row;
+}
+
+export function pickConditions(row: FeatureRow): Conditions {
+  const conditions = {} as Conditions;
+  for (const f of BASE_FEATURES) conditions[f] = Number(row[f]);
+  return conditions;
+}
+
+// --- Scaling ---
+
+export type ScalerKind = "standard" | "minmax";
+
+// Per-feature affine transform fitted on training data: (x - offset) / scale
+export interface FittedScaler {
+  kind: ScalerKind;
+  features: string[];
+  offset: Record<string, number>; // Mean (standard) or minimum (minmax)
+  scale: Record<string, number>; // Standard deviation (standard) or range (minmax)
+}
+
+export function fitScaler(rows: FeatureRow[], features: string[], kind: ScalerKind = "standard"): FittedScaler {
+  if (rows.length === 0) throw new Error("Cannot fit a scaler on an empty dataset");
+  const offset: Record<string, number> = {};
+  const scale: Record<string, number> = {};
+
+  for (const f of features) {
+    const values = rows.map((r) => Number(r[f]));
+    if (kind === "standard") {
+      const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+      const variance = values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / values.length;
+      offset[f] = mean;
+      scale[f] = Math.sqrt(variance) || 1; // Constant column: leave unscaled
+    } else {
+      const min = values.reduce((a, b) => Math.min(a, b));
+      offset[f] = min;
+      scale[f] = values.reduce((a, b) => Math.max(a, b)) - min || 1;
+    }
+  }
+
+  return { kind, features: [...features], offset, scale };
+}
+
+// Scale the scaler's features; any other columns are passed through unchanged
+export function applyScaler<T extends FeatureRow>(scaler: FittedScaler, row: T): T {
+  const scaled: FeatureRow = { ...row };
+  for (const f of scaler.features) scaled[f] = (Number(row[f]) - scaler.offset[f]) / scaler.scale[f];
+  return scaled as T;
+}
+
+export const SCALER_KINDS: ScalerKind[] = ["standard", "minmax"];
+
+// A model trained on scaled features, together with the scaler fitted on its training rows
+export interface ScaledModel<M> {
+  scaler: FittedScaler;
+  model: M;
+}
+
+// Wrap a fit function so the scaler is fitted on exactly the rows the model sees
+// (per fold during cross-validation) and never on held-out rows.
+export function withScaling<M>(
+  fit: (rows: FeatureRow[]) => M,
+  features: string[],
+  kind: ScalerKind,
+): (rows: FeatureRow[]) => ScaledModel<M> {
+  return (rows) => {
+    const scaler = fitScaler(rows, features, kind);
+    return { scaler, model: fit(rows.map((r) => applyScaler(scaler, r))) };
+  };
+}
+
+export function predictScaled<M, R>(predict: (model: M, row: FeatureRow) => R) {
+  return (scaled: ScaledModel<M>, row: FeatureRow): R => predict(scaled.model, applyScaler(scaled.scaler, row));
+}
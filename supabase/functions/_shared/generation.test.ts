@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_GENERATION_CONFIG, expectedYield, generateRecords, parseGenerationConfig } from './generation';
+
+const config = { ...DEFAULT_GENERATION_CONFIG, seed: 7, record_count: 200 };
+
+describe('generateRecords', () => {
+  it('is deterministic for a seed', () => {
+    expect(generateRecords(config)).toEqual(generateRecords(config));
+    expect(generateRecords({ ...config, seed: 8 })).not.toEqual(generateRecords(config));
+  });
+
+  it('samples within the configured distributions and crops', () => {
+    const records = generateRecords(config);
+    expect(records).toHaveLength(200);
+    for (const r of records) {
+      expect(r.conditions.temperature).toBeGreaterThanOrEqual(15);
+      expect(r.conditions.temperature).toBeLessThanOrEqual(40);
+      expect(config.crops.map((c) => c.name)).toContain(r.crop);
+    }
+  });
+
+  it('clamps normal samples to valid input ranges', () => {
+    const records = generateRecords({
+      ...config,
+      distributions: { ...config.distributions, humidity: { type: 'normal', mean: 95, std: 20 } },
+    });
+    expect(Math.max(...records.map((r) => r.conditions.humidity))).toBeLessThanOrEqual(100);
+  });
+
+  it('leaves NPK measurements missing at the configured rate', () => {
+    const records = generateRecords({ ...config, record_count: 1000, missing_rate: 0.3 });
+    const missing = records.filter((r) => r.observed.nitrogen === null).length / records.length;
+    expect(missing).toBeGreaterThan(0.2);
+    expect(missing).toBeLessThan(0.4);
+    expect(records.every((r) => r.observed.temperature !== null)).toBe(true);
+  });
+
+  it('with no noise, yields equal the modelled value', () => {
+    for (const r of generateRecords({ ...config, noise: 0 })) {
+      const crop = config.crops.find((c) => c.name === r.crop)!;
+      expect(r.yield).toBeCloseTo(expectedYield(crop, r.conditions));
+    }
+  });
+});
+
+describe('parseGenerationConfig', () => {
+  it('fills defaults and draws a seed when none is given', () => {
+    const { value } = parseGenerationConfig({});
+    expect(value).toMatchObject(DEFAULT_GENERATION_CONFIG);
+    expect(Number.isInteger(value?.seed)).toBe(true);
+  });
+
+  it('merges per-feature distributions over the defaults', () => {
+    const { value } = parseGenerationConfig({ seed: 1, distributions: { soil_ph: { type: 'normal', mean: 6.5, std: 0.5 } } });
+    expect(value?.distributions.soil_ph).toEqual({ type: 'normal', mean: 6.5, std: 0.5 });
+    expect(value?.distributions.rainfall).toEqual(DEFAULT_GENERATION_CONFIG.distributions.rainfall);
+  });
+
+  it('reports invalid fields', () => {
+    const { errors } = parseGenerationConfig({
+      seed: 1.5, record_count: 0, crops: [], noise: 2,
+      distributions: { rainfall: { type: 'uniform', min: 10, max: 5 } },
+    });
+    expect(errors).toEqual([
+      'seed must be an integer',
+      'record_count must be an integer between 1 and 50000',
+      'crops must list at least one crop',
+      'rainfall: uniform distribution needs numeric min <= max',
+      'noise must be between 0 and 1',
+    ]);
+  });
+});
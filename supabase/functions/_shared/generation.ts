@@ -0,0 +1,188 @@
+// Synthetic crops_dataset generation. Every run is driven by a GenerationConfig and a
+// seeded PRNG, so the same config always produces the same rows; generate-dataset
+// stores the config in generation_runs next to the rows it produced.
+
+import { BASE_FEATURES, type Conditions, engineerFeatures } from "./features.ts";
+import { createRandom, randomInt } from "./random.ts";
+import { INPUT_RANGES, type Validated } from "./validation.ts";
+
+export interface CropSpec {
+  name: string;
+  min_yield: number; // kg/ha
+  max_yield: number;
+}
+
+export type Distribution =
+  | { type: "uniform"; min: number; max: number }
+  | { type: "normal"; mean: number; std: number };
+
+export interface GenerationConfig {
+  seed: number;
+  record_count: number;
+  crops: CropSpec[];
+  distributions: Record<keyof Conditions, Distribution>;
+  noise: number; // Yield varies by ±noise (fraction) around the modelled value
+  missing_rate: number; // Probability each optional (NPK) measurement is left empty
+  outlier_rate: number; // Probability a row's yield is replaced by an implausible one
+}
+
+export const MAX_RECORD_COUNT = 50000;
+
+// Features that may be missing in generated rows, as in real field records
+export const MISSABLE_FEATURES: (keyof Conditions)[] = ["nitrogen", "phosphorus", "potassium"];
+
+export const DEFAULT_GENERATION_CONFIG: Omit<GenerationConfig, "seed"> = {
+  record_count: 5000,
+  crops: [
+    { name: "Wheat", min_yield: 2000, max_yield: 5000 },
+    { name: "Rice", min_yield: 3000, max_yield: 7000 },
+    { name: "Corn", min_yield: 4000, max_yield: 9000 },
+    { name: "Cotton", min_yield: 1000, max_yield: 3000 },
+    { name: "Sugarcane", min_yield: 40000, max_yield: 80000 },
+    { name: "Soybean", min_yield: 1500, max_yield: 4000 },
+    { name: "Barley", min_yield: 2000, max_yield: 5500 },
+  ],
+  distributions: {
+    temperature: { type: "uniform", min: 15, max: 40 }, // °C
+    rainfall: { type: "uniform", min: 300, max: 1800 }, // mm
+    fertilizer: { type: "uniform", min: 50, max: 300 }, // kg/ha
+    soil_ph: { type: "uniform", min: 5.5, max: 8 },
+    humidity: { type: "uniform", min: 40, max: 90 }, // %
+    nitrogen: { type: "uniform", min: 50, max: 200 }, // kg/ha
+    phosphorus: { type: "uniform", min: 20, max: 100 }, // kg/ha
+    potassium: { type: "uniform", min: 30, max: 150 }, // kg/ha
+  },
+  noise: 0.2,
+  missing_rate: 0,
+  outlier_rate: 0,
+};
+
+// One generated observation; missing measurements are null
+export interface GeneratedRecord {
+  crop: string;
+  conditions: Conditions;
+  observed: Record<keyof Conditions, number | null>;
+  yield: number;
+}
+
+function isFraction(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && value <= 1;
+}
+
+function distributionErrors(feature: string, d: Distribution): string[] {
+  if (d?.type === "uniform") {
+    return Number.isFinite(d.min) && Number.isFinite(d.max) && d.min <= d.max
+      ? []
+      : [`${feature}: uniform distribution needs numeric min <= max`];
+  }
+  if (d?.type === "normal") {
+    return Number.isFinite(d.mean) && Number.isFinite(d.std) && d.std >= 0
+      ? []
+      : [`${feature}: normal distribution needs a numeric mean and std >= 0`];
+  }
+  return [`${feature}: distribution type must be "uniform" or "normal"`];
+}
+
+// Request body -> config. Omitted fields take their defaults (distributions per feature);
+// a missing seed is drawn at random and recorded, so every run can be replayed.
+export function parseGenerationConfig(raw: Record<string, unknown>): Validated<GenerationConfig> {
+  const config: GenerationConfig = {
+    seed: raw.seed === undefined || raw.seed === null ? Math.floor(Math.random() * 2 ** 31) : (raw.seed as number),
+    record_count: (raw.record_count as number) ?? DEFAULT_GENERATION_CONFIG.record_count,
+    crops: (raw.crops as CropSpec[]) ?? DEFAULT_GENERATION_CONFIG.crops,
+    distributions: {
+      ...DEFAULT_GENERATION_CONFIG.distributions,
+      ...(raw.distributions as Partial<Record<keyof Conditions, Distribution>> ?? {}),
+    },
+    noise: (raw.noise as number) ?? DEFAULT_GENERATION_CONFIG.noise,
+    missing_rate: (raw.missing_rate as number) ?? DEFAULT_GENERATION_CONFIG.missing_rate,
+    outlier_rate: (raw.outlier_rate as number) ?? DEFAULT_GENERATION_CONFIG.outlier_rate,
+  };
+
+  const errors: string[] = [];
+  if (!Number.isInteger(config.seed)) errors.push("seed must be an integer");
+  if (!Number.isInteger(config.record_count) || config.record_count < 1 || config.record_count > MAX_RECORD_COUNT) {
+    errors.push(`record_count must be an integer between 1 and ${MAX_RECORD_COUNT}`);
+  }
+  if (!Array.isArray(config.crops) || config.crops.length === 0) {
+    errors.push("crops must list at least one crop");
+  } else {
+    for (const crop of config.crops) {
+      if (typeof crop?.name !== "string" || crop.name.trim() === "") errors.push("every crop needs a name");
+      else if (!(crop.min_yield >= 0 && crop.max_yield >= crop.min_yield)) {
+        errors.push(`${crop.name}: yields need 0 <= min_yield <= max_yield`);
+      }
+    }
+  }
+  for (const [feature, distribution] of Object.entries(config.distributions)) {
+    if (!(feature in INPUT_RANGES)) errors.push(`unknown feature "${feature}" in distributions`);
+    else errors.push(...distributionErrors(feature, distribution));
+  }
+  if (!isFraction(config.noise)) errors.push("noise must be between 0 and 1");
+  if (!isFraction(config.missing_rate)) errors.push("missing_rate must be between 0 and 1");
+  if (!isFraction(config.outlier_rate)) errors.push("outlier_rate must be between 0 and 1");
+
+  return errors.length > 0 ? { value: null, errors } : { value: config, errors: null };
+}
+
+// Samples stay inside the ranges accepted for real inputs (e.g. humidity <= 100%)
+function sample(random: () => number, feature: keyof Conditions, d: Distribution): number {
+  let value: number;
+  if (d.type === "uniform") {
+    value = d.min + random() * (d.max - d.min);
+  } else {
+    // Box-Muller transform
+    const u = 1 - random();
+    value = d.mean + d.std * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  }
+  const { min, max = Infinity } = INPUT_RANGES[feature];
+  return Math.min(max, Math.max(min, value));
+}
+
+// Modelled yield for a crop under the given conditions, before noise
+export function expectedYield(crop: CropSpec, conditions: Conditions): number {
+  // Shared pipeline: capping + engineered features (same code predict-yield uses)
+  const engineered = engineerFeatures(conditions);
+
+  const tempFactor = 1 - Math.abs(engineered.temperature - 25) / 40;
+  const rainFactor = Math.min(engineered.rainfall / 1000, 1.5);
+  const fertFactor = Math.min(conditions.fertilizer / 200, 1.3);
+  const phFactor = 1 - Math.abs(conditions.soil_ph - 6.8) / 3;
+  const humidityFactor = Math.min(conditions.humidity / 70, 1.2);
+  const baseFactor = (tempFactor + rainFactor + fertFactor + phFactor + humidityFactor) / 5;
+
+  // Engineered features contribute too (example weights)
+  const engineeredFactor = 0.1 * engineered.temp_rainfall_interaction
+                          + 0.05 * engineered.ph_fertilizer_interaction
+                          - 0.02 * engineered.temp_squared // Negative impact if too high/low
+                          + 0.03 * engineered.npk_ratio;
+
+  return crop.min_yield + (crop.max_yield - crop.min_yield) * baseFactor * (1 + engineeredFactor);
+}
+
+export function generateRecords(config: GenerationConfig): GeneratedRecord[] {
+  const random = createRandom(config.seed);
+  const records: GeneratedRecord[] = [];
+
+  for (let i = 0; i < config.record_count; i++) {
+    const crop = config.crops[randomInt(random, config.crops.length)];
+    const conditions = Object.fromEntries(
+      BASE_FEATURES.map((f) => [f, sample(random, f, config.distributions[f])])
+    ) as unknown as Conditions;
+
+    const variation = 1 + config.noise * (2 * random() - 1);
+    let yieldValue = expectedYield(crop, conditions) * variation;
+    // Outliers: data-entry style errors far above or below the crop's range
+    if (random() < config.outlier_rate) {
+      yieldValue *= random() < 0.5 ? 0.1 + random() * 0.3 : 2 + random() * 2;
+    }
+
+    const observed: Record<keyof Conditions, number | null> = { ...conditions };
+    for (const f of MISSABLE_FEATURES) {
+      if (random() < config.missing_rate) observed[f] = null;
+    }
+
+    records.push({ crop: crop.name, conditions, observed, yield: Math.max(0, yieldValue) });
+  }
+  return records;
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { explainGradientBoosting, fitGradientBoosting, predictGradientBoosting } from './gradient-boosting';
+
+// Interaction of `a` and `b` (only large `a` with large `b` pays off), `noise` is irrelevant
+const rows = Array.from({ length: 400 }, (_, i) => {
+  const a = (i * 37) % 100;
+  const b = (i * 61) % 100;
+  const noise = (i * 53) % 17;
+  return { a, b, noise, y: 100 + (a >= 50 && b >= 50 ? 400 : 0) };
+});
+const features = ['a', 'b', 'noise'];
+const params = {
+  n_estimators: 100,
+  learning_rate: 0.3,
+  max_depth: 2,
+  min_samples_leaf: 5,
+  subsample: 1,
+  validation_fraction: 0.2,
+  n_iter_no_change: 5,
+  seed: 7,
+};
+
+describe('fitGradientBoosting', () => {
+  it('learns an interaction between two features', () => {
+    const model = fitGradientBoosting(rows, features, 'y', params);
+    expect(predictGradientBoosting(model, { a: 80, b: 80, noise: 3 })).toBeCloseTo(500, -1);
+    expect(predictGradientBoosting(model, { a: 80, b: 20, noise: 3 })).toBeCloseTo(100, -1);
+    expect(model.feature_importances.noise).toBeLessThan(0.05);
+  });
+
+  it('stops adding rounds once the held-back rows stop improving', () => {
+    const model = fitGradientBoosting(rows, features, 'y', { ...params, n_estimators: 1000 });
+    expect(model.trees.length).toBeLessThan(1000);
+    expect(model.residual_std).toBeLessThan(20);
+  });
+
+  it('fits every round without early-stopping rows', () => {
+    const model = fitGradientBoosting(rows, features, 'y', { ...params, n_estimators: 15, validation_fraction: 0 });
+    expect(model.trees).toHaveLength(15);
+  });
+
+  it('explains a prediction as baseline plus per-feature contributions', () => {
+    const model = fitGradientBoosting(rows, features, 'y', params);
+    const input = { a: 80, b: 80, noise: 3 };
+    const { baseline, contributions } = explainGradientBoosting(model, input);
+    const total = baseline + contributions.a + contributions.b + contributions.noise;
+    expect(total).toBeCloseTo(predictGradientBoosting(model, input), 6);
+  });
+});
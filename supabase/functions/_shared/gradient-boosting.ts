@@ -0,0 +1,162 @@
+// Gradient boosted regression trees (squared error loss).
+//
+// Each round fits a shallow tree to the residuals of the ensemble so far and adds it,
+// shrunk by the learning rate. A slice of the training rows is held back to stop adding
+// rounds once they no longer improve its error.
+
+import type { FeatureRow } from "./features.ts";
+import type { Attribution } from "./importance.ts";
+import { createRandom, randomInt } from "./random.ts";
+import {
+  binFeatures,
+  fitRegressionTree,
+  predictTree,
+  type RegressionTree,
+  treeContributions,
+} from "./regression-tree.ts";
+
+export interface GradientBoostingParams {
+  n_estimators: number; // Most boosting rounds; early stopping usually ends sooner
+  learning_rate: number;
+  max_depth: number;
+  min_samples_leaf: number;
+  subsample: number; // Fraction of the fitting rows each tree sees
+  validation_fraction: number; // Rows held back for early stopping (0 = always n_estimators rounds)
+  n_iter_no_change: number; // Rounds without a better validation error before stopping
+  seed: number;
+}
+
+export const DEFAULT_GRADIENT_BOOSTING_PARAMS: GradientBoostingParams = {
+  n_estimators: 200,
+  learning_rate: 0.1,
+  max_depth: 3,
+  min_samples_leaf: 10,
+  subsample: 0.8,
+  validation_fraction: 0.1,
+  n_iter_no_change: 10,
+  seed: 42,
+};
+
+export interface GradientBoostingModel {
+  features: string[];
+  params: GradientBoostingParams;
+  init: number; // Mean target, the prediction before any tree
+  trees: RegressionTree[]; // The rounds kept by early stopping
+  feature_importances: Record<string, number>; // Impurity decrease of the kept trees, sums to 1
+  residual_std: number; // On the early-stopping rows (training rows without them), for prediction intervals
+}
+
+export function fitGradientBoosting(
+  rows: FeatureRow[],
+  features: string[],
+  target: string,
+  params: GradientBoostingParams = DEFAULT_GRADIENT_BOOSTING_PARAMS,
+): GradientBoostingModel {
+  if (rows.length === 0) throw new Error("Cannot fit gradient boosting on an empty dataset");
+
+  const random = createRandom(params.seed);
+  const columns = features.map((f) => rows.map((r) => Number(r[f])));
+  const x = rows.map((_, i) => columns.map((c) => c[i]));
+  const y = rows.map((r) => Number(r[target]));
+  const binned = binFeatures(columns);
+  const options = {
+    maxDepth: params.max_depth,
+    minSamplesLeaf: params.min_samples_leaf,
+    maxFeatures: features.length,
+  };
+
+  // Shuffled split into the rows trees are fitted on and the early-stopping rows
+  const order = Array.from({ length: rows.length }, (_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = randomInt(random, i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  const validationSize = Math.min(rows.length - 1, Math.round(rows.length * params.validation_fraction));
+  const validation = order.slice(0, validationSize);
+  const fitting = order.slice(validationSize);
+
+  const init = fitting.reduce((sum, i) => sum + y[i], 0) / fitting.length;
+  const predictions = new Float64Array(rows.length).fill(init);
+  const residuals = new Float64Array(rows.length);
+  const validationError = () => validation.reduce((sum, i) => sum + Math.pow(y[i] - predictions[i], 2), 0);
+
+  const trees: RegressionTree[] = [];
+  const treeImportances: number[][] = [];
+  let bestError = validation.length > 0 ? validationError() : Infinity;
+  let bestRounds = 0;
+
+  for (let round = 0; round < params.n_estimators; round++) {
+    for (const i of fitting) residuals[i] = y[i] - predictions[i];
+    const sample = params.subsample < 1
+      ? fitting.filter(() => random() < params.subsample)
+      : fitting;
+    const importances = new Array<number>(features.length).fill(0);
+    const tree = fitRegressionTree(binned, residuals, sample.length > 0 ? sample : fitting, options, random, importances);
+    trees.push(tree);
+    treeImportances.push(importances);
+
+    for (let i = 0; i < rows.length; i++) {
+      predictions[i] += params.learning_rate * predictTree(tree, x[i]);
+    }
+
+    if (validation.length === 0) {
+      bestRounds = trees.length;
+      continue;
+    }
+    const error = validationError();
+    if (error < bestError) {
+      bestError = error;
+      bestRounds = trees.length;
+    } else if (trees.length - bestRounds >= params.n_iter_no_change) {
+      break;
+    }
+  }
+
+  // Drop the rounds after the best validation error
+  const kept = trees.slice(0, bestRounds);
+  const importances = new Array<number>(features.length).fill(0);
+  treeImportances.slice(0, bestRounds).forEach((tree) => tree.forEach((v, j) => (importances[j] += v)));
+  const totalImportance = importances.reduce((sum, v) => sum + v, 0) || 1;
+  const featureImportances: Record<string, number> = {};
+  features.forEach((f, j) => {
+    featureImportances[f] = parseFloat((importances[j] / totalImportance).toFixed(4));
+  });
+
+  const model: GradientBoostingModel = {
+    features: [...features],
+    params,
+    init,
+    trees: kept,
+    feature_importances: featureImportances,
+    residual_std: 0,
+  };
+  const residualRows = validation.length > 0 ? validation : fitting;
+  // Rounds after the best one already moved `predictions`, so score the kept trees again
+  const squaredError = residualRows.reduce(
+    (sum, i) => sum + Math.pow(y[i] - predictGradientBoosting(model, rows[i]), 2),
+    0,
+  );
+  model.residual_std = Math.sqrt(squaredError / residualRows.length);
+  return model;
+}
+
+export function predictGradientBoosting(model: GradientBoostingModel, input: FeatureRow): number {
+  const x = model.features.map((f) => Number(input[f]));
+  return model.trees.reduce((sum, tree) => sum + model.params.learning_rate * predictTree(tree, x), model.init);
+}
+
+// Decision path contributions summed over the rounds; the baseline is the initial
+// prediction plus every tree's root value
+export function explainGradientBoosting(model: GradientBoostingModel, input: FeatureRow): Attribution {
+  const x = model.features.map((f) => Number(input[f]));
+  const totals = new Array<number>(model.features.length).fill(0);
+  let roots = 0;
+  for (const tree of model.trees) roots += treeContributions(tree, x, totals);
+
+  const rate = model.params.learning_rate;
+  const contributions: Record<string, number> = {};
+  model.features.forEach((f, j) => {
+    contributions[f] = totals[j] * rate;
+  });
+  return { baseline: model.init + roots * rate, contributions };
+}
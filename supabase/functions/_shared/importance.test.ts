@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { groupAttribution, groupFeatures, permutationImportance } from './importance';
+
+// y depends on `a` and the crop; `noise` is irrelevant
+const rows = Array.from({ length: 200 }, (_, i) => {
+  const a = (i * 37) % 100;
+  const noise = (i * 53) % 17;
+  const crop_rice = i % 2;
+  return { a, noise, crop_rice, y: 3 * a + 50 * crop_rice };
+});
+const predict = (row: Record<string, number | string | null>) => 3 * Number(row.a) + 50 * Number(row.crop_rice);
+
+describe('permutationImportance', () => {
+  it('scores features by how much shuffling them hurts R²', () => {
+    const importances = permutationImportance(rows, ['a', 'noise', 'crop_rice'], 'y', predict);
+    expect(importances.a).toBeGreaterThan(1);
+    expect(importances.crop).toBeGreaterThan(0.05);
+    expect(importances.crop).toBeLessThan(importances.a);
+    expect(importances.noise).toBe(0);
+  });
+
+  it('reports crop indicator columns as one feature', () => {
+    expect(groupFeatures(['a', 'crop_rice', 'crop_wheat'])).toEqual({ a: ['a'], crop: ['crop_rice', 'crop_wheat'] });
+    expect(groupAttribution({ baseline: 10, contributions: { a: 1, crop_rice: 2, crop_wheat: -0.5 } }))
+      .toEqual({ baseline: 10, contributions: { a: 1, crop: 1.5 } });
+  });
+});
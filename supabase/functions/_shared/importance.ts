@@ -0,0 +1,73 @@
+// Global and local explanations of the yield models.
+//
+// Global: permutation importance, the drop in held-out R² when one feature's values
+// are shuffled across rows. Local: additive attributions of a single prediction
+// (baseline + contributions = prediction), produced by each model's explain function.
+// Crop indicator columns are reported together as a single "crop" feature.
+
+import { isCropFeature } from "./crops.ts";
+import { regressionMetrics, shuffledIndices } from "./evaluation.ts";
+import type { FeatureRow } from "./features.ts";
+
+export interface Attribution {
+  baseline: number; // Expected prediction over the training rows
+  contributions: Record<string, number>; // Per feature, in yield units
+}
+
+export interface PermutationOptions {
+  repeats: number;
+  seed: number;
+}
+
+export const DEFAULT_PERMUTATION_OPTIONS: PermutationOptions = { repeats: 3, seed: 42 };
+
+export function featureGroup(feature: string): string {
+  return isCropFeature(feature) ? "crop" : feature;
+}
+
+// Group name -> model columns, preserving feature order
+export function groupFeatures(features: string[]): Record<string, string[]> {
+  const groups: Record<string, string[]> = {};
+  for (const f of features) (groups[featureGroup(f)] ??= []).push(f);
+  return groups;
+}
+
+// Mean drop in R² on `rows` when each feature group is permuted; higher means more important
+export function permutationImportance(
+  rows: FeatureRow[],
+  features: string[],
+  target: string,
+  predict: (row: FeatureRow) => number,
+  options: PermutationOptions = DEFAULT_PERMUTATION_OPTIONS,
+): Record<string, number> {
+  if (rows.length < 2) throw new Error("Permutation importance needs at least two rows");
+  const actual = rows.map((r) => Number(r[target]));
+  const baseline = regressionMetrics(actual, rows.map(predict)).r2;
+
+  const importances: Record<string, number> = {};
+  for (const [group, columns] of Object.entries(groupFeatures(features))) {
+    let drop = 0;
+    for (let repeat = 0; repeat < options.repeats; repeat++) {
+      const order = shuffledIndices(rows.length, options.seed + repeat);
+      const permuted = rows.map((row, i) => {
+        const donor = rows[order[i]];
+        const copy: FeatureRow = { ...row };
+        for (const c of columns) copy[c] = donor[c];
+        return copy;
+      });
+      drop += baseline - regressionMetrics(actual, permuted.map(predict)).r2;
+    }
+    importances[group] = drop / options.repeats;
+  }
+  return importances;
+}
+
+// Sum per-column contributions into feature groups
+export function groupAttribution(attribution: Attribution): Attribution {
+  const contributions: Record<string, number> = {};
+  for (const [feature, value] of Object.entries(attribution.contributions)) {
+    const group = featureGroup(feature);
+    contributions[group] = (contributions[group] ?? 0) + value;
+  }
+  return { baseline: attribution.baseline, contributions };
+}
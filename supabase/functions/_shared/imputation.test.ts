@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { fitImputer, IMPUTABLE_FEATURES, imputeConditions } from './imputation';
+
+const conditions = { temperature: 22, rainfall: 650, fertilizer: 120, soil_ph: 6.5, humidity: 60 };
+const rows = [
+  { crop: 'Wheat', nitrogen: 80, phosphorus: 40, potassium: 30 },
+  { crop: 'Wheat', nitrogen: 100, phosphorus: 50, potassium: 50 },
+  { crop: 'Wheat', nitrogen: 90, phosphorus: 60, potassium: 40 },
+  { crop: 'Rice', nitrogen: 150, phosphorus: 30, potassium: 90 },
+];
+
+describe('fitImputer', () => {
+  it('imputes the optional NPK measurements only', () => {
+    expect(IMPUTABLE_FEATURES).toEqual(['nitrogen', 'phosphorus', 'potassium']);
+  });
+
+  it('computes medians per crop and overall', () => {
+    const imputer = fitImputer(rows);
+    expect(imputer.by_crop.Wheat).toEqual({ nitrogen: 90, phosphorus: 50, potassium: 40 });
+    expect(imputer.by_crop.Rice.nitrogen).toBe(150);
+    expect(imputer.overall.nitrogen).toBe(95);
+  });
+});
+
+describe('imputeConditions', () => {
+  const imputer = fitImputer(rows);
+
+  it("fills empty measurements with the crop's median and reports them", () => {
+    const { conditions: filled, imputed } = imputeConditions(imputer, 'Wheat', {
+      ...conditions, nitrogen: null, phosphorus: 70, potassium: null,
+    });
+    expect(filled).toEqual({ ...conditions, nitrogen: 90, phosphorus: 70, potassium: 40 });
+    expect(imputed).toEqual({ nitrogen: 90, potassium: 40 });
+  });
+
+  it('falls back to the overall median for crops it has not seen', () => {
+    const { imputed } = imputeConditions(imputer, 'Maize', { ...conditions, nitrogen: null, phosphorus: 1, potassium: 1 });
+    expect(imputed).toEqual({ nitrogen: 95 });
+  });
+
+  it('leaves complete inputs alone', () => {
+    const complete = { ...conditions, nitrogen: 1, phosphorus: 2, potassium: 3 };
+    expect(imputeConditions(imputer, 'Wheat', complete)).toEqual({ conditions: complete, imputed: {} });
+  });
+});
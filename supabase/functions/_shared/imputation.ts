@@ -0,0 +1,59 @@
+// Imputation of optional measurements (NPK) left empty in a prediction input. Each model
+// version stores the per-crop medians of its training rows, so an empty nitrogen value
+// becomes what is typical for that crop in the data the model learned from, instead of 0.
+
+import { BASE_FEATURES, type Conditions, type FeatureRow } from "./features.ts";
+import { INPUT_RANGES, type ObservedConditions } from "./validation.ts";
+
+// Features a caller may leave empty
+export const IMPUTABLE_FEATURES: (keyof Conditions)[] = BASE_FEATURES.filter((f) => INPUT_RANGES[f].optional);
+
+export interface FittedImputer {
+  features: string[];
+  by_crop: Record<string, Record<string, number>>; // Median per crop seen in training
+  overall: Record<string, number>; // Median over every training row, for crops without their own
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function medians(rows: FeatureRow[], features: string[]): Record<string, number> {
+  return Object.fromEntries(features.map((f) => [f, median(rows.map((r) => Number(r[f])))]));
+}
+
+// Fitted on complete rows (training skips rows with missing measurements)
+export function fitImputer(rows: FeatureRow[], features: string[] = IMPUTABLE_FEATURES): FittedImputer {
+  if (rows.length === 0) throw new Error("Cannot fit an imputer on an empty dataset");
+  const byCrop = new Map<string, FeatureRow[]>();
+  for (const row of rows) {
+    const crop = String(row.crop);
+    if (!byCrop.has(crop)) byCrop.set(crop, []);
+    byCrop.get(crop)!.push(row);
+  }
+  return {
+    features: [...features],
+    by_crop: Object.fromEntries([...byCrop].map(([crop, cropRows]) => [crop, medians(cropRows, features)])),
+    overall: medians(rows, features),
+  };
+}
+
+// Fill the empty measurements of `observed`; `imputed` maps each filled feature to the value used
+export function imputeConditions(
+  imputer: FittedImputer,
+  crop: string,
+  observed: ObservedConditions,
+): { conditions: Conditions; imputed: Record<string, number> } {
+  const conditions = { ...observed } as Conditions;
+  const imputed: Record<string, number> = {};
+  for (const feature of BASE_FEATURES) {
+    if (observed[feature] !== null) continue;
+    const value = imputer.by_crop[crop]?.[feature] ?? imputer.overall[feature];
+    if (value === undefined) throw new Error(`No training statistics to impute ${feature}`);
+    conditions[feature] = value;
+    imputed[feature] = value;
+  }
+  return { conditions, imputed };
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { normalInterval, normalQuantile, quantileInterval } from './intervals';
+
+describe('prediction intervals', () => {
+  it('inverts the standard normal CDF', () => {
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 9);
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5);
+    expect(normalQuantile(0.05)).toBeCloseTo(-1.644854, 5);
+    expect(normalQuantile(0.001)).toBeCloseTo(-3.090232, 5);
+  });
+
+  it('builds a symmetric normal interval from the residual spread', () => {
+    const { lower, upper } = normalInterval(1000, 100, 0.95);
+    expect(lower).toBeCloseTo(1000 - 195.9964, 3);
+    expect(upper).toBeCloseTo(1000 + 195.9964, 3);
+  });
+
+  it('takes the central quantiles of ensemble members', () => {
+    const values = Array.from({ length: 101 }, (_, i) => 100 - i); // 0..100, unsorted
+    const { lower, upper } = quantileInterval(values, 0.9);
+    expect(lower).toBeCloseTo(5, 9);
+    expect(upper).toBeCloseTo(95, 9);
+    expect(quantileInterval([7], 0.9)).toEqual({ lower: 7, upper: 7 });
+  });
+});
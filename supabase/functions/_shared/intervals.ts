@@ -0,0 +1,59 @@
+// Prediction intervals for yield estimates.
+//
+// Linear Regression: normal interval from the residual standard deviation of the fit.
+// Random Forest: normal interval from the residual standard deviation of its out-of-bag
+// predictions (versions trained before that was recorded: quantiles of the tree predictions).
+// Gradient Boosting: normal interval from the residual standard deviation on its early-stopping rows.
+
+export interface PredictionInterval {
+  lower: number;
+  upper: number;
+}
+
+export const DEFAULT_CONFIDENCE_LEVEL = 0.9;
+
+export function isValidConfidenceLevel(level: unknown): level is number {
+  return typeof level === "number" && level > 0 && level < 1;
+}
+
+// Inverse of the standard normal CDF (Acklam's rational approximation, |error| < 1.2e-9)
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) throw new Error("Quantile probability must be in (0, 1)");
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const tail = 0.02425;
+
+  if (p < tail) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - tail) return -normalQuantile(1 - p);
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+// Symmetric interval assuming normally distributed residuals
+export function normalInterval(prediction: number, residualStd: number, level: number): PredictionInterval {
+  const halfWidth = normalQuantile(0.5 + level / 2) * residualStd;
+  return { lower: prediction - halfWidth, upper: prediction + halfWidth };
+}
+
+// Central `level` range of an ensemble's member predictions (linear interpolation between ranks)
+export function quantileInterval(values: number[], level: number): PredictionInterval {
+  if (values.length === 0) throw new Error("Cannot take quantiles of an empty ensemble");
+  const sorted = [...values].sort((a, b) => a - b);
+  const quantile = (p: number) => {
+    const position = p * (sorted.length - 1);
+    const below = Math.floor(position);
+    const above = Math.min(below + 1, sorted.length - 1);
+    return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+  };
+  return { lower: quantile(0.5 - level / 2), upper: quantile(0.5 + level / 2) };
+}
@@ -0,0 +1,44 @@
+// Background jobs kept in a table with status, lease_expires_at and updated_at columns
+// (training_jobs, tuning_runs). A function invocation leases a job, does one slice of its
+// work after responding, and invokes the function again for the next slice, so no single
+// request has to outlive the job.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type JobTable = "training_jobs" | "tuning_runs";
+
+// A worker that has not released its lease by then is presumed dead, and the job can be resumed
+export const LEASE_MS = 10 * 60 * 1000;
+
+// Mark the job running and lease it to this worker, unless it has finished or another
+// worker's lease is still live. Returns the job row, or null when it was not claimed.
+export async function claimJob<T>(supabase: SupabaseClient, table: JobTable, id: string): Promise<T | null> {
+  const now = new Date();
+  const { data, error } = await supabase
+    .from(table)
+    .update({
+      status: "running",
+      lease_expires_at: new Date(now.getTime() + LEASE_MS).toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .eq("id", id)
+    .in("status", ["queued", "running"])
+    .or(`lease_expires_at.is.null,lease_expires_at.lt.${now.toISOString()}`)
+    .select("*")
+    .maybeSingle();
+  if (error) throw error;
+  return data as T | null;
+}
+
+export async function updateJob(
+  supabase: SupabaseClient,
+  table: JobTable,
+  id: string,
+  fields: Record<string, unknown>,
+): Promise<void> {
+  const { error } = await supabase
+    .from(table)
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) throw error;
+}
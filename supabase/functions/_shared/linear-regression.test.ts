@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { explainLinearRegression, fitLinearRegression, predictLinearRegression } from './linear-regression';
+
+// y = 3 + 2a - 0.5b, on a small deterministic grid
+const rows = Array.from({ length: 50 }, (_, i) => {
+  const a = i % 10;
+  const b = Math.floor(i / 10) * 7 + (i % 3);
+  return { a, b, y: 3 + 2 * a - 0.5 * b };
+});
+
+describe('fitLinearRegression', () => {
+  it('recovers exact coefficients with plain OLS', () => {
+    const model = fitLinearRegression(rows, ['a', 'b'], 'y');
+    expect(model.intercept).toBeCloseTo(3, 6);
+    expect(model.coefficients.a).toBeCloseTo(2, 6);
+    expect(model.coefficients.b).toBeCloseTo(-0.5, 6);
+    expect(predictLinearRegression(model, { a: 4, b: 10 })).toBeCloseTo(6, 6);
+    expect(model.residual_std).toBeCloseTo(0, 6);
+  });
+
+  it('records the residual spread of a noisy fit', () => {
+    const noisy = rows.map((r, i) => ({ ...r, y: r.y + (i % 2 === 0 ? 1 : -1) }));
+    const model = fitLinearRegression(noisy, ['a', 'b'], 'y');
+    expect(model.residual_std).toBeGreaterThan(0.9);
+    expect(model.residual_std).toBeLessThan(1.1);
+  });
+
+  it('shrinks coefficients towards zero with ridge regularization', () => {
+    const ols = fitLinearRegression(rows, ['a', 'b'], 'y');
+    const ridge = fitLinearRegression(rows, ['a', 'b'], 'y', { ridgeAlpha: 100 });
+    expect(Math.abs(ridge.coefficients.a)).toBeLessThan(Math.abs(ols.coefficients.a));
+    expect(Math.abs(ridge.coefficients.b)).toBeLessThan(Math.abs(ols.coefficients.b));
+    expect(ridge.ridge_alpha).toBe(100);
+  });
+
+  it('handles constant and duplicated columns without blowing up', () => {
+    const withDupes = rows.map((r) => ({ ...r, c: 1, a2: r.a }));
+    const model = fitLinearRegression(withDupes, ['a', 'a2', 'b', 'c'], 'y');
+    expect(predictLinearRegression(model, { a: 4, a2: 4, b: 10, c: 1 })).toBeCloseTo(6, 3);
+  });
+
+  it('explains a prediction as coefficient times deviation from the mean', () => {
+    const model = fitLinearRegression(rows, ['a', 'b'], 'y');
+    const { baseline, contributions } = explainLinearRegression(model, { a: 4, b: 10 });
+    expect(baseline + contributions.a + contributions.b).toBeCloseTo(6, 6);
+    expect(contributions.a).toBeCloseTo(2 * (4 - model.feature_means.a), 6);
+  });
+
+  it('rejects an empty dataset', () => {
+    expect(() => fitLinearRegression([], ['a'], 'y')).toThrow();
+  });
+});
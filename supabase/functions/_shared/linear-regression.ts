@@ -0,0 +1,132 @@
+// Ordinary least squares / ridge regression fitted from crops_dataset rows.
+//
+// Features are standardized before solving so the ridge penalty treats every
+// feature equally regardless of its unit; the fitted coefficients are then
+// mapped back to the original feature scale, so prediction is a plain dot product.
+
+import { type FeatureRow, fitScaler } from "./features.ts";
+import type { Attribution } from "./importance.ts";
+
+export interface LinearRegressionModel {
+  features: string[];
+  intercept: number;
+  coefficients: Record<string, number>;
+  ridge_alpha: number;
+  residual_std: number; // Standard deviation of the training residuals, for prediction intervals
+  feature_means: Record<string, number>; // Training means, the reference point for attributions
+}
+
+export interface LinearRegressionOptions {
+  ridgeAlpha?: number; // 0 = plain OLS
+}
+
+export function fitLinearRegression(
+  rows: FeatureRow[],
+  features: string[],
+  target: string,
+  options: LinearRegressionOptions = {},
+): LinearRegressionModel {
+  const ridgeAlpha = options.ridgeAlpha ?? 0;
+  if (rows.length === 0) throw new Error("Cannot fit linear regression on an empty dataset");
+  if (ridgeAlpha < 0) throw new Error("ridgeAlpha must be non-negative");
+
+  const n = rows.length;
+  const p = features.length;
+
+  // Column means and standard deviations
+  const scaler = fitScaler(rows, features, "standard");
+  const means = features.map((f) => scaler.offset[f]);
+  const stds = features.map((f) => scaler.scale[f]);
+  const yMean = rows.reduce((sum, r) => sum + Number(r[target]), 0) / n;
+
+  // Normal equations on standardized data: (ZᵀZ + αI) w = Zᵀ(y - ȳ)
+  const xtx = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+  const xty = new Array<number>(p).fill(0);
+  const z = new Array<number>(p);
+  for (const row of rows) {
+    for (let j = 0; j < p; j++) z[j] = (Number(row[features[j]]) - means[j]) / stds[j];
+    const yCentered = Number(row[target]) - yMean;
+    for (let j = 0; j < p; j++) {
+      xty[j] += z[j] * yCentered;
+      for (let k = j; k < p; k++) xtx[j][k] += z[j] * z[k];
+    }
+  }
+  for (let j = 0; j < p; j++) {
+    for (let k = 0; k < j; k++) xtx[j][k] = xtx[k][j];
+    xtx[j][j] += ridgeAlpha;
+  }
+
+  const weights = solveLinearSystem(xtx, xty);
+
+  // Back to original units
+  const coefficients: Record<string, number> = {};
+  let intercept = yMean;
+  features.forEach((f, j) => {
+    coefficients[f] = weights[j] / stds[j];
+    intercept -= coefficients[f] * means[j];
+  });
+
+  const model: LinearRegressionModel = {
+    features: [...features],
+    intercept,
+    coefficients,
+    ridge_alpha: ridgeAlpha,
+    residual_std: 0,
+    feature_means: Object.fromEntries(features.map((f, j) => [f, means[j]])),
+  };
+  const squaredError = rows.reduce(
+    (sum, r) => sum + Math.pow(Number(r[target]) - predictLinearRegression(model, r), 2),
+    0,
+  );
+  model.residual_std = Math.sqrt(squaredError / Math.max(1, n - p - 1));
+  return model;
+}
+
+export function predictLinearRegression(model: LinearRegressionModel, input: FeatureRow): number {
+  return model.features.reduce(
+    (sum, f) => sum + model.coefficients[f] * Number(input[f]),
+    model.intercept,
+  );
+}
+
+// Coefficient × deviation from the training mean; the baseline is the prediction at the means
+export function explainLinearRegression(model: LinearRegressionModel, input: FeatureRow): Attribution {
+  const contributions: Record<string, number> = {};
+  let baseline = model.intercept;
+  for (const f of model.features) {
+    baseline += model.coefficients[f] * model.feature_means[f];
+    contributions[f] = model.coefficients[f] * (Number(input[f]) - model.feature_means[f]);
+  }
+  return { baseline, contributions };
+}
+
+// Gaussian elimination with partial pivoting. Near-singular systems (perfectly
+// collinear features with ridgeAlpha = 0) get a tiny diagonal jitter and are retried.
+function solveLinearSystem(a: number[][], b: number[], jitter = 0): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row.map((v, j) => (i === j ? v + jitter : v)), b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-10) {
+      if (jitter > 1) throw new Error("Linear system is singular");
+      return solveLinearSystem(a, b, jitter === 0 ? 1e-8 : jitter * 100);
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = col + 1; r < n; r++) {
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = m[r][n];
+    for (let c = r + 1; c < n; c++) sum -= m[r][c] * x[c];
+    x[r] = sum / m[r][r];
+  }
+  return x;
+}
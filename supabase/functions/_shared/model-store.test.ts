@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { type ModelVersion, trainedTogether } from './model-store';
+
+const version = (fields: Partial<ModelVersion<unknown>>) => ({
+  id: 'm', version: 1, crop: null, dataset_id: null, training_job_id: null, ...fields,
+}) as ModelVersion<unknown>;
+
+describe('trainedTogether', () => {
+  it('pairs versions saved by the same training job', () => {
+    const pooled = version({ training_job_id: 'job-1', dataset_id: 'd1' });
+    expect(trainedTogether(version({ crop: 'Rice', training_job_id: 'job-1', dataset_id: 'd1' }), pooled)).toBe(true);
+  });
+
+  it('pairs versions trained on the same dataset version', () => {
+    const pooled = version({ training_job_id: 'job-2', dataset_id: 'd1' });
+    expect(trainedTogether(version({ crop: 'Rice', training_job_id: null, dataset_id: 'd1' }), pooled)).toBe(true);
+  });
+
+  it('does not pair an older per-crop version with a newer pooled one', () => {
+    const pooled = version({ training_job_id: 'job-2', dataset_id: 'd2' });
+    expect(trainedTogether(version({ crop: 'Rice', training_job_id: 'job-1', dataset_id: 'd1' }), pooled)).toBe(false);
+  });
+
+  it('does not pair versions whose dataset version was deleted', () => {
+    expect(trainedTogether(version({ crop: 'Rice' }), version({}))).toBe(false);
+  });
+});
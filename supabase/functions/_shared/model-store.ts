@@ -0,0 +1,151 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { applyScaler, type FeatureRow, type FittedScaler } from "./features.ts";
+import type { FittedImputer } from "./imputation.ts";
+
+export interface ModelRecord<T> {
+  model_name: string;
+  crop: string | null; // Crop the model is specialized for; null for models trained on every crop
+  algorithm: string;
+  hyperparameters: Record<string, unknown>;
+  features: string[];
+  crops: string[]; // Crops seen in training, i.e. the crops the model can predict for
+  parameters: T; // Serialized fitted model
+  scaler: FittedScaler | null; // Fitted on the training rows; null for unscaled versions
+  imputer: FittedImputer | null; // Medians for empty optional inputs; null for versions trained before imputation
+  training_rows: number;
+  dataset_id: string | null; // Dataset version trained on; null once that version is deleted
+  dataset_snapshot: string;
+  training_job_id?: string | null; // Training job and step that saved the version, if any
+  training_step?: string | null;
+}
+
+export interface ModelVersion<T> extends ModelRecord<T> {
+  id: string;
+  version: number; // Assigned by the database, increasing per model_name
+  created_at: string;
+}
+
+// Reference to a model version as recorded on predictions.model_versions
+export interface ModelVersionRef {
+  id: string;
+  version: number;
+  crop: string | null;
+}
+
+const MODEL_COLUMNS =
+  "id, version, created_at, model_name, crop, algorithm, hyperparameters, features, crops, parameters, scaler, imputer, training_rows, dataset_id, dataset_snapshot, training_job_id";
+
+// Store a new version. A version of the same model already saved by the same training job
+// step (by a worker that died before recording the step done) is returned instead.
+export async function saveModel<T>(supabase: SupabaseClient, record: ModelRecord<T>): Promise<ModelVersion<T>> {
+  if (record.training_job_id) {
+    const { data: saved, error: savedError } = await supabase
+      .from("models")
+      .select(MODEL_COLUMNS)
+      .eq("training_job_id", record.training_job_id)
+      .eq("training_step", record.training_step)
+      .eq("model_name", record.model_name)
+      .maybeSingle();
+    if (savedError) throw savedError;
+    if (saved) return saved as ModelVersion<T>;
+  }
+  const { data, error } = await supabase.from("models").insert(record).select(MODEL_COLUMNS).single();
+  if (error) throw error;
+  return data as ModelVersion<T>;
+}
+
+// A specific version of `modelName`, or the latest one when `version` is omitted.
+// `crop` selects a per-crop model; null selects the model trained on every crop.
+// Returns null if no matching model has been trained.
+export async function findModel<T>(
+  supabase: SupabaseClient,
+  modelName: string,
+  version?: number,
+  crop: string | null = null,
+): Promise<ModelVersion<T> | null> {
+  let query = supabase.from("models").select(MODEL_COLUMNS).eq("model_name", modelName);
+  query = crop === null ? query.is("crop", null) : query.eq("crop", crop);
+  query = version === undefined
+    ? query.order("version", { ascending: false }).limit(1)
+    : query.eq("version", version);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  return data as ModelVersion<T> | null;
+}
+
+// Like findModel, but throws if no matching model has been trained
+export async function loadModel<T>(
+  supabase: SupabaseClient,
+  modelName: string,
+  version?: number,
+  crop: string | null = null,
+): Promise<ModelVersion<T>> {
+  const model = await findModel<T>(supabase, modelName, version, crop);
+  if (!model) {
+    const name = crop === null ? modelName : `${crop} ${modelName}`;
+    throw new Error(
+      version === undefined
+        ? `No trained ${name} model found. Generate a dataset first.`
+        : `${name} version ${version} does not exist.`
+    );
+  }
+  return model;
+}
+
+// The versions with the given ids, in that order; throws if any has been deleted
+export async function loadModelsById<T>(supabase: SupabaseClient, ids: string[]): Promise<ModelVersion<T>[]> {
+  const { data, error } = await supabase.from("models").select(MODEL_COLUMNS).in("id", ids);
+  if (error) throw error;
+  return ids.map((id) => {
+    const model = (data as ModelVersion<T>[]).find((m) => m.id === id);
+    if (!model) throw new Error(`Model version ${id} does not exist.`);
+    return model;
+  });
+}
+
+// Put an input on the scale the model version was trained on
+export function scaleInput<T extends FeatureRow>(model: ModelVersion<unknown>, input: T): T {
+  return model.scaler ? applyScaler(model.scaler, input) : input;
+}
+
+// Whether two versions were trained together: by the same training job or on the same dataset version
+export function trainedTogether(a: ModelVersion<unknown>, b: ModelVersion<unknown>): boolean {
+  return (!!a.training_job_id && a.training_job_id === b.training_job_id) ||
+    (a.dataset_id !== null && a.dataset_id === b.dataset_id);
+}
+
+// The crop's own model when one has been trained, otherwise the model trained on every crop;
+// null if neither has been trained. Without a version, the crop's latest model is only used
+// when it was trained together with the latest pooled one: a per-crop model left over from an
+// older training would otherwise keep serving after the pooled model moved on.
+export async function findModelForCrop<T>(
+  supabase: SupabaseClient,
+  modelName: string,
+  crop: string,
+  version?: number,
+): Promise<ModelVersion<T> | null> {
+  if (version !== undefined) {
+    return (await findModel<T>(supabase, modelName, version, crop)) ?? findModel<T>(supabase, modelName, version);
+  }
+  const [own, pooled] = await Promise.all([
+    findModel<T>(supabase, modelName, undefined, crop),
+    findModel<T>(supabase, modelName),
+  ]);
+  if (own && pooled && !trainedTogether(own, pooled)) return pooled;
+  return own ?? pooled;
+}
+
+// Like findModelForCrop, but throws if no matching model has been trained
+export async function loadModelForCrop<T>(
+  supabase: SupabaseClient,
+  modelName: string,
+  crop: string,
+  version?: number,
+): Promise<ModelVersion<T>> {
+  return (await findModelForCrop<T>(supabase, modelName, crop, version)) ?? loadModel<T>(supabase, modelName, version);
+}
+
+export function versionRef(model: ModelVersion<unknown>): ModelVersionRef {
+  return { id: model.id, version: model.version, crop: model.crop };
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { fitNaiveBayes, predictClassProbabilities } from './naive-bayes';
+
+// Rice grows wet and hot, Wheat dry and cool
+const rows = Array.from({ length: 60 }, (_, i) => {
+  const jitter = (i % 7) - 3;
+  return i % 2 === 0
+    ? { temperature: 30 + jitter, rainfall: 1500 + jitter * 40, crop: 'Rice' }
+    : { temperature: 18 + jitter, rainfall: 500 + jitter * 40, crop: 'Wheat' };
+});
+
+describe('naive Bayes crop classifier', () => {
+  const model = fitNaiveBayes(rows, ['temperature', 'rainfall'], 'crop');
+
+  it('ranks the crop whose conditions match best first', () => {
+    const ranked = predictClassProbabilities(model, { temperature: 31, rainfall: 1450 });
+    expect(ranked[0].crop).toBe('Rice');
+    expect(ranked[0].probability).toBeGreaterThan(0.99);
+    expect(predictClassProbabilities(model, { temperature: 17, rainfall: 520 })[0].crop).toBe('Wheat');
+  });
+
+  it('returns a probability distribution over every trained crop', () => {
+    const ranked = predictClassProbabilities(model, { temperature: 24, rainfall: 1000 });
+    expect(ranked.map((r) => r.crop).sort()).toEqual(['Rice', 'Wheat']);
+    expect(ranked.reduce((sum, r) => sum + r.probability, 0)).toBeCloseTo(1, 10);
+  });
+});
@@ -0,0 +1,74 @@
+// Gaussian naive Bayes classifier, used to rank crops by how well the growing
+// conditions match the conditions each crop was observed under in crops_dataset.
+
+import type { FeatureRow } from "./features.ts";
+
+export interface NaiveBayesModel {
+  features: string[];
+  classes: string[];
+  priors: number[]; // P(class)
+  means: number[][]; // [class][feature]
+  variances: number[][]; // [class][feature]
+}
+
+export interface ClassProbability {
+  crop: string;
+  probability: number;
+}
+
+// Added to every variance (relative to the largest feature variance), as in scikit-learn,
+// so a feature that is constant within a class does not produce infinite likelihoods.
+export const VAR_SMOOTHING = 1e-9;
+
+export function fitNaiveBayes(
+  rows: FeatureRow[],
+  features: string[],
+  target: string,
+): NaiveBayesModel {
+  if (rows.length === 0) throw new Error("Cannot fit naive Bayes on an empty dataset");
+
+  const classes = [...new Set(rows.map((r) => String(r[target])))].sort();
+  const byClass = classes.map((c) => rows.filter((r) => String(r[target]) === c));
+
+  const overallVariance = features.map((f) => variance(rows.map((r) => Number(r[f]))));
+  const epsilon = VAR_SMOOTHING * Math.max(...overallVariance, 0);
+
+  return {
+    features: [...features],
+    classes,
+    priors: byClass.map((members) => members.length / rows.length),
+    means: byClass.map((members) => features.map((f) => mean(members.map((r) => Number(r[f]))))),
+    variances: byClass.map((members) =>
+      features.map((f) => variance(members.map((r) => Number(r[f]))) + epsilon)
+    ),
+  };
+}
+
+// Posterior probability of every class, most likely first
+export function predictClassProbabilities(model: NaiveBayesModel, input: FeatureRow): ClassProbability[] {
+  const logPosteriors = model.classes.map((_, c) =>
+    model.features.reduce((sum, f, j) => {
+      const v = model.variances[c][j];
+      const diff = Number(input[f]) - model.means[c][j];
+      return sum - 0.5 * Math.log(2 * Math.PI * v) - (diff * diff) / (2 * v);
+    }, Math.log(model.priors[c]))
+  );
+
+  // Normalize in log space to avoid underflow
+  const maxLog = Math.max(...logPosteriors);
+  const weights = logPosteriors.map((lp) => Math.exp(lp - maxLog));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+
+  return model.classes
+    .map((crop, c) => ({ crop, probability: weights[c] / total }))
+    .sort((a, b) => b.probability - a.probability);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function variance(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) * (v - m), 0) / values.length;
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { assessQuality, DEFAULT_QUALITY_CONFIG, outlierBounds, parseQualityConfig, type QualityConfig } from './quality';
+
+const row = (overrides: Record<string, number | string | null> = {}) => ({
+  crop: 'Wheat',
+  temperature: 25,
+  rainfall: 800,
+  fertilizer: 150,
+  soil_ph: 6.5,
+  humidity: 60,
+  nitrogen: 100,
+  phosphorus: 50,
+  potassium: 80,
+  yield: 3500,
+  ...overrides,
+});
+
+// Twenty ordinary wheat rows with slightly different yields
+const wheat = Array.from({ length: 20 }, (_, i) => row({ yield: 3000 + i * 50 }));
+
+const withHandling = (handling: Partial<QualityConfig['handling']>): QualityConfig => ({
+  ...DEFAULT_QUALITY_CONFIG,
+  handling: { ...DEFAULT_QUALITY_CONFIG.handling, ...handling },
+});
+
+describe('parseQualityConfig', () => {
+  it('fills in defaults', () => {
+    expect(parseQualityConfig({ handling: { outlier: 'cap' } }).value).toEqual(withHandling({ outlier: 'cap' }));
+  });
+
+  it('rejects handlings that do not apply to an issue kind', () => {
+    const { errors } = parseQualityConfig({ outlier_method: 'mad', handling: { duplicate: 'cap' } });
+    expect(errors).toHaveLength(2);
+  });
+});
+
+describe('outlierBounds', () => {
+  it('uses Tukey fences or z-scores', () => {
+    expect(outlierBounds([1, 2, 3, 4, 5], DEFAULT_QUALITY_CONFIG)).toEqual([-1, 7]);
+    const [low, high] = outlierBounds([2, 4, 4, 4, 5, 5, 7, 9], { ...DEFAULT_QUALITY_CONFIG, outlier_method: 'zscore', z_threshold: 2 });
+    expect(low).toBeCloseTo(1);
+    expect(high).toBeCloseTo(9);
+  });
+});
+
+describe('assessQuality', () => {
+  it('flags without changing anything by default', () => {
+    const input = [...wheat, row({ soil_ph: 12 }), row({ nitrogen: null }), wheat[0]];
+    const { report, rows, dropped } = assessQuality(input);
+    expect(rows).toEqual(input);
+    expect(dropped).toEqual([]);
+    expect(report).toMatchObject({ total_rows: 23, kept_rows: 23, duplicate_rows: 1, changed_rows: 0 });
+    expect(report.columns.soil_ph.out_of_range).toBe(1);
+    expect(report.columns.nitrogen.missing).toBe(1);
+  });
+
+  it('drops duplicates and implausible rows', () => {
+    const input = [...wheat, wheat[3], row({ humidity: 5 })];
+    const { report, rows, dropped } = assessQuality(input, withHandling({ duplicate: 'drop', out_of_range: 'drop' }));
+    expect(rows).toHaveLength(20);
+    expect(dropped).toEqual([wheat[3], input[21]]);
+    expect(report.dropped_rows).toBe(2);
+  });
+
+  it('caps implausible values to the plausible range', () => {
+    const { rows, changed } = assessQuality([row({ rainfall: 4000 })], withHandling({ out_of_range: 'cap' }));
+    expect(rows[0].rainfall).toBe(2500);
+    expect(changed).toHaveLength(1);
+  });
+
+  it('detects yield outliers within a crop, not across crops', () => {
+    const sugarcane = Array.from({ length: 20 }, (_, i) => row({ crop: 'Sugarcane', yield: 60000 + i * 100 }));
+    const { report } = assessQuality([...wheat, ...sugarcane]);
+    expect(report.columns.yield.outliers).toBe(0);
+
+    const { report: withOutlier, rows } = assessQuality(
+      [...wheat, row({ yield: 40000 })],
+      withHandling({ outlier: 'impute' }),
+    );
+    expect(withOutlier.columns.yield.outliers).toBe(1);
+    expect(rows[20].yield).toBe(3475); // Median of the ordinary wheat yields
+  });
+
+  it("imputes missing values with the crop's median", () => {
+    const rice = Array.from({ length: 3 }, () => row({ crop: 'Rice', nitrogen: 150 }));
+    const input = [...wheat, ...rice, row({ crop: 'Rice', nitrogen: null }), row({ crop: 'Maize', nitrogen: null })];
+    const { report, rows } = assessQuality(input, withHandling({ missing: 'impute' }));
+    expect(rows[23].nitrogen).toBe(150);
+    expect(rows[24].nitrogen).toBe(100); // No maize values: overall median
+    expect(report.changed_rows).toBe(2);
+  });
+});
@@ -0,0 +1,288 @@
+// Data-quality checks for crops_dataset rows: missing values, implausible values,
+// duplicate rows and statistical outliers. Every kind of issue has a configurable
+// handling; `assessQuality` returns the report together with the handled rows and
+// leaves it to the caller (ingest-dataset, check-dataset-quality) to store them.
+
+import { BASE_FEATURES, type Conditions, FEATURE_CAPS } from "./features.ts";
+import type { Validated } from "./validation.ts";
+
+export type QualityColumn = keyof Conditions | "yield";
+
+export const QUALITY_COLUMNS: QualityColumn[] = [...BASE_FEATURES, "yield"];
+
+// Values a field measurement can plausibly have. INPUT_RANGES only rejects impossible
+// values; these catch unit mix-ups and typos. Temperature and rainfall reuse the caps
+// the feature pipeline applies. Yield has no fixed range (sugarcane yields are ten
+// times cotton's); per-crop outlier detection covers it.
+export const PLAUSIBLE_RANGES: Record<keyof Conditions, [number, number]> = {
+  temperature: FEATURE_CAPS.temperature!, // °C
+  rainfall: FEATURE_CAPS.rainfall!, // mm
+  fertilizer: [0, 500], // kg/ha
+  soil_ph: [4, 9.5],
+  humidity: [10, 100], // %
+  nitrogen: [0, 300], // kg/ha
+  phosphorus: [0, 150], // kg/ha
+  potassium: [0, 250], // kg/ha
+};
+
+export type OutlierMethod = "iqr" | "zscore";
+export type Handling = "flag" | "drop" | "cap" | "impute";
+export type IssueKind = "duplicate" | "out_of_range" | "outlier" | "missing";
+
+// Handlings that make sense for each kind of issue ("flag" only reports it)
+export const HANDLING_OPTIONS = {
+  duplicate: ["flag", "drop"],
+  out_of_range: ["flag", "drop", "cap"],
+  outlier: ["flag", "drop", "cap", "impute"],
+  missing: ["flag", "drop", "impute"],
+} as const satisfies Record<IssueKind, readonly Handling[]>;
+
+export interface QualityConfig {
+  outlier_method: OutlierMethod;
+  iqr_multiplier: number; // Tukey fences at Q1 - k × IQR and Q3 + k × IQR
+  z_threshold: number; // Outlier when |x - mean| > threshold × std
+  handling: { [K in IssueKind]: (typeof HANDLING_OPTIONS)[K][number] };
+}
+
+export const DEFAULT_QUALITY_CONFIG: QualityConfig = {
+  outlier_method: "iqr",
+  iqr_multiplier: 1.5,
+  z_threshold: 3,
+  handling: { duplicate: "flag", out_of_range: "flag", outlier: "flag", missing: "flag" },
+};
+
+// Outliers are judged within a crop; smaller groups are too small to say what is unusual
+export const MIN_OUTLIER_GROUP = 10;
+
+// Issues listed individually in a report (counts always cover all of them)
+export const MAX_REPORTED_ISSUES = 200;
+
+export type QualityRow = { crop: string } & Record<QualityColumn, number | null>;
+
+export interface QualityIssue {
+  row: number; // Index into the assessed rows
+  column: QualityColumn | null; // null for duplicate rows
+  kind: IssueKind;
+  value: number | null;
+  action: Handling;
+  replacement?: number | null; // New value when capped or imputed
+}
+
+export interface ColumnQuality {
+  missing: number;
+  out_of_range: number;
+  outliers: number;
+  plausible_range: [number, number] | null;
+}
+
+export interface QualityReport {
+  config: QualityConfig;
+  total_rows: number;
+  kept_rows: number;
+  dropped_rows: number;
+  changed_rows: number; // Kept rows with a capped or imputed value
+  duplicate_rows: number;
+  issue_count: number;
+  columns: Record<QualityColumn, ColumnQuality>;
+  issues: QualityIssue[]; // The first MAX_REPORTED_ISSUES
+}
+
+export interface QualityResult<T extends QualityRow> {
+  report: QualityReport;
+  rows: T[]; // Kept rows (copies) with capped and imputed values applied
+  dropped: T[]; // Rows removed by a "drop" handling, as given
+  changed: T[]; // The kept rows whose values changed
+}
+
+// Request body -> config; omitted fields (and handlings) take their defaults
+export function parseQualityConfig(raw: Record<string, unknown> = {}): Validated<QualityConfig> {
+  const config: QualityConfig = {
+    outlier_method: (raw.outlier_method as OutlierMethod) ?? DEFAULT_QUALITY_CONFIG.outlier_method,
+    iqr_multiplier: (raw.iqr_multiplier as number) ?? DEFAULT_QUALITY_CONFIG.iqr_multiplier,
+    z_threshold: (raw.z_threshold as number) ?? DEFAULT_QUALITY_CONFIG.z_threshold,
+    handling: {
+      ...DEFAULT_QUALITY_CONFIG.handling,
+      ...(raw.handling as Partial<QualityConfig["handling"]> ?? {}),
+    },
+  };
+
+  const errors: string[] = [];
+  if (config.outlier_method !== "iqr" && config.outlier_method !== "zscore") {
+    errors.push('outlier_method must be "iqr" or "zscore"');
+  }
+  if (!(typeof config.iqr_multiplier === "number" && config.iqr_multiplier > 0)) {
+    errors.push("iqr_multiplier must be a positive number");
+  }
+  if (!(typeof config.z_threshold === "number" && config.z_threshold > 0)) {
+    errors.push("z_threshold must be a positive number");
+  }
+  for (const [kind, handling] of Object.entries(config.handling)) {
+    const options: readonly string[] | undefined = HANDLING_OPTIONS[kind as IssueKind];
+    if (!options) errors.push(`unknown issue kind "${kind}" in handling`);
+    else if (!options.includes(handling)) errors.push(`${kind} handling must be one of: ${options.join(", ")}`);
+  }
+
+  return errors.length > 0 ? { value: null, errors } : { value: config, errors: null };
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  return sorted[lower] + (sorted[Math.ceil(position)] - sorted[lower]) * (position - lower);
+}
+
+function groupByCrop(rows: QualityRow[], indices: number[]): Map<string, number[]> {
+  const groups = new Map<string, number[]>();
+  for (const i of indices) {
+    const group = groups.get(rows[i].crop);
+    if (group) group.push(i);
+    else groups.set(rows[i].crop, [i]);
+  }
+  return groups;
+}
+
+// [low, high] bounds outside which a value of this group is an outlier
+export function outlierBounds(values: number[], config: QualityConfig): [number, number] {
+  if (config.outlier_method === "iqr") {
+    const sorted = [...values].sort((a, b) => a - b);
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const fence = config.iqr_multiplier * (q3 - q1);
+    return [q1 - fence, q3 + fence];
+  }
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+  return [mean - config.z_threshold * std, mean + config.z_threshold * std];
+}
+
+// Checks run in a fixed order, each on the rows the previous ones kept: duplicates,
+// plausible ranges, per-crop outliers (fences from the remaining values), then missing
+// values (imputed with the crop's median once everything else is handled).
+export function assessQuality<T extends QualityRow>(input: T[], config: QualityConfig = DEFAULT_QUALITY_CONFIG): QualityResult<T> {
+  const rows = input.map((r) => ({ ...r }));
+  const dropped = new Set<number>();
+  const changed = new Set<number>();
+  const issues: QualityIssue[] = [];
+  const columns = Object.fromEntries(
+    QUALITY_COLUMNS.map((c) => [
+      c,
+      { missing: 0, out_of_range: 0, outliers: 0, plausible_range: c === "yield" ? null : PLAUSIBLE_RANGES[c] },
+    ])
+  ) as Record<QualityColumn, ColumnQuality>;
+
+  const record = (issue: QualityIssue) => {
+    issues.push(issue);
+    if (issue.action === "drop") dropped.add(issue.row);
+    if (issue.action === "cap" || issue.action === "impute") {
+      rows[issue.row][issue.column!] = issue.replacement as T[QualityColumn];
+      changed.add(issue.row);
+    }
+  };
+  const keptIndices = () => rows.map((_, i) => i).filter((i) => !dropped.has(i));
+
+  // Duplicates: every repeat of an earlier row
+  const seen = new Set<string>();
+  let duplicateRows = 0;
+  for (const [i, row] of rows.entries()) {
+    const key = JSON.stringify([row.crop, ...QUALITY_COLUMNS.map((c) => row[c])]);
+    if (!seen.has(key)) {
+      seen.add(key);
+      continue;
+    }
+    duplicateRows++;
+    record({ row: i, column: null, kind: "duplicate", value: null, action: config.handling.duplicate });
+  }
+
+  // Implausible values
+  for (const i of keptIndices()) {
+    for (const feature of BASE_FEATURES) {
+      const value = rows[i][feature];
+      const [min, max] = PLAUSIBLE_RANGES[feature];
+      if (dropped.has(i) || value === null || (value >= min && value <= max)) continue;
+      columns[feature].out_of_range++;
+      const action = config.handling.out_of_range;
+      record({
+        row: i,
+        column: feature,
+        kind: "out_of_range",
+        value,
+        action,
+        ...(action === "cap" && { replacement: Math.min(max, Math.max(min, value)) }),
+      });
+    }
+  }
+
+  // Outliers, per crop and column
+  for (const column of QUALITY_COLUMNS) {
+    for (const indices of groupByCrop(rows, keptIndices()).values()) {
+      const present = indices.filter((i) => rows[i][column] !== null);
+      if (present.length < MIN_OUTLIER_GROUP) continue;
+      const [low, high] = outlierBounds(present.map((i) => rows[i][column]!), config);
+      const outlying = present.filter((i) => rows[i][column]! < low || rows[i][column]! > high);
+      const outlyingSet = new Set(outlying);
+      const typical = median(present.filter((i) => !outlyingSet.has(i)).map((i) => rows[i][column]!));
+      const action = config.handling.outlier;
+      for (const i of outlying) {
+        const value = rows[i][column]!;
+        columns[column].outliers++;
+        const replacement = action === "cap" ? round2(Math.min(high, Math.max(low, value))) : action === "impute" ? typical : undefined;
+        record({ row: i, column, kind: "outlier", value, action, ...(replacement !== undefined && { replacement }) });
+      }
+    }
+  }
+
+  // Missing values, imputed with the crop's median (the overall median for crops without one)
+  const action = config.handling.missing;
+  for (const column of QUALITY_COLUMNS) {
+    const kept = keptIndices();
+    const missing = kept.filter((i) => rows[i][column] === null);
+    if (missing.length === 0) continue;
+    const present = kept.filter((i) => rows[i][column] !== null);
+    const overall = median(present.map((i) => rows[i][column]!));
+    const cropMedians = new Map(
+      [...groupByCrop(rows, present)].map(([crop, indices]) => [crop, median(indices.map((i) => rows[i][column]!))])
+    );
+    for (const i of missing) {
+      columns[column].missing++;
+      const replacement = cropMedians.get(rows[i].crop) ?? overall;
+      // Nothing to impute from: the value stays missing
+      const handled = action === "impute" && replacement === null ? "flag" : action;
+      record({
+        row: i,
+        column,
+        kind: "missing",
+        value: null,
+        action: handled,
+        ...(handled === "impute" && { replacement: round2(replacement!) }),
+      });
+    }
+  }
+
+  const kept = keptIndices();
+  const changedKept = kept.filter((i) => changed.has(i));
+  return {
+    report: {
+      config,
+      total_rows: input.length,
+      kept_rows: kept.length,
+      dropped_rows: dropped.size,
+      changed_rows: changedKept.length,
+      duplicate_rows: duplicateRows,
+      issue_count: issues.length,
+      columns,
+      issues: issues.slice(0, MAX_REPORTED_ISSUES),
+    },
+    rows: kept.map((i) => rows[i]),
+    dropped: [...dropped].sort((a, b) => a - b).map((i) => input[i]),
+    changed: changedKept.map((i) => rows[i]),
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { explainRandomForest, fitRandomForest, predictRandomForest, predictRandomForestTrees } from './random-forest';
+
+// Step function in `a`, `noise` is irrelevant
+const rows = Array.from({ length: 400 }, (_, i) => {
+  const a = (i * 37) % 100;
+  const noise = (i * 53) % 17;
+  return { a, noise, y: a < 50 ? 100 : 500 };
+});
+const params = { n_estimators: 20, max_depth: 6, min_samples_leaf: 3, max_features: 1, seed: 7 };
+
+describe('fitRandomForest', () => {
+  it('learns a non-linear split', () => {
+    const model = fitRandomForest(rows, ['a', 'noise'], 'y', params);
+    expect(predictRandomForest(model, { a: 10, noise: 5 })).toBeCloseTo(100, 0);
+    expect(predictRandomForest(model, { a: 90, noise: 5 })).toBeCloseTo(500, 0);
+    expect(predictRandomForestTrees(model, { a: 10, noise: 5 })).toHaveLength(20);
+  });
+
+  it('attributes importance to the informative feature', () => {
+    const model = fitRandomForest(rows, ['a', 'noise'], 'y', params);
+    expect(model.feature_importances.a).toBeGreaterThan(0.9);
+    expect(model.feature_importances.a + model.feature_importances.noise).toBeCloseTo(1, 3);
+  });
+
+  it('explains a prediction as baseline plus per-feature contributions', () => {
+    const model = fitRandomForest(rows, ['a', 'noise'], 'y', params);
+    const input = { a: 90, noise: 5 };
+    const { baseline, contributions } = explainRandomForest(model, input);
+    expect(baseline + contributions.a + contributions.noise).toBeCloseTo(predictRandomForest(model, input), 6);
+    expect(contributions.a).toBeGreaterThan(150);
+    expect(Math.abs(contributions.noise)).toBeLessThan(contributions.a / 10);
+  });
+
+  it('is reproducible for a given seed', () => {
+    const first = fitRandomForest(rows, ['a', 'noise'], 'y', { ...params, max_features: 0.5 });
+    const second = fitRandomForest(rows, ['a', 'noise'], 'y', { ...params, max_features: 0.5 });
+    expect(second.trees).toEqual(first.trees);
+  });
+});
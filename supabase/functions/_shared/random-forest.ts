@@ -0,0 +1,124 @@
+// Bagged ensemble of regression trees (Random Forest regressor).
+
+import type { FeatureRow } from "./features.ts";
+import type { Attribution } from "./importance.ts";
+import { createRandom, randomInt } from "./random.ts";
+import {
+  binFeatures,
+  fitRegressionTree,
+  predictTree,
+  type RegressionTree,
+  treeContributions,
+} from "./regression-tree.ts";
+
+export interface RandomForestParams {
+  n_estimators: number;
+  max_depth: number;
+  min_samples_leaf: number;
+  max_features: number; // Fraction of features considered per split
+  seed: number;
+}
+
+// Kept small enough that the serialized forest stays a few MB of JSON
+export const DEFAULT_RANDOM_FOREST_PARAMS: RandomForestParams = {
+  n_estimators: 50,
+  max_depth: 10,
+  min_samples_leaf: 5,
+  max_features: 0.5,
+  seed: 42,
+};
+
+export interface RandomForestModel {
+  features: string[];
+  params: RandomForestParams;
+  trees: RegressionTree[];
+  feature_importances: Record<string, number>; // Mean impurity decrease, sums to 1
+  // RMSE of the out-of-bag predictions (each row predicted by the trees that did not see it);
+  // absent in versions trained before it was recorded
+  residual_std?: number;
+}
+
+export function fitRandomForest(
+  rows: FeatureRow[],
+  features: string[],
+  target: string,
+  params: RandomForestParams = DEFAULT_RANDOM_FOREST_PARAMS,
+): RandomForestModel {
+  if (rows.length === 0) throw new Error("Cannot fit random forest on an empty dataset");
+
+  const random = createRandom(params.seed);
+  const columns = features.map((f) => rows.map((r) => Number(r[f])));
+  const y = rows.map((r) => Number(r[target]));
+  const binned = binFeatures(columns);
+  const importances = new Array<number>(features.length).fill(0);
+  const options = {
+    maxDepth: params.max_depth,
+    minSamplesLeaf: params.min_samples_leaf,
+    maxFeatures: Math.round(params.max_features * features.length),
+  };
+
+  const trees: RegressionTree[] = [];
+  const vectors = rows.map((_, i) => columns.map((column) => column[i]));
+  const oobSums = new Array<number>(rows.length).fill(0);
+  const oobCounts = new Array<number>(rows.length).fill(0);
+  for (let t = 0; t < params.n_estimators; t++) {
+    const bootstrap = Array.from({ length: rows.length }, () => randomInt(random, rows.length));
+    const tree = fitRegressionTree(binned, y, bootstrap, options, random, importances);
+    trees.push(tree);
+
+    const inBag = new Set(bootstrap);
+    for (let i = 0; i < rows.length; i++) {
+      if (inBag.has(i)) continue;
+      oobSums[i] += predictTree(tree, vectors[i]);
+      oobCounts[i]++;
+    }
+  }
+
+  // Rows drawn into every bootstrap sample (rare beyond a handful of trees) are left out
+  let squaredError = 0;
+  let oobRows = 0;
+  for (let i = 0; i < rows.length; i++) {
+    if (oobCounts[i] === 0) continue;
+    squaredError += Math.pow(y[i] - oobSums[i] / oobCounts[i], 2);
+    oobRows++;
+  }
+
+  const totalImportance = importances.reduce((sum, v) => sum + v, 0) || 1;
+  const featureImportances: Record<string, number> = {};
+  features.forEach((f, j) => {
+    featureImportances[f] = parseFloat((importances[j] / totalImportance).toFixed(4));
+  });
+
+  return {
+    features: [...features],
+    params,
+    trees,
+    feature_importances: featureImportances,
+    ...(oobRows > 0 ? { residual_std: Math.sqrt(squaredError / oobRows) } : {}),
+  };
+}
+
+// One prediction per tree; their spread shows how much the ensemble disagrees
+export function predictRandomForestTrees(model: RandomForestModel, input: FeatureRow): number[] {
+  const x = model.features.map((f) => Number(input[f]));
+  return model.trees.map((tree) => predictTree(tree, x));
+}
+
+export function predictRandomForest(model: RandomForestModel, input: FeatureRow): number {
+  const perTree = predictRandomForestTrees(model, input);
+  return perTree.reduce((sum, v) => sum + v, 0) / perTree.length;
+}
+
+// Decision path contributions averaged over the trees; the baseline is the mean root value
+export function explainRandomForest(model: RandomForestModel, input: FeatureRow): Attribution {
+  const x = model.features.map((f) => Number(input[f]));
+  const totals = new Array<number>(model.features.length).fill(0);
+  let baseline = 0;
+  for (const tree of model.trees) baseline += treeContributions(tree, x, totals);
+
+  const contributions: Record<string, number> = {};
+  model.features.forEach((f, j) => {
+    contributions[f] = totals[j] / model.trees.length;
+  });
+  return { baseline: baseline / model.trees.length, contributions };
+}
@@ -0,0 +1,17 @@
+// Seedable pseudo-random number generator (mulberry32), so bootstrap samples and
+// feature subsets are reproducible between training runs.
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Integer in [0, max)
+export function randomInt(random: () => number, max: number): number {
+  return Math.floor(random() * max);
+}
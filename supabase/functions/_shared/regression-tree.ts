@@ -0,0 +1,175 @@
+// CART regression tree (variance reduction) over pre-binned features.
+//
+// Each feature is quantized once into at most `maxBins` quantile bins, so finding
+// the best split at a node is a single histogram pass instead of a sort per node.
+// Trees are stored as flat arrays to keep the serialized artifact compact.
+
+import { randomInt } from "./random.ts";
+
+export interface RegressionTree {
+  feature: number[]; // -1 marks a leaf
+  threshold: number[]; // Go left when x[feature] <= threshold
+  left: number[];
+  right: number[];
+  value: number[]; // Mean target of the samples in the node
+}
+
+export interface TreeOptions {
+  maxDepth: number;
+  minSamplesLeaf: number;
+  maxFeatures: number; // Features considered per split
+}
+
+export interface BinnedFeatures {
+  edges: number[][]; // Per feature, ascending split thresholds
+  bins: Uint8Array[]; // Per feature, per row: number of edges strictly below the value
+}
+
+// `columns` is column-major: columns[feature][row]
+export function binFeatures(columns: number[][], maxBins = 64): BinnedFeatures {
+  const edges = columns.map((values) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const unique = sorted.filter((v, i) => i === 0 || v !== sorted[i - 1]);
+    if (unique.length <= maxBins) {
+      return unique.slice(1).map((v, i) => (unique[i] + v) / 2);
+    }
+    const quantiles: number[] = [];
+    for (let k = 1; k < maxBins; k++) {
+      const q = sorted[Math.floor((k * sorted.length) / maxBins)];
+      if (q < sorted[sorted.length - 1] && q !== quantiles[quantiles.length - 1]) quantiles.push(q);
+    }
+    return quantiles;
+  });
+
+  const bins = columns.map((values, f) => {
+    const featureEdges = edges[f];
+    const out = new Uint8Array(values.length);
+    values.forEach((v, i) => {
+      let lo = 0;
+      let hi = featureEdges.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (featureEdges[mid] < v) lo = mid + 1;
+        else hi = mid;
+      }
+      out[i] = lo;
+    });
+    return out;
+  });
+
+  return { edges, bins };
+}
+
+// Fit a tree on the rows listed in `indices` (duplicates allowed, e.g. a bootstrap sample).
+// Impurity decreases are accumulated into `importances` (one slot per feature) if provided.
+export function fitRegressionTree(
+  data: BinnedFeatures,
+  y: ArrayLike<number>,
+  indices: number[],
+  options: TreeOptions,
+  random: () => number,
+  importances?: number[],
+): RegressionTree {
+  const tree: RegressionTree = { feature: [], threshold: [], left: [], right: [], value: [] };
+  const featureCount = data.edges.length;
+  const featureOrder = Array.from({ length: featureCount }, (_, f) => f);
+  const maxFeatures = Math.max(1, Math.min(featureCount, options.maxFeatures));
+
+  const build = (nodeIndices: number[], depth: number): number => {
+    const node = tree.feature.length;
+    const n = nodeIndices.length;
+    let sum = 0;
+    for (const i of nodeIndices) sum += y[i];
+
+    tree.feature.push(-1);
+    tree.threshold.push(0);
+    tree.left.push(-1);
+    tree.right.push(-1);
+    tree.value.push(round(sum / n));
+
+    if (depth >= options.maxDepth || n < 2 * options.minSamplesLeaf) return node;
+
+    // Random feature subset (partial Fisher-Yates shuffle)
+    for (let k = 0; k < maxFeatures; k++) {
+      const swap = k + randomInt(random, featureCount - k);
+      [featureOrder[k], featureOrder[swap]] = [featureOrder[swap], featureOrder[k]];
+    }
+
+    let bestGain = 1e-9;
+    let bestFeature = -1;
+    let bestBin = -1;
+    const parentScore = (sum * sum) / n;
+
+    for (let k = 0; k < maxFeatures; k++) {
+      const f = featureOrder[k];
+      const binCount = data.edges[f].length + 1;
+      if (binCount < 2) continue;
+      const binSums = new Float64Array(binCount);
+      const binCounts = new Uint32Array(binCount);
+      const featureBins = data.bins[f];
+      for (const i of nodeIndices) {
+        binSums[featureBins[i]] += y[i];
+        binCounts[featureBins[i]]++;
+      }
+
+      let leftSum = 0;
+      let leftCount = 0;
+      for (let b = 0; b < binCount - 1; b++) {
+        leftSum += binSums[b];
+        leftCount += binCounts[b];
+        const rightCount = n - leftCount;
+        if (leftCount < options.minSamplesLeaf) continue;
+        if (rightCount < options.minSamplesLeaf) break;
+        const rightSum = sum - leftSum;
+        // Reduction in squared error: SSE(parent) - SSE(left) - SSE(right)
+        const gain = (leftSum * leftSum) / leftCount + (rightSum * rightSum) / rightCount - parentScore;
+        if (gain > bestGain) {
+          bestGain = gain;
+          bestFeature = f;
+          bestBin = b;
+        }
+      }
+    }
+
+    if (bestFeature === -1) return node;
+    if (importances) importances[bestFeature] += bestGain;
+
+    const splitBins = data.bins[bestFeature];
+    const leftIndices = nodeIndices.filter((i) => splitBins[i] <= bestBin);
+    const rightIndices = nodeIndices.filter((i) => splitBins[i] > bestBin);
+
+    tree.feature[node] = bestFeature;
+    tree.threshold[node] = data.edges[bestFeature][bestBin];
+    tree.left[node] = build(leftIndices, depth + 1);
+    tree.right[node] = build(rightIndices, depth + 1);
+    return node;
+  };
+
+  build(indices, 0);
+  return tree;
+}
+
+export function predictTree(tree: RegressionTree, x: number[]): number {
+  let node = 0;
+  while (tree.feature[node] !== -1) {
+    node = x[tree.feature[node]] <= tree.threshold[node] ? tree.left[node] : tree.right[node];
+  }
+  return tree.value[node];
+}
+
+// Decompose a prediction along its decision path: each split adds the change in node
+// value to the split feature's slot in `contributions`. Returns the root value, so
+// root + sum(contributions) equals predictTree(tree, x).
+export function treeContributions(tree: RegressionTree, x: number[], contributions: number[]): number {
+  let node = 0;
+  while (tree.feature[node] !== -1) {
+    const next = x[tree.feature[node]] <= tree.threshold[node] ? tree.left[node] : tree.right[node];
+    contributions[tree.feature[node]] += tree.value[next] - tree.value[node];
+    node = next;
+  }
+  return tree.value[0];
+}
+
+function round(value: number): number {
+  return Math.round(value * 1e4) / 1e4;
+}
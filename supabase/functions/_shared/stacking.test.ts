@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateModel, regressionMetrics } from './evaluation';
+import { fitLinearRegression, predictLinearRegression } from './linear-regression';
+import { blend, evaluateStacking, fitStackingWeights, stackAttributions, stackOutputs } from './stacking';
+
+const actual = Array.from({ length: 40 }, (_, i) => 10 + i);
+// Errors of opposite sign: each member is off by 4, their average is exact
+const over = actual.map((y, i) => y + (i % 2 === 0 ? 4 : -4));
+const under = actual.map((y, i) => y - (i % 2 === 0 ? 4 : -4));
+
+describe('fitStackingWeights', () => {
+  it('returns non-negative weights summing to 1 that favour the accurate member', () => {
+    const noisy = actual.map((y, i) => y + (i % 3) * 10 - 10);
+    const accurate = actual.map((y, i) => y + (i % 2 === 0 ? 1 : -1));
+    const weights = fitStackingWeights([noisy, accurate], actual);
+    weights.forEach((w) => expect(w).toBeGreaterThanOrEqual(0));
+    expect(weights[0] + weights[1]).toBeCloseTo(1);
+    expect(weights[1]).toBeGreaterThan(0.8);
+  });
+
+  it('blends members with offsetting errors into a better predictor than either', () => {
+    const model = { members: ['over', 'under'], weights: fitStackingWeights([over, under], actual) };
+    expect(model.weights[0]).toBeCloseTo(0.5, 3);
+    const blended = actual.map((_, r) => blend(model, [over[r], under[r]]));
+    expect(regressionMetrics(actual, blended).mae).toBeLessThan(regressionMetrics(actual, over).mae);
+    expect(regressionMetrics(actual, blended).mae).toBeCloseTo(0, 2);
+  });
+});
+
+describe('stacked outputs', () => {
+  const model = { members: ['A', 'B'], weights: [0.25, 0.75] };
+
+  it('blends yields and bounds, and reports the weights', () => {
+    const output = stackOutputs(model, {
+      A: { yield: 100, interval: { lower: 80, upper: 120 }, details: null },
+      B: { yield: 200, interval: { lower: 180, upper: 220 }, details: null },
+    });
+    expect(output).toEqual({ yield: 175, interval: { lower: 155, upper: 195 }, details: { A: 0.25, B: 0.75 } });
+  });
+
+  it('needs every member', () => {
+    expect(stackOutputs(model, { A: { yield: 100, interval: null, details: null } })).toBeNull();
+    expect(stackAttributions(model, { A: { baseline: 1, contributions: {} }, B: null })).toBeNull();
+  });
+
+  it('weights the member attributions', () => {
+    const attribution = stackAttributions(model, {
+      A: { baseline: 100, contributions: { rainfall: 8 } },
+      B: { baseline: 200, contributions: { rainfall: 4, temperature: -4 } },
+    });
+    expect(attribution).toEqual({ baseline: 175, contributions: { rainfall: 5, temperature: -3 } });
+  });
+});
+
+describe('evaluateStacking', () => {
+  it('scores the blend on the members\' split', () => {
+    const rows = Array.from({ length: 60 }, (_, i) => ({ x: i, yield: 3 * i + 5 + (i % 4) }));
+    const fit = (subset: typeof rows) => fitLinearRegression(subset, ['x'], 'yield');
+    const evaluation = evaluateModel(rows, 'yield', fit, predictLinearRegression);
+    const stacking = evaluateStacking(rows, 'yield', [
+      { name: 'Linear Regression', predictions: evaluation.predictions },
+    ]);
+    expect(stacking.model).toEqual({ members: ['Linear Regression'], weights: [1] });
+    expect(stacking.split).toEqual(evaluation.split);
+    expect(stacking.test.r2).toBeCloseTo(evaluation.test.r2);
+    expect(stacking.crossValidation.map((s) => s.r2)).toEqual(
+      evaluation.crossValidation.map((s) => expect.closeTo(s.r2)),
+    );
+  });
+});
@@ -0,0 +1,159 @@
+// Stacked ensemble of the yield models: a weighted average of their predictions. The
+// weights are non-negative, sum to 1 and minimize the squared error of the members'
+// out-of-fold predictions (every row predicted by a model that did not see it), so a
+// member that only fits its training rows well gains no weight.
+
+import {
+  DEFAULT_EVALUATION_OPTIONS,
+  type EvaluationOptions,
+  type HeldOutPredictions,
+  kFoldSplits,
+  type ModelEvaluation,
+  regressionMetrics,
+  trainValidationTestSplit,
+} from "./evaluation.ts";
+import type { FeatureRow } from "./features.ts";
+import type { Attribution } from "./importance.ts";
+import type { ModelVersionRef } from "./model-store.ts";
+import type { ModelOutput } from "./yield-models.ts";
+
+export const STACKED_ENSEMBLE_NAME = "Stacked Ensemble";
+
+export interface StackingModel {
+  members: string[]; // Model names
+  // Per member, the stored version whose predictions the weights were fitted on. Ensembles
+  // saved before these were recorded have none and can no longer be served.
+  member_versions?: ModelVersionRef[];
+  weights: number[]; // Per member, non-negative, summing to 1
+}
+
+const ITERATIONS = 2000;
+
+// Euclidean projection onto { w : w >= 0, sum(w) = 1 } (Duchi et al., 2008)
+function projectToSimplex(v: number[]): number[] {
+  const sorted = [...v].sort((a, b) => b - a);
+  let cumulative = 0;
+  let theta = 0;
+  sorted.forEach((value, k) => {
+    cumulative += value;
+    const candidate = (cumulative - 1) / (k + 1);
+    if (value > candidate) theta = candidate;
+  });
+  return v.map((x) => Math.max(0, x - theta));
+}
+
+// Weights minimizing mean((sum_i w_i * predictions[i][row] - actual[row])^2) on the simplex,
+// by accelerated projected gradient descent. `predictions` holds one array per member.
+export function fitStackingWeights(predictions: number[][], actual: number[]): number[] {
+  const m = predictions.length;
+  const n = actual.length;
+  if (m === 0) throw new Error("Cannot stack an empty set of models");
+
+  // Normal equations scaled by 1/n: gram = XᵀX / n, target = Xᵀy / n
+  const gram = predictions.map((a) => predictions.map((b) => a.reduce((sum, v, r) => sum + v * b[r], 0) / n));
+  const target = predictions.map((a) => a.reduce((sum, v, r) => sum + v * actual[r], 0) / n);
+  const trace = gram.reduce((sum, row, i) => sum + row[i], 0);
+  let weights = new Array<number>(m).fill(1 / m);
+  if (trace === 0) return weights;
+
+  // 2 * trace(gram) bounds the gradient's Lipschitz constant
+  const step = 1 / (2 * trace);
+  let momentum = [...weights];
+  let t = 1;
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const gradient = gram.map((row, i) => 2 * (row.reduce((sum, g, j) => sum + g * momentum[j], 0) - target[i]));
+    const next = projectToSimplex(momentum.map((w, i) => w - step * gradient[i]));
+    const tNext = (1 + Math.sqrt(1 + 4 * t * t)) / 2;
+    momentum = next.map((w, i) => w + ((t - 1) / tNext) * (w - weights[i]));
+    weights = next;
+    t = tNext;
+  }
+  return weights;
+}
+
+// The ensemble's prediction from its members' predictions, in member order
+export function blend(model: StackingModel, memberPredictions: number[]): number {
+  return model.weights.reduce((sum, w, i) => sum + w * memberPredictions[i], 0);
+}
+
+// { <member>: <weight> }
+export function stackingWeights(model: StackingModel): Record<string, number> {
+  return Object.fromEntries(model.members.map((name, i) => [name, model.weights[i]]));
+}
+
+// Learn the weights from the members' evaluations on `rows` and score the blend on the same
+// split. The weights are fitted on the out-of-fold predictions over train + validation, so the
+// validation and cross-validation scores are optimistic; only the test score is fully held out.
+export function evaluateStacking(
+  rows: FeatureRow[],
+  target: string,
+  members: { name: string; predictions: HeldOutPredictions }[],
+  options: EvaluationOptions = DEFAULT_EVALUATION_OPTIONS,
+): ModelEvaluation<StackingModel> {
+  const split = trainValidationTestSplit(rows.length, options);
+  const actual = (indices: number[]) => indices.map((i) => Number(rows[i][target]));
+  const development = [...split.train, ...split.validation];
+  const developmentActual = actual(development);
+
+  const model: StackingModel = {
+    members: members.map((m) => m.name),
+    weights: fitStackingWeights(members.map((m) => m.predictions.outOfFold), developmentActual),
+  };
+  const blended = (pick: (p: HeldOutPredictions) => number[]) =>
+    pick(members[0].predictions).map((_, r) => blend(model, members.map((m) => pick(m.predictions)[r])));
+  const predictions: HeldOutPredictions = {
+    validation: blended((p) => p.validation),
+    outOfFold: blended((p) => p.outOfFold),
+    test: blended((p) => p.test),
+  };
+
+  // The members' folds, recovered from the same seed
+  const positions = Array.from({ length: development.length }, (_, i) => i);
+  const crossValidation = kFoldSplits(positions, options.folds, options.seed).map(({ test }, fold) => ({
+    fold: fold + 1,
+    ...regressionMetrics(test.map((i) => developmentActual[i]), test.map((i) => predictions.outOfFold[i])),
+  }));
+
+  return {
+    model,
+    split: { train: split.train.length, validation: split.validation.length, test: split.test.length },
+    validation: regressionMetrics(actual(split.validation), predictions.validation),
+    crossValidation,
+    test: regressionMetrics(actual(split.test), predictions.test),
+    predictions,
+  };
+}
+
+// The ensemble's output from its members' outputs by model name; null when a member is missing
+export function stackOutputs(model: StackingModel, outputs: Record<string, ModelOutput>): ModelOutput | null {
+  const members = model.members.map((name) => outputs[name]);
+  if (members.some((output) => !output)) return null;
+  const intervals = members.map((output) => output.interval);
+  return {
+    yield: blend(model, members.map((output) => output.yield)),
+    // Weighted bounds of the members: exact when their errors move together, wider otherwise
+    interval: intervals.every((interval) => interval !== null)
+      ? {
+        lower: blend(model, intervals.map((interval) => interval!.lower)),
+        upper: blend(model, intervals.map((interval) => interval!.upper)),
+      }
+      : null,
+    details: stackingWeights(model),
+  };
+}
+
+// Weighted sum of the members' additive attributions; null unless every member has one
+export function stackAttributions(
+  model: StackingModel,
+  attributions: Record<string, Attribution | null>,
+): Attribution | null {
+  const members = model.members.map((name) => attributions[name]);
+  if (members.some((attribution) => !attribution)) return null;
+  const contributions: Record<string, number> = {};
+  members.forEach((attribution, i) => {
+    for (const [feature, value] of Object.entries(attribution!.contributions)) {
+      contributions[feature] = (contributions[feature] ?? 0) + model.weights[i] * value;
+    }
+  });
+  return { baseline: blend(model, members.map((attribution) => attribution!.baseline)), contributions };
+}
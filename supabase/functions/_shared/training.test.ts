@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { isValidRidgeAlpha, MIN_CROP_MODEL_ROWS, planTrainingSteps, stepCrop } from './training';
+
+const rows = (crop: string, count: number) =>
+  Array.from({ length: count }, (_, i) => ({ id: `${crop}-${i}`, crop, yield: 1000 }));
+
+describe('planTrainingSteps', () => {
+  it('trains the pooled models, then each crop with enough rows, then the recommender', () => {
+    const steps = planTrainingSteps([
+      ...rows('Wheat', MIN_CROP_MODEL_ROWS),
+      ...rows('Barley', MIN_CROP_MODEL_ROWS - 1),
+      ...rows('Maize', MIN_CROP_MODEL_ROWS + 50),
+    ]);
+    expect(steps).toEqual(['pooled', 'crop:Maize', 'crop:Wheat', 'recommender']);
+    expect(steps.map(stepCrop)).toEqual([null, 'Maize', 'Wheat', null]);
+  });
+});
+
+describe('isValidRidgeAlpha', () => {
+  it('accepts non-negative finite numbers only', () => {
+    expect([0, 0.5, 100].every(isValidRidgeAlpha)).toBe(true);
+    expect(['1', -1, NaN, Infinity, null].some(isValidRidgeAlpha)).toBe(false);
+  });
+});
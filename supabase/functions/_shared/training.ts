@@ -0,0 +1,231 @@
+// Model training for train-models. A training job trains on one dataset version in steps
+// (see planTrainingSteps), each small enough for a single function invocation: the pooled
+// yield models, the per-crop yield models of each crop and the crop recommender.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { CLASSIFIER_FEATURES, MODEL_FEATURES, type TrainingRow } from "./dataset.ts";
+import {
+  DEFAULT_EVALUATION_OPTIONS,
+  evaluateModel,
+  type HeldOutPredictions,
+  type ModelEvaluation,
+  trainValidationTestSplit,
+} from "./evaluation.ts";
+import { type FeatureRow, predictScaled, type ScalerKind, withScaling } from "./features.ts";
+import { permutationImportance } from "./importance.ts";
+import { fitImputer } from "./imputation.ts";
+import { type ModelVersion, saveModel, versionRef } from "./model-store.ts";
+import { fitNaiveBayes, predictClassProbabilities, VAR_SMOOTHING } from "./naive-bayes.ts";
+import { blend, evaluateStacking, STACKED_ENSEMBLE_NAME } from "./stacking.ts";
+import { YIELD_MODELS } from "./yield-models.ts";
+
+// Crops with fewer rows only get the pooled models (the split leaves ~15% for testing)
+export const MIN_CROP_MODEL_ROWS = 200;
+
+export const POOLED_STEP = "pooled";
+export const RECOMMENDER_STEP = "recommender";
+const CROP_STEP_PREFIX = "crop:";
+
+export interface TrainingOptions {
+  hyperparameters: Record<string, object>; // Overrides of each model's defaults, by model name
+  scalerKind: ScalerKind;
+  datasetId: string;
+  datasetSnapshot: string;
+  jobId: string; // Training job and step the saved versions are tagged with
+  step: string;
+}
+
+// The ridge penalty a training request may override Linear Regression's with (0 = plain OLS)
+export function isValidRidgeAlpha(alpha: unknown): alpha is number {
+  return typeof alpha === "number" && Number.isFinite(alpha) && alpha >= 0;
+}
+
+// The steps of a training job on `rows`: the pooled models over every crop (the fallback
+// for crops without a model of their own), one step per crop with enough rows for models
+// fitted to its own yield range, then the crop recommender
+export function planTrainingSteps(rows: TrainingRow[]): string[] {
+  const counts = new Map<string, number>();
+  for (const row of rows) counts.set(row.crop, (counts.get(row.crop) ?? 0) + 1);
+  const crops = [...counts.keys()].sort().filter((crop) => counts.get(crop)! >= MIN_CROP_MODEL_ROWS);
+  return [POOLED_STEP, ...crops.map((crop) => `${CROP_STEP_PREFIX}${crop}`), RECOMMENDER_STEP];
+}
+
+// The crop a per-crop step trains, or null for the other steps
+export function stepCrop(step: string): string | null {
+  return step.startsWith(CROP_STEP_PREFIX) ? step.slice(CROP_STEP_PREFIX.length) : null;
+}
+
+// Evaluate every registered yield model on `rows`, store a new version of each and of the
+// ensemble stacking them, and return their model_metrics rows. `crop` is null for the pooled models.
+export async function trainYieldModels(
+  supabase: SupabaseClient,
+  rows: FeatureRow[],
+  features: string[],
+  crops: string[],
+  crop: string | null,
+  { hyperparameters, scalerKind, datasetId, datasetSnapshot, jobId, step }: TrainingOptions,
+) {
+  const label = crop ?? "all crops";
+  // Global importances of the final models are measured on the same held-out test rows
+  const testRows = trainValidationTestSplit(rows.length, DEFAULT_EVALUATION_OPTIONS).test.map((i) => rows[i]);
+  // Every model of a run stores the medians predict-yield fills empty NPK inputs with
+  const imputer = fitImputer(rows);
+
+  const versions = [];
+  const metrics = [];
+  const members: { name: string; predictions: HeldOutPredictions; predict: (r: FeatureRow) => number }[] = [];
+  for (const yieldModel of YIELD_MODELS) {
+    const params = { ...yieldModel.defaultParams, ...hyperparameters[yieldModel.name] };
+    console.log(`Evaluating ${yieldModel.name} for ${label} on ${rows.length} rows (${JSON.stringify(params)}, ${scalerKind} scaling)...`);
+    // Numeric features are scaled with a scaler fitted on each training subset; the
+    // 0/1 crop indicators are left as they are.
+    const predict = predictScaled(yieldModel.predict);
+    const evaluation = evaluateModel(
+      rows, "yield",
+      withScaling((subset) => yieldModel.fit(subset, features, "yield", params), MODEL_FEATURES, scalerKind),
+      predict,
+    );
+    const importances = permutationImportance(testRows, features, "yield", (r) => predict(evaluation.model, r));
+
+    // Every run stores a new version of each model, with the scaler its final fit used
+    const { model, scaler } = evaluation.model;
+    const version = await saveModel(supabase, {
+      model_name: yieldModel.name,
+      crop,
+      algorithm: yieldModel.algorithm(params),
+      hyperparameters: params,
+      features,
+      crops,
+      parameters: yieldModel.serialize(model),
+      scaler,
+      imputer,
+      training_rows: evaluation.split.train + evaluation.split.validation,
+      dataset_id: datasetId,
+      dataset_snapshot: datasetSnapshot,
+      training_job_id: jobId,
+      training_step: step,
+    });
+    versions.push(version);
+    metrics.push({
+      ...toMetricsRow(yieldModel.name, evaluation),
+      crop,
+      model_id: version.id,
+      dataset_id: datasetId,
+      permutation_importances: roundValues(importances, 4),
+      // Hyperparameters the stored version was trained with
+      tuned_parameters: params,
+    });
+    members.push({
+      name: yieldModel.name,
+      predictions: evaluation.predictions,
+      predict: (r: FeatureRow) => predict(evaluation.model, r),
+    });
+  }
+
+  // The ensemble's weights come from the members' out-of-fold predictions; at prediction
+  // time it blends the stored member versions above
+  const stacking = evaluateStacking(rows, "yield", members);
+  console.log(`${STACKED_ENSEMBLE_NAME} weights for ${label}: ${JSON.stringify(stacking.model.weights.map((w) => round(w, 4)))}`);
+  const stackingImportances = permutationImportance(
+    testRows, features, "yield", (r) => blend(stacking.model, members.map((m) => m.predict(r))),
+  );
+  const ensembleVersion = await saveModel(supabase, {
+    model_name: STACKED_ENSEMBLE_NAME,
+    crop,
+    algorithm: "stacked_weighted_average",
+    hyperparameters: {},
+    features,
+    crops,
+    // predict-yield blends exactly the member versions saved above, whatever is trained later
+    parameters: { ...stacking.model, member_versions: versions.map(versionRef) },
+    scaler: null,
+    imputer,
+    training_rows: stacking.split.train + stacking.split.validation,
+    dataset_id: datasetId,
+    dataset_snapshot: datasetSnapshot,
+    training_job_id: jobId,
+    training_step: step,
+  });
+  versions.push(ensembleVersion);
+  metrics.push({
+    ...toMetricsRow(STACKED_ENSEMBLE_NAME, stacking),
+    crop,
+    model_id: ensembleVersion.id,
+    dataset_id: datasetId,
+    permutation_importances: roundValues(stackingImportances, 4),
+  });
+
+  return { versions, metrics };
+}
+
+// Crop recommender: fit on train + validation, accuracy on the held-out test rows
+export async function trainCropRecommender(
+  supabase: SupabaseClient,
+  rows: TrainingRow[],
+  { scalerKind, datasetId, datasetSnapshot, jobId, step }: TrainingOptions,
+): Promise<{ version: ModelVersion<unknown>; accuracy: number }> {
+  const split = trainValidationTestSplit(rows.length, DEFAULT_EVALUATION_OPTIONS);
+  const classifier = withScaling(
+    (subset) => fitNaiveBayes(subset, CLASSIFIER_FEATURES, "crop"), CLASSIFIER_FEATURES, scalerKind
+  )([...split.train, ...split.validation].map((i) => rows[i]));
+  const rankCrops = predictScaled(predictClassProbabilities);
+  const correct = split.test.filter(
+    (i) => rankCrops(classifier, rows[i])[0].crop === rows[i].crop
+  ).length;
+  const accuracy = split.test.length > 0 ? correct / split.test.length : 0;
+  console.log(`Crop recommender test accuracy: ${(accuracy * 100).toFixed(1)}%`);
+
+  const version = await saveModel(supabase, {
+    model_name: "Crop Recommender",
+    crop: null,
+    algorithm: "gaussian_naive_bayes",
+    hyperparameters: { var_smoothing: VAR_SMOOTHING },
+    features: classifier.model.features,
+    crops: classifier.model.classes,
+    parameters: classifier.model,
+    scaler: classifier.scaler,
+    imputer: fitImputer(rows),
+    training_rows: split.train.length + split.validation.length,
+    dataset_id: datasetId,
+    dataset_snapshot: datasetSnapshot,
+    training_job_id: jobId,
+    training_step: step,
+  });
+  return { version, accuracy: round(accuracy, 4) };
+}
+
+// Shape a model evaluation into a model_metrics row (test scores as the headline numbers)
+function toMetricsRow(modelName: string, evaluation: ModelEvaluation<unknown>) {
+  const { folds, validationFraction, testFraction } = DEFAULT_EVALUATION_OPTIONS;
+  const cvScores = evaluation.crossValidation.map((s) => s.r2);
+  const cvMean = cvScores.reduce((sum, v) => sum + v, 0) / cvScores.length;
+  const cvStd = Math.sqrt(cvScores.reduce((sum, v) => sum + Math.pow(v - cvMean, 2), 0) / cvScores.length);
+  const trainPercent = Math.round((1 - validationFraction - testFraction) * 100);
+
+  return {
+    model_name: modelName,
+    r2_score: round(evaluation.test.r2, 4),
+    mae: round(evaluation.test.mae, 4),
+    rmse: round(evaluation.test.rmse, 4),
+    evaluation_method:
+      `Train/Validation/Test split ${trainPercent}/${Math.round(validationFraction * 100)}/${Math.round(testFraction * 100)}, ` +
+      `${folds}-fold CV on train+validation, final scores on test`,
+    train_rows: evaluation.split.train,
+    validation_rows: evaluation.split.validation,
+    test_rows: evaluation.split.test,
+    validation_r2: round(evaluation.validation.r2, 4),
+    cv_r2_mean: round(cvMean, 4),
+    cv_r2_std: round(cvStd, 4),
+    cv_fold_scores: evaluation.crossValidation.map((s) => ({
+      fold: s.fold, r2: round(s.r2, 4), mae: round(s.mae, 2), rmse: round(s.rmse, 2),
+    })),
+  };
+}
+
+function round(value: number, digits: number): number {
+  return parseFloat(value.toFixed(digits));
+}
+
+function roundValues(values: Record<string, number>, digits: number): Record<string, number> {
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, round(value, digits)]));
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bestTrial,
+  DEFAULT_TUNING_CONFIG,
+  gridCandidates,
+  parseTuningConfig,
+  promotedFor,
+  randomCandidates,
+  runPendingTrials,
+  runTrials,
+  searchSpaceSize,
+} from './tuning';
+
+const space = { max_depth: [4, 8, 12], min_samples_leaf: [2, 5], bootstrap: [true, false] };
+
+describe('parseTuningConfig', () => {
+  it('fills in defaults', () => {
+    expect(parseTuningConfig({}).value).toEqual(DEFAULT_TUNING_CONFIG);
+  });
+
+  it('rejects unknown strategies and out-of-range counts', () => {
+    const { errors } = parseTuningConfig({ strategy: 'bayes', n_trials: 0, folds: 1 });
+    expect(errors).toHaveLength(3);
+  });
+});
+
+describe('search candidates', () => {
+  it('enumerates every combination of the grid once', () => {
+    const grid = gridCandidates(space);
+    expect(grid).toHaveLength(searchSpaceSize(space));
+    expect(new Set(grid.map((c) => JSON.stringify(c))).size).toBe(12);
+    expect(grid).toContainEqual({ max_depth: 12, min_samples_leaf: 5, bootstrap: false });
+  });
+
+  it('samples distinct combinations reproducibly', () => {
+    const first = randomCandidates(space, 5, 7);
+    expect(new Set(first.map((c) => JSON.stringify(c))).size).toBe(5);
+    expect(randomCandidates(space, 5, 7)).toEqual(first);
+  });
+
+  it('falls back to the whole grid when asked for more trials than it has', () => {
+    expect(randomCandidates(space, 50, 7)).toEqual(gridCandidates(space));
+  });
+});
+
+describe('runTrials', () => {
+  it('summarizes the fold scores of each candidate and picks the best mean R²', () => {
+    const trials = runTrials([{ alpha: 1 }, { alpha: 2 }], ({ alpha }) => [
+      { fold: 1, r2: 0.5 * Number(alpha), mae: 10, rmse: 12 },
+      { fold: 2, r2: 0.3 * Number(alpha), mae: 20, rmse: 22 },
+    ]);
+    expect(trials.map((t) => t.trial)).toEqual([1, 2]);
+    expect(trials[0].cv_r2_mean).toBeCloseTo(0.4);
+    expect(trials[0].cv_r2_std).toBeCloseTo(0.1);
+    expect(trials[0].cv_mae_mean).toBe(15);
+    expect(bestTrial(trials).parameters).toEqual({ alpha: 2 });
+  });
+});
+
+describe('runPendingTrials', () => {
+  const scores = () => [{ fold: 1, r2: 0.5, mae: 10, rmse: 12 }];
+
+  it('skips finished trials and runs at least one even when the budget is spent', async () => {
+    const seen: number[] = [];
+    const ran = await runPendingTrials([{ a: 1 }, { a: 2 }, { a: 3 }], new Set([1]), scores, 0, async (t) => {
+      seen.push(t.trial);
+    });
+    expect(ran).toBe(1);
+    expect(seen).toEqual([2]);
+  });
+
+  it('runs every pending trial within the budget', async () => {
+    const seen: number[] = [];
+    await runPendingTrials([{ a: 1 }, { a: 2 }, { a: 3 }], new Set([2]), scores, 60_000, async (t) => {
+      seen.push(t.trial);
+    });
+    expect(seen).toEqual([1, 3]);
+  });
+});
+
+describe('promotedFor', () => {
+  const promoted = {
+    pooled: { 'Random Forest': { max_depth: 8 } },
+    crops: { Wheat: { 'Random Forest': { max_depth: 4 } } },
+  };
+
+  it('keeps pooled and per-crop tuning apart', () => {
+    expect(promotedFor(promoted, null)).toEqual({ 'Random Forest': { max_depth: 8 } });
+    expect(promotedFor(promoted, 'Wheat')).toEqual({ 'Random Forest': { max_depth: 4 } });
+    expect(promotedFor(promoted, 'Maize')).toEqual({});
+  });
+});
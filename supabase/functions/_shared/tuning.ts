@@ -0,0 +1,187 @@
+// Hyperparameter search. Candidate configurations come from a model's declared search
+// space (every combination, or a seeded random sample of them) and each is scored by
+// k-fold cross-validation. tune-model runs a search as a job, records every trial in
+// tuning_trials and promotes the best one; train-models trains the pooled models and each
+// crop's models with the latest configuration promoted for them.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { FoldScore } from "./evaluation.ts";
+import { createRandom, randomInt } from "./random.ts";
+import type { Validated } from "./validation.ts";
+
+export type ParameterValue = number | string | boolean;
+
+// Candidate values per hyperparameter; parameters left out keep the model's default
+export type ParameterSpace = Record<string, ParameterValue[]>;
+
+export type Candidate = Record<string, ParameterValue>;
+
+export type SearchStrategy = "grid" | "random";
+
+export interface TuningConfig {
+  strategy: SearchStrategy;
+  n_trials: number; // Random search only; grid search tries every combination
+  folds: number;
+  seed: number;
+}
+
+export const DEFAULT_TUNING_CONFIG: TuningConfig = { strategy: "random", n_trials: 20, folds: 5, seed: 42 };
+
+// Longest search, and so longest leaderboard. Trials run in batches over as many function
+// invocations as the search needs (see tune-model).
+export const MAX_TRIALS = 100;
+
+export interface Trial {
+  trial: number; // 1-based, in the order tried
+  parameters: Candidate;
+  fold_scores: FoldScore[];
+  cv_r2_mean: number;
+  cv_r2_std: number;
+  cv_mae_mean: number;
+  cv_rmse_mean: number;
+  duration_ms: number;
+}
+
+export function parseTuningConfig(raw: Record<string, unknown> = {}): Validated<TuningConfig> {
+  const config: TuningConfig = {
+    strategy: (raw.strategy as SearchStrategy) ?? DEFAULT_TUNING_CONFIG.strategy,
+    n_trials: (raw.n_trials as number) ?? DEFAULT_TUNING_CONFIG.n_trials,
+    folds: (raw.folds as number) ?? DEFAULT_TUNING_CONFIG.folds,
+    seed: (raw.seed as number) ?? DEFAULT_TUNING_CONFIG.seed,
+  };
+
+  const errors: string[] = [];
+  if (config.strategy !== "grid" && config.strategy !== "random") {
+    errors.push('strategy must be "grid" or "random"');
+  }
+  if (!(Number.isInteger(config.n_trials) && config.n_trials >= 1 && config.n_trials <= MAX_TRIALS)) {
+    errors.push(`n_trials must be an integer between 1 and ${MAX_TRIALS}`);
+  }
+  if (!(Number.isInteger(config.folds) && config.folds >= 2 && config.folds <= 10)) {
+    errors.push("folds must be an integer between 2 and 10");
+  }
+  if (!Number.isInteger(config.seed)) errors.push("seed must be an integer");
+
+  return errors.length > 0 ? { value: null, errors } : { value: config, errors: null };
+}
+
+export function searchSpaceSize(space: ParameterSpace): number {
+  return Object.values(space).reduce((size, values) => size * values.length, 1);
+}
+
+// The `index`-th combination, counting in mixed radix over the parameters' value lists
+function candidateAt(space: ParameterSpace, index: number): Candidate {
+  const candidate: Candidate = {};
+  let rest = index;
+  for (const [name, values] of Object.entries(space)) {
+    candidate[name] = values[rest % values.length];
+    rest = Math.floor(rest / values.length);
+  }
+  return candidate;
+}
+
+// Every combination of the space
+export function gridCandidates(space: ParameterSpace): Candidate[] {
+  return Array.from({ length: searchSpaceSize(space) }, (_, i) => candidateAt(space, i));
+}
+
+// `count` distinct combinations drawn at random (the whole grid when it is no larger)
+export function randomCandidates(space: ParameterSpace, count: number, seed: number): Candidate[] {
+  const size = searchSpaceSize(space);
+  if (count >= size) return gridCandidates(space);
+  const random = createRandom(seed);
+  const picked = new Set<number>();
+  while (picked.size < count) picked.add(randomInt(random, size));
+  return [...picked].map((i) => candidateAt(space, i));
+}
+
+export function searchCandidates(space: ParameterSpace, config: TuningConfig): Candidate[] {
+  return config.strategy === "grid" ? gridCandidates(space) : randomCandidates(space, config.n_trials, config.seed);
+}
+
+// Score one candidate, summarizing its fold scores and timing it
+export function runTrial(
+  trial: number,
+  parameters: Candidate,
+  crossValidate: (candidate: Candidate) => FoldScore[],
+): Trial {
+  const started = performance.now();
+  const foldScores = crossValidate(parameters);
+  const duration = performance.now() - started;
+  const mean = (pick: (s: FoldScore) => number) => foldScores.reduce((sum, s) => sum + pick(s), 0) / foldScores.length;
+  const r2Mean = mean((s) => s.r2);
+  return {
+    trial,
+    parameters,
+    fold_scores: foldScores,
+    cv_r2_mean: r2Mean,
+    cv_r2_std: Math.sqrt(mean((s) => Math.pow(s.r2 - r2Mean, 2))),
+    cv_mae_mean: mean((s) => s.mae),
+    cv_rmse_mean: mean((s) => s.rmse),
+    duration_ms: Math.round(duration),
+  };
+}
+
+// Score every candidate in turn
+export function runTrials(candidates: Candidate[], crossValidate: (candidate: Candidate) => FoldScore[]): Trial[] {
+  return candidates.map((parameters, i) => runTrial(i + 1, parameters, crossValidate));
+}
+
+// The trials of `candidates` (all of a search's, in trial order) not in `done`, run in turn
+// until `budgetMs` is spent. At least one runs, so a search always advances; `onTrial` sees
+// each as it finishes.
+export async function runPendingTrials(
+  candidates: Candidate[],
+  done: Set<number>,
+  crossValidate: (candidate: Candidate) => FoldScore[],
+  budgetMs: number,
+  onTrial: (trial: Trial) => Promise<void>,
+): Promise<number> {
+  const started = performance.now();
+  let ran = 0;
+  for (const [i, parameters] of candidates.entries()) {
+    if (done.has(i + 1)) continue;
+    if (ran > 0 && performance.now() - started >= budgetMs) break;
+    await onTrial(runTrial(i + 1, parameters, crossValidate));
+    ran++;
+  }
+  return ran;
+}
+
+// Highest mean cross-validated R²; the earlier trial on ties
+export function bestTrial<T extends Pick<Trial, "trial" | "cv_r2_mean">>(trials: T[]): T {
+  if (trials.length === 0) throw new Error("No trials to choose from");
+  return trials.reduce((best, t) =>
+    t.cv_r2_mean > best.cv_r2_mean || (t.cv_r2_mean === best.cv_r2_mean && t.trial < best.trial) ? t : best
+  );
+}
+
+// Latest promoted configuration per model name, for the pooled models and for each crop's
+// own models. Every search is tuned on the rows of one crop, or of all of them.
+export interface PromotedParameters {
+  pooled: Record<string, Candidate>;
+  crops: Record<string, Record<string, Candidate>>;
+}
+
+export async function loadPromotedParameters(supabase: SupabaseClient): Promise<PromotedParameters> {
+  const { data, error } = await supabase
+    .from("tuning_trials")
+    .select("parameters, tuning_runs!inner(model_name, crop)")
+    .eq("promoted", true)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+
+  const promoted: PromotedParameters = { pooled: {}, crops: {} };
+  for (const row of data ?? []) {
+    const { model_name: modelName, crop } = row.tuning_runs as { model_name: string; crop: string | null };
+    const scope = crop === null ? promoted.pooled : (promoted.crops[crop] ??= {});
+    scope[modelName] ??= row.parameters;
+  }
+  return promoted;
+}
+
+// The promoted configurations for the pooled models (crop null) or one crop's models. A crop's
+// models never reuse parameters tuned on the pooled rows, whose yield range differs.
+export function promotedFor(promoted: PromotedParameters, crop: string | null): Record<string, Candidate> {
+  return crop === null ? promoted.pooled : promoted.crops[crop] ?? {};
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { validateConditions, validateObservation, validatePredictionInput } from './validation';
+
+const valid = {
+  crop: 'wheat', temperature: 22, rainfall: 650, fertilizer: 120, soil_ph: 6.5,
+  humidity: 60, nitrogen: 80, phosphorus: 40, potassium: 40,
+};
+
+describe('validatePredictionInput', () => {
+  it('accepts a complete input', () => {
+    expect(validatePredictionInput(valid)).toEqual({ value: valid, errors: null });
+  });
+
+  it('parses numeric strings from CSV cells and trims the crop', () => {
+    const { value } = validatePredictionInput({ ...valid, crop: ' rice ', rainfall: '1200.5' });
+    expect(value?.crop).toBe('rice');
+    expect(value?.rainfall).toBe(1200.5);
+  });
+
+  it('leaves missing NPK empty rather than guessing', () => {
+    const { value } = validatePredictionInput({ ...valid, nitrogen: '', phosphorus: null, potassium: undefined });
+    expect(value).toMatchObject({ nitrogen: null, phosphorus: null, potassium: null });
+  });
+
+  it('reports every problem at once', () => {
+    const { value, errors } = validatePredictionInput({
+      ...valid, crop: '', temperature: undefined, soil_ph: 15, humidity: 'wet', rainfall: -1,
+    });
+    expect(value).toBeNull();
+    expect(errors).toEqual([
+      'A target crop is required.',
+      'temperature is required',
+      'rainfall must be at least 0',
+      'soil_ph must be between 0 and 14',
+      'humidity must be a number',
+    ]);
+  });
+});
+
+describe('validateConditions', () => {
+  it('ignores the crop', () => {
+    const { crop: _crop, ...conditions } = valid;
+    expect(validateConditions(conditions).errors).toBeNull();
+  });
+});
+
+describe('validateObservation', () => {
+  it('requires a non-negative yield', () => {
+    expect(validateObservation({ ...valid, yield: '3200.5' }).value?.yield).toBe(3200.5);
+    expect(validateObservation(valid).errors).toEqual(['yield is required']);
+    expect(validateObservation({ ...valid, yield: -1 }).errors).toEqual(['yield must be at least 0']);
+    expect(validateObservation({ ...valid, yield: 'lots' }).errors).toEqual(['yield must be a number']);
+  });
+});
@@ -0,0 +1,84 @@
+// Validation of growing-condition inputs coming from outside the app's own form
+// (batch predictions, uploaded field observations). Ranges mirror predictionFormSchema in PredictionForm.
+
+import type { Conditions } from "./features.ts";
+
+export interface InputRange {
+  min: number;
+  max?: number;
+  optional?: boolean; // May be left empty (null); predict-yield imputes it from training data
+}
+
+export const INPUT_RANGES: Record<keyof Conditions, InputRange> = {
+  temperature: { min: -50, max: 60 },
+  rainfall: { min: 0 },
+  fertilizer: { min: 0 },
+  soil_ph: { min: 0, max: 14 },
+  humidity: { min: 0, max: 100 },
+  nitrogen: { min: 0, optional: true },
+  phosphorus: { min: 0, optional: true },
+  potassium: { min: 0, optional: true },
+};
+
+// Conditions as submitted: optional measurements that were left empty are null
+export type ObservedConditions = Record<keyof Conditions, number | null>;
+
+export interface PredictionInput extends ObservedConditions {
+  crop: string;
+}
+
+// A real harvest record for crops_dataset
+export interface Observation extends PredictionInput {
+  yield: number; // kg/ha
+}
+
+export type Validated<T> = { value: T; errors: null } | { value: null; errors: string[] };
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+// Numbers may arrive as strings (CSV cells); anything else non-numeric is an error
+export function validateConditions(raw: Record<string, unknown>): Validated<ObservedConditions> {
+  const errors: string[] = [];
+  const conditions = {} as ObservedConditions;
+
+  for (const [feature, range] of Object.entries(INPUT_RANGES) as [keyof Conditions, InputRange][]) {
+    const value = raw[feature];
+    if (isBlank(value)) {
+      if (range.optional) conditions[feature] = null;
+      else errors.push(`${feature} is required`);
+      continue;
+    }
+    const number = typeof value === "number" ? value : typeof value === "string" ? Number(value) : NaN;
+    if (!Number.isFinite(number)) {
+      errors.push(`${feature} must be a number`);
+    } else if (number < range.min || (range.max !== undefined && number > range.max)) {
+      errors.push(`${feature} must be ${range.max === undefined ? `at least ${range.min}` : `between ${range.min} and ${range.max}`}`);
+    } else {
+      conditions[feature] = number;
+    }
+  }
+
+  return errors.length > 0 ? { value: null, errors } : { value: conditions, errors: null };
+}
+
+export function validatePredictionInput(raw: Record<string, unknown>): Validated<PredictionInput> {
+  const crop = typeof raw.crop === "string" ? raw.crop.trim() : "";
+  const conditions = validateConditions(raw);
+  const errors = [...(crop === "" ? ["A target crop is required."] : []), ...(conditions.errors ?? [])];
+  if (errors.length > 0) return { value: null, errors };
+  return { value: { crop, ...conditions.value! }, errors: null };
+}
+
+export function validateObservation(raw: Record<string, unknown>): Validated<Observation> {
+  const input = validatePredictionInput(raw);
+  const errors = [...(input.errors ?? [])];
+  const value = raw.yield;
+  const yieldValue = typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+  if (isBlank(value)) errors.push("yield is required");
+  else if (!Number.isFinite(yieldValue)) errors.push("yield must be a number");
+  else if (yieldValue < 0) errors.push("yield must be at least 0");
+  if (errors.length > 0) return { value: null, errors };
+  return { value: { ...input.value!, yield: yieldValue }, errors: null };
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { gradientBoosting, linearRegression, randomForest, trainedYieldModels, YIELD_MODELS } from './yield-models';
+
+// Linear in `a` with a little deterministic noise
+const rows = Array.from({ length: 200 }, (_, i) => {
+  const a = (i * 37) % 100;
+  const b = (i * 53) % 17;
+  return { a, b, y: 10 * a + 50 + ((i * 7) % 5) - 2 };
+});
+const features = ['a', 'b'];
+
+describe('YIELD_MODELS', () => {
+  it('registers each model under a distinct name', () => {
+    const names = YIELD_MODELS.map((m) => m.name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('fits, serializes and serves every model through the common interface', () => {
+    for (const yieldModel of YIELD_MODELS) {
+      const model = yieldModel.fit(rows, features, 'y', yieldModel.defaultParams);
+      const restored = yieldModel.deserialize(JSON.parse(JSON.stringify(yieldModel.serialize(model))));
+      const input = { a: 40, b: 3 };
+      const output = yieldModel.predictOutput(restored, input, 0.9);
+      expect(output.yield).toBeCloseTo(yieldModel.predict(model, input), 6);
+      expect(output.interval!.lower).toBeLessThanOrEqual(output.yield);
+      expect(output.interval!.upper).toBeGreaterThanOrEqual(output.yield);
+    }
+  });
+});
+
+describe('linearRegression', () => {
+  it('names the algorithm after the ridge penalty', () => {
+    expect(linearRegression.algorithm({ ridge_alpha: 0 })).toBe('ols');
+    expect(linearRegression.algorithm({ ridge_alpha: 1 })).toBe('ridge');
+  });
+
+  it('has no interval for versions stored without a residual spread', () => {
+    const model = linearRegression.fit(rows, features, 'y', { ridge_alpha: 0 });
+    const legacy = linearRegression.deserialize({ ...model, residual_std: undefined });
+    expect(linearRegression.predictOutput(legacy, { a: 40, b: 3 }, 0.9).interval).toBeNull();
+  });
+});
+
+describe('randomForest', () => {
+  it('reports the spread of its trees and its own importances', () => {
+    const params = { ...randomForest.defaultParams, n_estimators: 10 };
+    const model = randomForest.fit(rows, features, 'y', params);
+    const { details } = randomForest.predictOutput(model, { a: 40, b: 3 }, 0.9);
+    expect(details!.min).toBeLessThanOrEqual(details!.max);
+    expect(details!.std).toBeGreaterThanOrEqual(0);
+    expect(randomForest.importances(model)!.a).toBeGreaterThan(0.9);
+  });
+});
+
+describe('prediction intervals', () => {
+  // Linear in `a` with noise that trees cannot fit away: a 90% interval must cover the
+  // noise as well as the model's own uncertainty
+  const noisy = Array.from({ length: 600 }, (_, i) => {
+    const a = (i * 37) % 100;
+    const b = (i * 53) % 17;
+    return { a, b, y: 10 * a + 50 + ((i * 7919) % 201) - 100 };
+  });
+  const [train, heldOut] = [noisy.slice(0, 450), noisy.slice(450)];
+
+  it('covers about the requested share of held-out rows', () => {
+    for (const yieldModel of [linearRegression, randomForest]) {
+      const model = yieldModel.fit(train, features, 'y', yieldModel.defaultParams);
+      const covered = heldOut.filter((row) => {
+        const { interval } = yieldModel.predictOutput(model, row, 0.9);
+        return interval!.lower <= row.y && row.y <= interval!.upper;
+      }).length / heldOut.length;
+      expect(covered, yieldModel.name).toBeGreaterThan(0.8);
+      expect(covered, yieldModel.name).toBeLessThan(0.99);
+    }
+  });
+
+  it('falls back to the spread of the trees for forests stored without a residual spread', () => {
+    const model = randomForest.fit(train, features, 'y', { ...randomForest.defaultParams, n_estimators: 10 });
+    const legacy = randomForest.deserialize({ ...model, residual_std: undefined });
+    const { interval } = randomForest.predictOutput(legacy, { a: 40, b: 3 }, 0.9);
+    expect(interval!.upper - interval!.lower).toBeLessThan(
+      randomForest.predictOutput(model, { a: 40, b: 3 }, 0.9).interval!.upper -
+        randomForest.predictOutput(model, { a: 40, b: 3 }, 0.9).interval!.lower,
+    );
+  });
+});
+
+describe('trainedYieldModels', () => {
+  it('skips registered models that have no trained version yet', async () => {
+    const served = await trainedYieldModels(async (spec) => (spec === randomForest ? null : `${spec.name} v1`));
+    expect(served.map((m) => m.spec.name)).toEqual(
+      YIELD_MODELS.filter((m) => m !== randomForest).map((m) => m.name),
+    );
+    expect(served[0].version).toBe(`${linearRegression.name} v1`);
+  });
+
+  it('serves databases trained before Gradient Boosting was registered', async () => {
+    const trainedBefore = [linearRegression.name, randomForest.name];
+    const served = await trainedYieldModels(async (spec) => (trainedBefore.includes(spec.name) ? { id: spec.name } : null));
+    expect(served.map((m) => m.spec)).toEqual([linearRegression, randomForest]);
+    expect(served.map((m) => m.spec)).not.toContain(gradientBoosting);
+  });
+
+  it('fails when no yield model has been trained', async () => {
+    await expect(trainedYieldModels(async () => null)).rejects.toThrow('No trained yield model found');
+  });
+});
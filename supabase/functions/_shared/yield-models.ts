@@ -0,0 +1,158 @@
+// Registry of the yield regression models. train-models trains, evaluates and stores
+// every entry of YIELD_MODELS, predict-yield serves each of them and stores one
+// prediction_outputs row per model, and tune-model searches each model's searchSpace,
+// so a new algorithm only needs an entry here.
+
+import type { FeatureRow } from "./features.ts";
+import {
+  DEFAULT_GRADIENT_BOOSTING_PARAMS,
+  explainGradientBoosting,
+  fitGradientBoosting,
+  type GradientBoostingModel,
+  type GradientBoostingParams,
+  predictGradientBoosting,
+} from "./gradient-boosting.ts";
+import type { Attribution } from "./importance.ts";
+import { normalInterval, type PredictionInterval, quantileInterval } from "./intervals.ts";
+import {
+  explainLinearRegression,
+  fitLinearRegression,
+  type LinearRegressionModel,
+  predictLinearRegression,
+} from "./linear-regression.ts";
+import {
+  DEFAULT_RANDOM_FOREST_PARAMS,
+  explainRandomForest,
+  fitRandomForest,
+  predictRandomForest,
+  predictRandomForestTrees,
+  type RandomForestModel,
+  type RandomForestParams,
+} from "./random-forest.ts";
+import type { ParameterSpace } from "./tuning.ts";
+
+// One model's estimate for one input, before rounding and clipping at 0
+export interface ModelOutput {
+  yield: number;
+  interval: PredictionInterval | null; // null when the stored version lacks what the interval needs
+  details: Record<string, number> | null; // Algorithm-specific diagnostics, e.g. the spread of a forest's trees
+}
+
+export interface YieldModel<M, P extends object = object> {
+  name: string; // model_name in models, model_metrics and prediction_outputs
+  defaultParams: P;
+  searchSpace: ParameterSpace; // Values tune-model tries for each tunable hyperparameter
+  algorithm(params: P): string; // models.algorithm
+  fit(rows: FeatureRow[], features: string[], target: string, params: P): M;
+  predict(model: M, input: FeatureRow): number;
+  predictOutput(model: M, input: FeatureRow, confidenceLevel: number): ModelOutput;
+  explain(model: M, input: FeatureRow): Attribution | null; // null when the version cannot be explained
+  importances(model: M): Record<string, number> | null; // Importances the fit produces itself, if any
+  serialize(model: M): unknown; // Stored as models.parameters
+  deserialize(parameters: unknown): M;
+}
+
+export interface LinearRegressionParams {
+  ridge_alpha: number; // 0 = plain OLS
+}
+
+export const linearRegression: YieldModel<LinearRegressionModel, LinearRegressionParams> = {
+  name: "Linear Regression",
+  defaultParams: { ridge_alpha: 0 },
+  searchSpace: { ridge_alpha: [0, 0.01, 0.1, 1, 10, 100] },
+  algorithm: (params) => (params.ridge_alpha > 0 ? "ridge" : "ols"),
+  fit: (rows, features, target, params) => fitLinearRegression(rows, features, target, { ridgeAlpha: params.ridge_alpha }),
+  predict: predictLinearRegression,
+  predictOutput: (model, input, confidenceLevel) => {
+    const value = predictLinearRegression(model, input);
+    return {
+      yield: value,
+      // Versions trained before residual_std was recorded have no interval
+      interval: model.residual_std === undefined ? null : normalInterval(value, model.residual_std, confidenceLevel),
+      details: null,
+    };
+  },
+  // Versions trained before feature_means was recorded have no reference point
+  explain: (model, input) => (model.feature_means ? explainLinearRegression(model, input) : null),
+  importances: () => null,
+  serialize: (model) => model,
+  deserialize: (parameters) => parameters as LinearRegressionModel,
+};
+
+export const randomForest: YieldModel<RandomForestModel, RandomForestParams> = {
+  name: "Random Forest",
+  defaultParams: DEFAULT_RANDOM_FOREST_PARAMS,
+  searchSpace: {
+    n_estimators: [25, 50, 100],
+    max_depth: [6, 10, 14],
+    min_samples_leaf: [2, 5, 10],
+    max_features: [0.33, 0.5, 0.8],
+  },
+  algorithm: () => "random_forest",
+  fit: fitRandomForest,
+  predict: predictRandomForest,
+  predictOutput: (model, input, confidenceLevel) => {
+    // Average of the per-tree predictions; their spread shows how much the trees disagree.
+    // That spread leaves out the noise around each leaf, so the interval comes from the
+    // out-of-bag residuals instead; versions trained before they were recorded fall back to it.
+    const trees = predictRandomForestTrees(model, input);
+    const mean = trees.reduce((sum, v) => sum + v, 0) / trees.length;
+    const std = Math.sqrt(trees.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / trees.length);
+    return {
+      yield: mean,
+      interval: model.residual_std === undefined
+        ? quantileInterval(trees, confidenceLevel)
+        : normalInterval(mean, model.residual_std, confidenceLevel),
+      details: { std, min: Math.min(...trees), max: Math.max(...trees) },
+    };
+  },
+  explain: explainRandomForest,
+  importances: (model) => model.feature_importances,
+  serialize: (model) => model,
+  deserialize: (parameters) => parameters as RandomForestModel,
+};
+
+export const gradientBoosting: YieldModel<GradientBoostingModel, GradientBoostingParams> = {
+  name: "Gradient Boosting",
+  defaultParams: DEFAULT_GRADIENT_BOOSTING_PARAMS,
+  searchSpace: {
+    learning_rate: [0.03, 0.1, 0.3],
+    max_depth: [2, 3, 4, 5],
+    min_samples_leaf: [5, 10, 20],
+    subsample: [0.6, 0.8, 1],
+  },
+  algorithm: () => "gradient_boosting",
+  fit: fitGradientBoosting,
+  predict: predictGradientBoosting,
+  predictOutput: (model, input, confidenceLevel) => {
+    const value = predictGradientBoosting(model, input);
+    return {
+      yield: value,
+      interval: normalInterval(value, model.residual_std, confidenceLevel),
+      details: { rounds: model.trees.length }, // Boosting rounds kept by early stopping
+    };
+  },
+  explain: explainGradientBoosting,
+  importances: (model) => model.feature_importances,
+  serialize: (model) => model,
+  deserialize: (parameters) => parameters as GradientBoostingModel,
+};
+
+// Trained and served in this order; the first is the fallback best model when no metrics decide
+export const YIELD_MODELS: YieldModel<unknown>[] = [linearRegression, randomForest, gradientBoosting];
+
+// The registered models that have a trained version, each with that version (looked up by
+// `find`, null when there is none). A model registered since the last training run is left
+// out until the next run; only a database without any trained yield model is an error.
+export async function trainedYieldModels<V>(
+  find: (spec: YieldModel<unknown>) => Promise<V | null>,
+): Promise<{ spec: YieldModel<unknown>; version: V }[]> {
+  const versions: (V | null)[] = await Promise.all(YIELD_MODELS.map(find));
+  const trained: { spec: YieldModel<unknown>; version: V }[] = [];
+  YIELD_MODELS.forEach((spec, i) => {
+    const version = versions[i];
+    if (version !== null) trained.push({ spec, version });
+  });
+  if (trained.length === 0) throw new Error("No trained yield model found. Generate a dataset first.");
+  return trained;
+}
@@ -0,0 +1,185 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { datasetFeatureValues } from "../_shared/dataset.ts";
+import { createDataset, type Dataset, datasetRef, loadDataset } from "../_shared/datasets.ts";
+import { BASE_FEATURES } from "../_shared/features.ts";
+import { assessQuality, parseQualityConfig, type QualityRow } from "../_shared/quality.ts";
+
+const PAGE_SIZE = 1000; // PostgREST caps responses at 1000 rows by default
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type DatasetRow = QualityRow & { id: string };
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Checks every row of `dataset_id` (default: the active version). Without `apply` the
+    // handling is only previewed; with it, the kept rows, with capped or imputed values, are
+    // copied into a new version. Either way the report is stored.
+    const { dataset_id: datasetId, config: rawConfig = {}, apply = false } = await req.json();
+
+    const quality = parseQualityConfig(rawConfig ?? {});
+    if (quality.errors) {
+      return errorResponse(`Invalid quality config: ${quality.errors.join("; ")}`, 400);
+    }
+
+    let dataset: Dataset;
+    try {
+      dataset = await loadDataset(supabase, datasetId);
+    } catch (error) {
+      return errorResponse(error instanceof Error ? error.message : String(error), 400);
+    }
+
+    const rows = await fetchDatasetRows(supabase, dataset.id);
+    const assessed = assessQuality(rows, quality.value);
+    const { dropped, changed } = assessed;
+    // Rows are identified by id: positions mean nothing once rows are deleted
+    const report = {
+      ...assessed.report,
+      issues: assessed.report.issues.map((issue) => ({ ...issue, row_id: rows[issue.row].id })),
+    };
+    console.log(
+      `Quality check of ${dataset.name} v${dataset.version}: ${report.issue_count} issues in ${report.total_rows} rows`
+    );
+
+    // Dataset versions do not change once models may have been trained on them, so the
+    // handling goes into a new, inactive version of the same name
+    let cleaned: Dataset | null = null;
+    if (apply) {
+      cleaned = await createDataset(supabase, dataset.name, `Quality handling applied to v${dataset.version}`, false);
+      try {
+        const kept = await copyCleanedRows(supabase, dataset.id, cleaned.id, dropped, changed);
+        console.log(`Applied: ${kept} rows stored in v${cleaned.version} (${dropped.length} dropped, ${changed.length} corrected)`);
+      } catch (error) {
+        await removeVersion(supabase, cleaned.id);
+        throw error;
+      }
+    }
+
+    // Stored against the checked version, whose rows the issues refer to
+    const { data: stored, error: reportError } = await supabase
+      .from("data_quality_reports")
+      .insert({ ...report, dataset_id: dataset.id, applied: apply })
+      .select("id")
+      .single();
+    if (reportError) {
+      if (cleaned) await removeVersion(supabase, cleaned.id);
+      throw reportError;
+    }
+
+    return new Response(
+      JSON.stringify({
+        report_id: stored.id,
+        dataset: datasetRef(dataset),
+        applied: apply,
+        cleaned_dataset: cleaned && datasetRef(cleaned),
+        report,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return errorResponse(error instanceof Error ? error.message : "Unknown error", 500);
+  }
+});
+
+// Every row of the version, base values and yield as numbers (missing values stay null)
+async function fetchDatasetRows(supabase: SupabaseClient, datasetId: string): Promise<DatasetRow[]> {
+  const rows: DatasetRow[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("crops_dataset")
+      .select(["id", "crop", "yield", ...BASE_FEATURES].join(","))
+      .eq("dataset_id", datasetId)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    const page = (data ?? []) as unknown as Record<string, number | string | null>[];
+    for (const record of page) {
+      const row = { id: String(record.id), crop: String(record.crop) } as DatasetRow;
+      for (const column of [...BASE_FEATURES, "yield"] as const) {
+        row[column] = record[column] === null ? null : Number(record[column]);
+      }
+      rows.push(row);
+    }
+    if (page.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+// Copy every row of the source version into the target except the dropped ones, with the
+// corrected values of the changed ones (engineered features are recomputed from them).
+// Source, import and generation links are kept. Returns the number of rows copied.
+async function copyCleanedRows(
+  supabase: SupabaseClient,
+  sourceId: string,
+  targetId: string,
+  dropped: DatasetRow[],
+  changed: DatasetRow[],
+): Promise<number> {
+  const droppedIds = new Set(dropped.map((r) => r.id));
+  const corrections = new Map(
+    changed.map(({ id, crop, yield: yieldValue, ...conditions }) => [
+      id,
+      { crop, yield: yieldValue, ...datasetFeatureValues(conditions) },
+    ])
+  );
+
+  let copied = 0;
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("crops_dataset")
+      .select("*")
+      .eq("dataset_id", sourceId)
+      .order("id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    const page = (data ?? []) as Record<string, unknown>[];
+    const records = page
+      .filter((record) => !droppedIds.has(String(record.id)))
+      .map(({ id, created_at: _createdAt, ...record }) => ({
+        ...record,
+        ...corrections.get(String(id)),
+        dataset_id: targetId,
+      }));
+    if (records.length > 0) {
+      const { error: insertError } = await supabase.from("crops_dataset").insert(records);
+      if (insertError) throw insertError;
+    }
+    copied += records.length;
+    if (page.length < PAGE_SIZE) break;
+  }
+  return copied;
+}
+
+// Undo a partly written new version (its rows go with it). Best effort; the original
+// error is what gets reported.
+async function removeVersion(supabase: SupabaseClient, datasetId: string) {
+  const { error } = await supabase.from("datasets").delete().eq("id", datasetId);
+  if (error) console.error(`Removing dataset ${datasetId} failed:`, error);
+}
+
+function errorResponse(message: string, status: number): Response {
+  return new Response(
+    JSON.stringify({ error: message }),
+    {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
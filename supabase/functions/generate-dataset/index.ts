@@ -1,5 +1,17 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { datasetFeatureValues } from "../_shared/dataset.ts";
+import {
+  activateDataset,
+  createDataset,
+  type Dataset,
+  datasetRef,
+  DEFAULT_DATASET_NAME,
+  loadDataset,
+} from "../_shared/datasets.ts";
+import { SCALER_KINDS } from "../_shared/features.ts";
+import { generateRecords, parseGenerationConfig } from "../_shared/generation.ts";
+import { isValidRidgeAlpha } from "../_shared/training.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -16,88 +28,67 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    console.log("Starting dataset generation...");
-
-    // Crop types with their typical yield ranges
-    const cropTypes = [
-      { name: "Wheat", minYield: 2000, maxYield: 5000 },
-      { name: "Rice", minYield: 3000, maxYield: 7000 },
-      { name: "Corn", minYield: 4000, maxYield: 9000 },
-      { name: "Cotton", minYield: 1000, maxYield: 3000 },
-      { name: "Sugarcane", minYield: 40000, maxYield: 80000 },
-      { name: "Soybean", minYield: 1500, maxYield: 4000 },
-      { name: "Barley", minYield: 2000, maxYield: 5500 },
-    ];
-
-    const records = [];
-    const targetRecords = 5000;
-
-    for (let i = 0; i < targetRecords; i++) {
-      const crop = cropTypes[Math.floor(Math.random() * cropTypes.length)];
-      
-      // Generate realistic environmental conditions
-      const temperature = 15 + Math.random() * 25; // 15-40°C
-      const rainfall = 300 + Math.random() * 1500; // 300-1800mm
-      const fertilizer = 50 + Math.random() * 250; // 50-300 kg/ha
-      const soil_ph = 5.5 + Math.random() * 2.5; // 5.5-8.0
-      const humidity = 40 + Math.random() * 50; // 40-90%
-      // Added NPK values
-      const nitrogen = 50 + Math.random() * 150; // 50-200 kg/ha
-      const phosphorus = 20 + Math.random() * 80; // 20-100 kg/ha
-      const potassium = 30 + Math.random() * 120; // 30-150 kg/ha
-
-      // SIMULATE Preprocessing - Outlier Handling (Simple Capping)
-      const capped_temp = Math.max(10, Math.min(45, temperature));
-      const capped_rainfall = Math.max(100, Math.min(2500, rainfall));
-      // (Apply similar capping for other relevant features)
-
-      // SIMULATE Feature Engineering
-      // 1. Interaction Features
-      const temp_rainfall_interaction = capped_temp * capped_rainfall / 1000; // Scaled
-      const ph_fertilizer_interaction = soil_ph * fertilizer / 100; // Scaled
-
-      // 2. Polynomial Features (Simple Square)
-      const temp_squared = Math.pow(capped_temp / 10, 2); // Scaled square
-
-      // 3. Derived Features (Example: NPK Ratio)
-      const npk_ratio = nitrogen / (phosphorus + potassium + 1); // Avoid division by zero
-
-      // Calculate yield using base factors AND engineered features
-      const tempFactor = 1 - Math.abs(capped_temp - 25) / 40;
-      const rainFactor = Math.min(capped_rainfall / 1000, 1.5);
-      const fertFactor = Math.min(fertilizer / 200, 1.3);
-      const phFactor = 1 - Math.abs(soil_ph - 6.8) / 3;
-      const humidityFactor = Math.min(humidity / 70, 1.2);
-      const baseFactor = (tempFactor + rainFactor + fertFactor + phFactor + humidityFactor) / 5;
-
-      // Include engineered features in yield calculation (example weights)
-      const engineeredFactor = 0.1 * temp_rainfall_interaction
-                              + 0.05 * ph_fertilizer_interaction
-                              - 0.02 * temp_squared // Negative impact if too high/low
-                              + 0.03 * npk_ratio;
-
-      const randomVariation = 0.8 + Math.random() * 0.4;
-      let yieldValue = crop.minYield + (crop.maxYield - crop.minYield) * baseFactor * (1 + engineeredFactor) * randomVariation;
+    // Generation config (seed, record count, crops, distributions, noise, missing and outlier
+    // rates), target dataset and training options; every field is optional
+    const body = await req.json().catch(() => ({}));
+    const {
+      ridge_alpha: ridgeAlpha, // Overrides the promoted or default ridge penalty
+      scaler: scalerKind = "standard",
+      dataset_id: targetDatasetId, // Append to this version instead of creating a new one
+      dataset_name: datasetName = DEFAULT_DATASET_NAME,
+    } = body;
+    if (!SCALER_KINDS.includes(scalerKind)) {
+      return errorResponse(`Unknown scaler "${scalerKind}". Use one of: ${SCALER_KINDS.join(", ")}.`, 400);
+    }
+    if (ridgeAlpha !== undefined && ridgeAlpha !== null && !isValidRidgeAlpha(ridgeAlpha)) {
+      return errorResponse("ridge_alpha must be a non-negative number (0 = no penalty).", 400);
+    }
+    const generation = parseGenerationConfig(body);
+    if (generation.errors) {
+      return errorResponse(`Invalid generation config: ${generation.errors.join("; ")}`, 400);
+    }
+    const config = generation.value;
+
+    // Rows go into a new version of `dataset_name` or are appended to an existing version.
+    // Either way that version becomes the active one once every row is in, since the
+    // training job queued below uses it.
+    let dataset: Dataset;
+    if (targetDatasetId !== undefined) {
+      try {
+        dataset = await loadDataset(supabase, targetDatasetId);
+      } catch (error) {
+        return errorResponse(error instanceof Error ? error.message : String(error), 400);
+      }
+    } else {
+      dataset = await createDataset(supabase, datasetName, `Generated with seed ${config.seed}`, false);
+    }
 
-      records.push({
-        temperature: parseFloat(capped_temp.toFixed(2)),
-        rainfall: parseFloat(capped_rainfall.toFixed(2)),
-        fertilizer: parseFloat(fertilizer.toFixed(2)),
-        soil_ph: parseFloat(soil_ph.toFixed(2)),
-        humidity: parseFloat(humidity.toFixed(2)),
-        nitrogen: parseFloat(nitrogen.toFixed(2)),
-        phosphorus: parseFloat(phosphorus.toFixed(2)),
-        potassium: parseFloat(potassium.toFixed(2)),
-        // Store engineered features if needed for prediction function
-        temp_rainfall_interaction: parseFloat(temp_rainfall_interaction.toFixed(2)),
-        ph_fertilizer_interaction: parseFloat(ph_fertilizer_interaction.toFixed(2)),
-        temp_squared: parseFloat(temp_squared.toFixed(2)),
-        npk_ratio: parseFloat(npk_ratio.toFixed(2)),
-        crop: crop.name,
-        yield: Math.max(0, parseFloat(yieldValue.toFixed(2))), // Ensure non-negative yield
-      });
+    console.log(`Starting dataset generation into ${dataset.name} v${dataset.version} (seed ${config.seed}, ${config.record_count} records)...`);
+
+    // Record the exact config first so the rows can point at it
+    const { data: run, error: runError } = await supabase
+      .from("generation_runs")
+      .insert({ seed: config.seed, config, dataset_id: dataset.id })
+      .select("id")
+      .single();
+    if (runError) {
+      // No rows yet; only a version created above is left to remove
+      if (targetDatasetId === undefined) {
+        const { error } = await supabase.from("datasets").delete().eq("id", dataset.id);
+        if (error) console.error("Rollback error:", error);
+      }
+      throw runError;
     }
 
+    const records = generateRecords(config).map((r) => ({
+      // Base conditions and engineered features, for inspection in the dataset
+      ...datasetFeatureValues(r.observed),
+      crop: r.crop,
+      yield: parseFloat(r.yield.toFixed(2)),
+      generation_id: run.id,
+      dataset_id: dataset.id,
+    }));
+
     console.log(`Generated ${records.length} records, inserting into database...`);
 
     // Insert in batches of 1000
@@ -110,40 +101,37 @@ serve(async (req) => {
 
       if (insertError) {
         console.error("Insert error:", insertError);
+        // Undo the partial run: a new version goes with its rows, an existing one loses
+        // only the rows of this run. The active version is left as it was.
+        const { error: rollbackError } = targetDatasetId === undefined
+          ? await supabase.from("datasets").delete().eq("id", dataset.id)
+          : await supabase.from("crops_dataset").delete().eq("generation_id", run.id);
+        if (rollbackError) console.error("Rollback error:", rollbackError);
+        else await supabase.from("generation_runs").delete().eq("id", run.id);
         throw insertError;
       }
       console.log(`Inserted batch ${Math.floor(i / batchSize) + 1}`);
     }
+    if (!dataset.is_active) await activateDataset(supabase, dataset.id);
 
-    // Calculate and store model metrics (simulated)
-    const lrMetrics = {
-      model_name: "Linear Regression",
-      r2_score: 0.78 + Math.random() * 0.07, // Slightly improved R2
-      mae: 180 + Math.random() * 100,      // Slightly improved MAE
-      rmse: 280 + Math.random() * 150,     // Slightly improved RMSE
-      evaluation_method: "Simulated Train/Val/Test Split (80/20 -> 75/25)", // Documentation
-    };
+    // Models are trained by a train-models job on every row of the dataset version
+    // (including rows from earlier runs or uploads appended to it), outside this request
+    const { data: job, error: jobError } = await supabase.functions.invoke("train-models", {
+      body: { dataset_id: dataset.id, scaler: scalerKind, ridge_alpha: ridgeAlpha },
+    });
+    if (jobError) throw new Error(`Rows were generated, but training could not be queued: ${jobError.message}`);
 
-    const rfMetrics = {
-      model_name: "Random Forest",
-      r2_score: 0.88 + Math.random() * 0.05, // Significantly improved R2 after simulated tuning
-      mae: 120 + Math.random() * 80,       // Significantly improved MAE
-      rmse: 200 + Math.random() * 100,      // Significantly improved RMSE
-      evaluation_method: "Simulated 5-Fold Cross-Validation on Train/Val, Final Eval on Test", // Documentation
-      // Placeholder for tuned parameters
-      tuned_parameters: "{'n_estimators': 200, 'max_depth': 20, 'min_samples_leaf': 2}",
-    };
-
-    await supabase.from("model_metrics").insert([lrMetrics, rfMetrics]);
-
-    console.log("Enhanced dataset generation with preprocessing and feature engineering complete!");
+    console.log(`Dataset generation complete; training job ${job.job_id} queued`);
 
     return new Response(
       JSON.stringify({
         success: true,
         records_created: records.length,
-        lr_metrics: lrMetrics,
-        rf_metrics: rfMetrics,
+        dataset: datasetRef(dataset),
+        scaler: scalerKind,
+        generation_id: run.id,
+        generation_config: config,
+        training_job_id: job.job_id,
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -151,12 +139,16 @@ serve(async (req) => {
     );
   } catch (error) {
     console.error("Error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    return errorResponse(error instanceof Error ? error.message : "Unknown error", 500);
   }
 });
+
+function errorResponse(message: string, status: number): Response {
+  return new Response(
+    JSON.stringify({ error: message }),
+    {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
@@ -0,0 +1,250 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveCrop } from "../_shared/crops.ts";
+import { datasetFeatureValues } from "../_shared/dataset.ts";
+import { createDataset, type Dataset, datasetRef, loadDataset } from "../_shared/datasets.ts";
+import { assessQuality, parseQualityConfig } from "../_shared/quality.ts";
+import { type Observation, validateObservation } from "../_shared/validation.ts";
+
+// Largest upload accepted in one request
+const MAX_ROWS = 20000;
+const INSERT_CHUNK_SIZE = 1000;
+// Sample of normalized rows returned for the preview step
+const PREVIEW_ROWS = 20;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // `rows` are already keyed by dataset column (the upload page applies the column mapping);
+    // `dry_run` validates and previews without writing anything. Rows are appended to
+    // `dataset_id` (default: the active version) or to a new version named `dataset_name`.
+    // `quality` configures the data-quality checks; duplicate rows are dropped unless it says otherwise.
+    const {
+      rows,
+      file_name: fileName = "upload",
+      column_mapping: columnMapping = {},
+      dry_run: dryRun = false,
+      dataset_id: datasetId,
+      dataset_name: newDatasetName,
+      quality: rawQuality = {},
+    } = await req.json();
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return errorResponse("No rows to import.", 400);
+    }
+    if (rows.length > MAX_ROWS) {
+      return errorResponse(`An upload can contain at most ${MAX_ROWS} rows (got ${rows.length}).`, 400);
+    }
+    const quality = parseQualityConfig({ ...rawQuality, handling: { duplicate: "drop", ...rawQuality?.handling } });
+    if (quality.errors) {
+      return errorResponse(`Invalid quality config: ${quality.errors.join("; ")}`, 400);
+    }
+
+    let target: Dataset | null = null;
+    if (typeof newDatasetName !== "string" || newDatasetName.trim() === "") {
+      try {
+        target = await loadDataset(supabase, datasetId);
+      } catch (error) {
+        return errorResponse(error instanceof Error ? error.message : String(error), 400);
+      }
+    }
+
+    console.log(`${dryRun ? "Validating" : "Importing"} ${rows.length} rows from ${fileName}`);
+
+    // Spell crops the way the dataset already does ("wheat" -> "Wheat"), so uploads
+    // and generated rows train the same crop models
+    const knownCrops = await trainedCrops(supabase);
+
+    const errors: { row: number; errors: string[] }[] = [];
+    const observations: Observation[] = [];
+    const fileRows: number[] = []; // 1-based row in the file of each observation
+
+    for (const [index, raw] of rows.entries()) {
+      const validated = validateObservation(raw ?? {});
+      if (validated.errors) {
+        errors.push({ row: index + 1, errors: validated.errors });
+        continue;
+      }
+      const { crop } = validated.value;
+      observations.push({ ...validated.value, crop: resolveCrop(crop, knownCrops) ?? titleCase(crop) });
+      fileRows.push(index + 1);
+    }
+
+    // Checked before rounding and storage, so the report shows the values as uploaded.
+    // Identical rows within one file are almost always copy-paste mistakes.
+    const assessed = assessQuality(observations, quality.value);
+    const report = {
+      ...assessed.report,
+      issues: assessed.report.issues.map((issue) => ({ ...issue, row: fileRows[issue.row] })),
+    };
+    const records = assessed.rows.map(toDatasetRecord);
+    const duplicates = report.duplicate_rows;
+
+    const crops = await cropDiff(supabase, target?.id ?? null, records);
+
+    let importId: string | null = null;
+    if (!dryRun && records.length > 0) {
+      // New versions from uploads are not activated: models are still trained on the active one
+      const created = !target;
+      target ??= await createDataset(supabase, newDatasetName.trim(), `Uploaded from ${fileName}`, false);
+      const targetId = target.id;
+      const { data: importRow, error: importError } = await supabase
+        .from("dataset_imports")
+        .insert({
+          dataset_id: targetId,
+          file_name: fileName,
+          column_mapping: columnMapping,
+          total_rows: rows.length,
+          imported_rows: records.length,
+          rejected_rows: errors.length,
+          duplicate_rows: duplicates,
+          errors,
+        })
+        .select("id")
+        .single();
+      if (importError) {
+        // Nothing is stored for the import yet, only the version it created
+        if (created) {
+          const { error } = await supabase.from("datasets").delete().eq("id", targetId);
+          if (error) console.error(`Removing dataset ${targetId} after the failed import failed:`, error);
+        }
+        throw importError;
+      }
+      importId = importRow.id;
+
+      const { error: reportError } = await supabase
+        .from("data_quality_reports")
+        .insert({ ...report, dataset_id: targetId, import_id: importId, applied: true });
+      if (reportError) {
+        await rollBackImport(supabase, importRow.id, created ? targetId : null);
+        throw reportError;
+      }
+
+      for (let i = 0; i < records.length; i += INSERT_CHUNK_SIZE) {
+        const chunk = records
+          .slice(i, i + INSERT_CHUNK_SIZE)
+          .map((record) => ({ ...record, source: "upload", import_id: importId, dataset_id: targetId }));
+        const { error: insertError } = await supabase.from("crops_dataset").insert(chunk);
+        if (insertError) {
+          await rollBackImport(supabase, importRow.id, created ? targetId : null);
+          throw insertError;
+        }
+      }
+      console.log(`Import ${importId}: ${records.length} rows stored`);
+    }
+
+    return new Response(
+      JSON.stringify({
+        import_id: importId,
+        dry_run: dryRun,
+        dataset: target && datasetRef(target),
+        total: rows.length,
+        valid: records.length,
+        rejected: errors.length,
+        duplicates,
+        errors,
+        crops,
+        quality: report,
+        preview: records.slice(0, PREVIEW_ROWS),
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return errorResponse(error instanceof Error ? error.message : "Unknown error", 500);
+  }
+});
+
+// Remove what a failed import stored: its rows, quality report and import record, and the
+// dataset version when the import created it. Best effort; the insert error is what gets reported.
+async function rollBackImport(supabase: SupabaseClient, importId: string, createdDatasetId: string | null) {
+  const steps = [
+    () => supabase.from("crops_dataset").delete().eq("import_id", importId),
+    () => supabase.from("data_quality_reports").delete().eq("import_id", importId),
+    () => supabase.from("dataset_imports").delete().eq("id", importId),
+    ...(createdDatasetId ? [() => supabase.from("datasets").delete().eq("id", createdDatasetId)] : []),
+  ];
+  for (const step of steps) {
+    const { error } = await step();
+    if (error) {
+      console.error(`Rollback of import ${importId} failed:`, error);
+      return;
+    }
+  }
+  console.log(`Import ${importId} rolled back`);
+}
+
+// Crops the latest recommender was trained on (empty before the first training run)
+async function trainedCrops(supabase: SupabaseClient): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("models")
+    .select("crops")
+    .eq("model_name", "Crop Recommender")
+    .is("crop", null)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.crops ?? [];
+}
+
+function toDatasetRecord(observation: Observation): Record<string, number | string | null> {
+  const { crop, yield: yieldValue, ...conditions } = observation;
+  return {
+    ...datasetFeatureValues(conditions),
+    crop,
+    yield: parseFloat(yieldValue.toFixed(2)),
+  };
+}
+
+function titleCase(value: string): string {
+  return value.toLowerCase().replace(/\b[a-z]/g, (c) => c.toUpperCase());
+}
+
+// Rows per crop already in the target version next to the rows this upload adds
+// (a version that does not exist yet has none)
+async function cropDiff(
+  supabase: SupabaseClient,
+  datasetId: string | null,
+  records: Record<string, number | string | null>[],
+) {
+  const incoming = new Map<string, number>();
+  for (const r of records) incoming.set(String(r.crop), (incoming.get(String(r.crop)) ?? 0) + 1);
+
+  return Promise.all(
+    [...incoming].sort(([a], [b]) => a.localeCompare(b)).map(async ([crop, count]) => {
+      if (datasetId === null) return { crop, existing: 0, incoming: count };
+      const { count: existing, error } = await supabase
+        .from("crops_dataset")
+        .select("id", { count: "exact", head: true })
+        .eq("dataset_id", datasetId)
+        .eq("crop", crop);
+      if (error) throw error;
+      return { crop, existing: existing ?? 0, incoming: count };
+    })
+  );
+}
+
+function errorResponse(message: string, status: number): Response {
+  return new Response(
+    JSON.stringify({ error: message }),
+    {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
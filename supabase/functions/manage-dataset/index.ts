@@ -0,0 +1,75 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { activateDataset, findDataset } from "../_shared/datasets.ts";
+
+const ACTIONS = ["activate", "archive", "restore", "delete"];
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { action, dataset_id: datasetId } = await req.json();
+    if (!ACTIONS.includes(action)) {
+      return errorResponse(`Unknown action "${action}". Use one of: ${ACTIONS.join(", ")}.`, 400);
+    }
+
+    const dataset = typeof datasetId === "string" ? await findDataset(supabase, datasetId) : null;
+    if (!dataset) return errorResponse(`Dataset ${datasetId} does not exist.`, 404);
+    const label = `${dataset.name} v${dataset.version}`;
+
+    // Training reads the active version, so it can only be replaced, never removed
+    if ((action === "archive" || action === "delete") && dataset.is_active) {
+      return errorResponse(`${label} is the active dataset. Activate another version first.`, 409);
+    }
+    if (action === "activate" && dataset.status === "archived") {
+      return errorResponse(`${label} is archived. Restore it first.`, 409);
+    }
+
+    if (action === "activate") {
+      await activateDataset(supabase, dataset.id);
+    } else if (action === "delete") {
+      // Its crops_dataset rows are deleted with it; models and metrics keep their snapshot id
+      const { error } = await supabase.from("datasets").delete().eq("id", dataset.id);
+      if (error) throw error;
+    } else {
+      const archived = action === "archive";
+      const { error } = await supabase
+        .from("datasets")
+        .update({ status: archived ? "archived" : "ready", archived_at: archived ? new Date().toISOString() : null })
+        .eq("id", dataset.id);
+      if (error) throw error;
+    }
+
+    console.log(`Dataset ${label}: ${action}`);
+    return new Response(
+      JSON.stringify({ success: true, action, dataset_id: dataset.id }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return errorResponse(error instanceof Error ? error.message : "Unknown error", 500);
+  }
+});
+
+function errorResponse(message: string, status: number): Response {
+  return new Response(
+    JSON.stringify({ error: message }),
+    {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
@@ -1,5 +1,34 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveCrop, withCropIndicators } from "../_shared/crops.ts";
+import { parseCsv } from "../_shared/csv.ts";
+import { BASE_FEATURES, type Conditions, engineerFeatures } from "../_shared/features.ts";
+import { imputeConditions } from "../_shared/imputation.ts";
+import { type Attribution, groupAttribution } from "../_shared/importance.ts";
+import { DEFAULT_CONFIDENCE_LEVEL, isValidConfidenceLevel } from "../_shared/intervals.ts";
+import {
+  findModel,
+  findModelForCrop,
+  loadModel,
+  loadModelForCrop,
+  loadModelsById,
+  type ModelVersion,
+  scaleInput,
+  versionRef,
+} from "../_shared/model-store.ts";
+import { type NaiveBayesModel, predictClassProbabilities } from "../_shared/naive-bayes.ts";
+import {
+  STACKED_ENSEMBLE_NAME,
+  stackAttributions,
+  stackOutputs,
+  type StackingModel,
+} from "../_shared/stacking.ts";
+import { type PredictionInput, validatePredictionInput } from "../_shared/validation.ts";
+import { type ModelOutput, trainedYieldModels, YIELD_MODELS, type YieldModel } from "../_shared/yield-models.ts";
+
+// Largest number of inputs accepted by one batch request
+const MAX_BATCH_SIZE = 1000;
+const INSERT_CHUNK_SIZE = 500;
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -16,206 +45,445 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const { temperature, rainfall, fertilizer, soil_ph, humidity, nitrogen, phosphorus, potassium } = await req.json();
-
-    console.log("Predicting yield with enhanced features:", { temperature, rainfall, fertilizer, soil_ph, humidity, nitrogen, phosphorus, potassium });
-
-    // SIMULATE Preprocessing on Input (Apply same capping/transformations as in generation)
-    const capped_temp = Math.max(10, Math.min(45, temperature));
-    const capped_rainfall = Math.max(100, Math.min(2500, rainfall));
-    // (Apply similar capping for other relevant features)
-
-    // SIMULATE Feature Engineering on Input (Must match generation)
-    const temp_rainfall_interaction = capped_temp * capped_rainfall / 1000;
-    const ph_fertilizer_interaction = soil_ph * fertilizer / 100;
-    const temp_squared = Math.pow(capped_temp / 10, 2);
-    const npk_ratio = nitrogen / (phosphorus + potassium + 1);
-
-    // SIMULATE Feature Scaling on Input (Placeholder)
-    // In a real scenario, you'd load the scaler fitted on training data
-    // and use scaler.transform(input_features)
-
-    // Fetch *limited* training data for RF simulation (if using KNN approach)
-    // OR load pre-calculated model coefficients/structure
-    // Note: Fetching data per prediction is inefficient; real models are pre-trained.
-    const { data: trainingData, error: fetchError } = await supabase
-      .from("crops_dataset") // Assume this table now includes engineered features
-      .select("*")
-      .limit(500); // Limit data fetched per prediction for performance
-
-    if (fetchError) throw fetchError;
-
-    // --- Simulated Predictions using Engineered Features ---
-    // 1. Linear Regression Simulation (Update function to use new features)
-    const lrYield = predictLinearRegression(
-      capped_temp, capped_rainfall, fertilizer, soil_ph, humidity,
-      nitrogen, phosphorus, potassium, // Base features
-      temp_rainfall_interaction, ph_fertilizer_interaction, temp_squared, npk_ratio // Engineered features
-    );
+    // A single set of conditions, or a batch given as `inputs` (array) or `csv` (text with a header row)
+    const body = await req.json();
+    const {
+      inputs, csv,
+      model_versions: pinnedVersions = {}, // Optional { "<model_name>": version } to replay a past prediction
+      confidence_level: confidenceLevel = DEFAULT_CONFIDENCE_LEVEL,
+    } = body;
 
-    // 2. Random Forest Simulation (Update function if needed, depends on simulation method)
-    const rfYield = predictRandomForest(
-      capped_temp, capped_rainfall, fertilizer, soil_ph, humidity, // Pass necessary features...
-      trainingData // Or use loaded model info
-    );
+    if (!isValidConfidenceLevel(confidenceLevel)) {
+      return errorResponse("confidence_level must be a number between 0 and 1 (e.g. 0.9).", 400);
+    }
 
-    // ... (Determine best crop logic - could potentially use engineered features too) ...
-    const predictedCrop = determineBestCrop(capped_temp, capped_rainfall, fertilizer, soil_ph, humidity);
-
-    // ... (Fetch metrics - Assume metrics table now includes details like evaluation method) ...
-    const { data: metrics } = await supabase
-      .from("model_metrics")
-      .select("*")
-      .order("training_date", { ascending: false })
-      .limit(2); // Fetch latest LR and RF
-
-    const lrMetrics = metrics?.find((m) => m.model_name === "Linear Regression");
-    const rfMetrics = metrics?.find((m) => m.model_name === "Random Forest");
-
-    // ... (Determine best model based on R² score) ...
-    const bestModel = (rfMetrics?.r2_score || 0) > (lrMetrics?.r2_score || 0)
-      ? "Random Forest"
-      : "Linear Regression";
-
-    // --- SIMULATE Feature Importance (for Random Forest) ---
-    // In a real RF model: importance = model.feature_importances_
-    // Here, we simulate based on assumed contribution
-    const simulatedImportances = {
-      'temperature': 0.20,
-      'rainfall': 0.25,
-      'fertilizer': 0.15,
-      'temp_rainfall_interaction': 0.12, // Engineered feature importance
-      'humidity': 0.10,
-      'soil_ph': 0.08,
-      'nitrogen': 0.04,
-      'phosphorus': 0.02,
-      'potassium': 0.02,
-      'npk_ratio': 0.02, // Engineered feature importance
-      // Add others... sum should ideally be ~1.0
-    };
+    const models = createModelLoader(supabase, pinnedVersions);
 
-    // ... (Store prediction - requires updating predictions table schema) ...
-    // Include NPK values in the stored prediction
-    const { error: insertError } = await supabase.from("predictions").insert({
-      temperature, rainfall, fertilizer, soil_ph, humidity,
-      nitrogen, phosphorus, potassium, // Store base NPK
-      predicted_crop: predictedCrop,
-      predicted_yield_lr: lrYield,
-      predicted_yield_rf: rfYield,
-      best_model: bestModel,
-      feature_importances: JSON.stringify(simulatedImportances) // Store simulated importances
-    });
-    if (insertError) throw insertError;
+    if (inputs !== undefined || csv !== undefined) {
+      let batch: Record<string, unknown>[];
+      try {
+        batch = Array.isArray(inputs) ? inputs : parseCsv(String(csv));
+      } catch (error) {
+        return errorResponse(`Could not read CSV: ${error instanceof Error ? error.message : error}`, 400);
+      }
+      if (batch.length === 0) return errorResponse("The batch contains no inputs.", 400);
+      if (batch.length > MAX_BATCH_SIZE) {
+        return errorResponse(`A batch can contain at most ${MAX_BATCH_SIZE} inputs (got ${batch.length}).`, 400);
+      }
+      return jsonResponse(await predictBatch(supabase, models, batch, confidenceLevel));
+    }
 
-    console.log("Prediction stored successfully");
+    const validated = validatePredictionInput(body);
+    if (validated.errors) return errorResponse(validated.errors.join("; "), 400);
 
-    return new Response(
-      JSON.stringify({
-        predicted_crop: predictedCrop,
-        predicted_yield_lr: lrYield,
-        predicted_yield_rf: rfYield,
-        best_model: bestModel,
-        lr_metrics: lrMetrics, // Pass potentially updated metrics structure
-        rf_metrics: rfMetrics,
-        feature_importances: simulatedImportances, // Send simulated importances
-      }),
-      {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    console.log("Predicting yield with enhanced features:", validated.value);
+    const result = await predictOne(models, validated.value, confidenceLevel);
+    if ("error" in result) return errorResponse(result.error, 422);
+
+    await storePredictions(supabase, [
+      { row: toPredictionRow(validated.value, result.prediction, null), outputs: result.outputs },
+    ]);
+
+    console.log("Prediction stored successfully");
+    return jsonResponse({
+      ...result.prediction,
+      outputs: result.outputs.map((output, i) => ({ ...output, metrics: result.metrics[i] })),
+    });
   } catch (error) {
     console.error("Error:", error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    return errorResponse(error instanceof Error ? error.message : "Unknown error", 500);
   }
 });
 
-function predictLinearRegression(
-  temp: number, rain: number, fert: number, ph: number, humid: number,
-  n: number, p: number, k: number, // Base NPK
-  tr_int: number, pf_int: number, t_sq: number, npk_r: number // Engineered
-): number {
-  // SIMPLIFIED coefficients - In reality, these come from model training
-  const intercept = 800; // Adjusted intercept
-  const coefficients = {
-    temperature: 45, rainfall: 2.2, fertilizer: 14, soil_ph: 180, humidity: 9,
-    nitrogen: 2, phosphorus: 1, potassium: 1.5, // NPK coeffs
-    temp_rainfall_interaction: 5, ph_fertilizer_interaction: 3, // Interaction coeffs
-    temp_squared: -0.5, npk_ratio: 10, // Polynomial and derived coeffs
+// --- Model loading ---
+
+interface MetricsRow {
+  model_id: string;
+  r2_score: number;
+  permutation_importances?: Record<string, number> | null;
+}
+
+// A registered yield model, the version that serves a crop and the metrics of that version
+interface ServedModel {
+  spec: YieldModel<unknown>;
+  version: ModelVersion<unknown>;
+  metrics?: MetricsRow;
+}
+
+// The stacked ensemble trained alongside the served models, if any, with the member
+// versions its weights were fitted on
+interface ServedEnsemble {
+  version: ModelVersion<StackingModel>;
+  metrics?: MetricsRow;
+  members: ServedModel[];
+}
+
+interface ServedModels {
+  members: ServedModel[];
+  ensemble: ServedEnsemble | null;
+}
+
+type ModelLoader = ReturnType<typeof createModelLoader>;
+
+// Loads each model at most once per request, however many inputs use it.
+// Fitted models are the latest versions unless pinned by the caller.
+function createModelLoader(supabase: SupabaseClient, pinnedVersions: Record<string, number>) {
+  let recommender: Promise<ModelVersion<NaiveBayesModel>> | undefined;
+  const yieldModels = new Map<string, Promise<ServedModels>>();
+
+  return {
+    recommender: () =>
+      (recommender ??= loadModel<NaiveBayesModel>(supabase, "Crop Recommender", pinnedVersions["Crop Recommender"])),
+    forCrop: (crop: string) => {
+      if (!yieldModels.has(crop)) yieldModels.set(crop, loadYieldModels(supabase, crop, pinnedVersions));
+      return yieldModels.get(crop)!;
+    },
+  };
+}
+
+// Every trained yield model: the crop's own version when it was trained together with the
+// latest pooled one (or pinned), otherwise the pooled one, plus the ensemble trained for the
+// same crop and the metrics of those exact versions. A pinned version must exist; models
+// never trained yet are served from the next training run.
+async function loadYieldModels(
+  supabase: SupabaseClient,
+  crop: string,
+  pinnedVersions: Record<string, number>,
+): Promise<ServedModels> {
+  const served = await trainedYieldModels(({ name }) =>
+    pinnedVersions[name] === undefined
+      ? findModelForCrop<unknown>(supabase, name, crop)
+      : loadModelForCrop<unknown>(supabase, name, crop, pinnedVersions[name])
+  );
+  const versions = served.map((m) => m.version);
+
+  // Trainings from before the ensemble have none, but a pinned version must exist
+  const pinnedEnsemble = pinnedVersions[STACKED_ENSEMBLE_NAME];
+  const ensemble = pinnedEnsemble === undefined
+    ? await findModel<StackingModel>(supabase, STACKED_ENSEMBLE_NAME, undefined, versions[0].crop)
+    : await loadModel<StackingModel>(supabase, STACKED_ENSEMBLE_NAME, pinnedEnsemble, versions[0].crop);
+
+  const ensembleMembers = ensemble && await loadEnsembleMembers(supabase, ensemble, served);
+
+  const ids = [...versions, ...(ensemble ? [ensemble] : [])].map((v) => v.id);
+  const { data: metrics, error } = await supabase
+    .from("model_metrics")
+    .select("*")
+    .in("model_id", ids);
+  if (error) throw error;
+  const metricsOf = (version: ModelVersion<unknown>) => metrics?.find((m) => m.model_id === version.id);
+
+  return {
+    members: served.map(({ spec, version }) => ({ spec, version, metrics: metricsOf(version) })),
+    ensemble: ensemble && ensembleMembers && {
+      version: ensemble,
+      metrics: metricsOf(ensemble),
+      members: ensembleMembers,
+    },
+  };
+}
+
+// The member versions the ensemble was fitted on, reusing the served ones. Null (the ensemble
+// is left out) when it predates recorded member versions or stacks a model no longer registered.
+async function loadEnsembleMembers(
+  supabase: SupabaseClient,
+  ensemble: ModelVersion<StackingModel>,
+  served: { spec: YieldModel<unknown>; version: ModelVersion<unknown> }[],
+): Promise<ServedModel[] | null> {
+  const refs = ensemble.parameters.member_versions;
+  if (!refs) return null;
+  const specs = ensemble.parameters.members.map((name) => YIELD_MODELS.find((m) => m.name === name));
+  if (specs.some((spec) => !spec)) return null;
+
+  const missing = refs.filter((ref) => !served.some((m) => m.version.id === ref.id)).map((ref) => ref.id);
+  const loaded = missing.length > 0 ? await loadModelsById<unknown>(supabase, missing) : [];
+  return refs.map((ref, i) => ({
+    spec: specs[i]!,
+    version: [...served.map((m) => m.version), ...loaded].find((v) => v.id === ref.id)!,
+  }));
+}
+
+// --- Prediction ---
+
+// One output of a prediction: a yield model's or the ensemble's, with the version behind it
+interface Candidate {
+  name: string;
+  version: ModelVersion<unknown>;
+  metrics?: MetricsRow;
+  output: ModelOutput;
+  explain: () => Attribution | null;
+  importances: () => Record<string, number> | null;
+}
+
+async function predictOne(models: ModelLoader, input: PredictionInput, confidenceLevel: number) {
+  // The recommender is trained on every crop in the dataset, so its classes are the crops we can serve
+  const recommenderArtifact = await models.recommender();
+  const targetCrop = resolveCrop(input.crop, recommenderArtifact.crops);
+  if (!targetCrop) {
+    return {
+      error: `No training data for crop "${input.crop}". Trained crops: ${recommenderArtifact.crops.join(", ")}.`,
+    };
+  }
+
+  const { members: served, ensemble } = await models.forCrop(targetCrop);
+
+  // Empty optional inputs (NPK) take the crop's median in the rows the yield models were
+  // trained on (every model of a training run stores the same medians); versions trained
+  // before imputation need every input
+  const { crop: _crop, ...observed } = input;
+  const empty = BASE_FEATURES.filter((f) => observed[f] === null);
+  const withoutImputer = served.find((m) => !m.version.imputer);
+  if (empty.length > 0 && withoutImputer) {
+    const { model_name: name, version } = withoutImputer.version;
+    return {
+      error: `${empty.join(", ")} must be given: ${name} version ${version} was trained before ` +
+        "missing inputs could be imputed. Retrain the models or fill them in.",
+    };
+  }
+  const { imputer } = served[0].version;
+  const { conditions, imputed } = imputer
+    ? imputeConditions(imputer, targetCrop, observed)
+    : { conditions: observed as Conditions, imputed: {} };
+
+  // Capping and engineered features from the shared pipeline used in training
+  const features = engineerFeatures(conditions);
+
+  // Each model version gets crop indicators for the crops it was trained on (none for a
+  // per-crop model) and the scaler it was trained with
+  const modelInput = (artifact: ModelVersion<unknown>) =>
+    scaleInput(artifact, withCropIndicators(features, targetCrop, artifact.crops));
+
+  const run = ({ spec, version, metrics }: ServedModel): Candidate => {
+    const model = spec.deserialize(version.parameters);
+    const input = modelInput(version);
+    return {
+      name: spec.name,
+      version,
+      metrics,
+      output: spec.predictOutput(model, input, confidenceLevel),
+      explain: () => spec.explain(model, input),
+      importances: () => spec.importances(model),
+    };
+  };
+  const candidates: Candidate[] = served.map(run);
+
+  // The ensemble blends the raw outputs of the member versions it was fitted on with its
+  // learned weights, which are the served ones unless a model was retrained or pinned since
+  if (ensemble) {
+    const stacking = ensemble.version.parameters;
+    const members = ensemble.members.map((member) =>
+      candidates.find((c) => c.version.id === member.version.id) ?? run(member)
+    );
+    const byName = <T>(value: (candidate: Candidate) => T) =>
+      Object.fromEntries(members.map((c) => [c.name, value(c)]));
+    const output = stackOutputs(stacking, byName((c) => c.output));
+    if (output) {
+      candidates.push({
+        name: STACKED_ENSEMBLE_NAME,
+        version: ensemble.version,
+        metrics: ensemble.metrics,
+        output,
+        explain: () => stackAttributions(stacking, byName((c) => c.explain())),
+        importances: () => null,
+      });
+    }
+  }
+
+  const modelVersions = Object.fromEntries(
+    [...candidates.map((c) => c.version), recommenderArtifact].map((v) => [v.model_name, versionRef(v)]),
+  );
+
+  // Yields cannot be negative, so neither can the bounds
+  const outputs = candidates.map((candidate) => {
+    const { output } = candidate;
+    return {
+      ...candidate,
+      row: {
+        model_name: candidate.name,
+        model_id: candidate.version.id,
+        predicted_yield: Math.max(0, round2(output.yield)),
+        yield_lower: output.interval ? Math.max(0, round2(output.interval.lower)) : null,
+        yield_upper: output.interval ? Math.max(0, round2(output.interval.upper)) : null,
+        details: output.details && roundValues(output.details),
+      },
+    };
+  });
+
+  // Recommended crops for these conditions (independent of the crop asked about)
+  const cropRecommendations = predictClassProbabilities(
+    recommenderArtifact.parameters,
+    modelInput(recommenderArtifact),
+  )
+    .map(({ crop: name, probability }) => ({ crop: name, probability: parseFloat(probability.toFixed(4)) }));
+  const predictedCrop = cropRecommendations[0].crop;
+
+  // Best model: highest held-out R², the first registered model on ties (the ensemble comes last)
+  const best = outputs.reduce((a, b) => ((b.metrics?.r2_score ?? 0) > (a.metrics?.r2_score ?? 0) ? b : a));
+
+  // Global: permutation importances of the best model on its held-out test set (versions
+  // trained before these were recorded fall back to importances a model produces itself)
+  const featureImportances = best.metrics?.permutation_importances ??
+    outputs.map((o) => o.importances()).find((importances) => importances !== null) ??
+    null;
+
+  // Local: how each feature moved this prediction away from the best model's baseline
+  const attribution = best.explain();
+  const featureAttributions = attribution && {
+    model: best.name,
+    baseline: round2(attribution.baseline),
+    contributions: roundValues(groupAttribution(attribution).contributions),
+  };
+
+  return {
+    prediction: {
+      target_crop: targetCrop,
+      predicted_crop: predictedCrop,
+      crop_recommendations: cropRecommendations,
+      best_model: best.name,
+      predicted_yield: best.row.predicted_yield,
+      confidence_level: confidenceLevel,
+      model_versions: modelVersions,
+      feature_importances: featureImportances,
+      feature_attributions: featureAttributions,
+      imputed_features: roundValues(imputed),
+    },
+    outputs: outputs.map((o) => o.row),
+    metrics: outputs.map((o) => o.metrics ?? null), // Of each output's model version, for the response
+  };
+}
+
+type PredictionResult = Extract<Awaited<ReturnType<typeof predictOne>>, { prediction: unknown }>;
+
+interface StoredPrediction {
+  row: ReturnType<typeof toPredictionRow>;
+  outputs: PredictionResult["outputs"];
+}
+
+// predictions row: the raw inputs as submitted (empty NPK stays null) plus the stored parts of the prediction
+function toPredictionRow(input: PredictionInput, prediction: PredictionResult["prediction"], batchId: string | null) {
+  const { predicted_yield: _best, ...stored } = prediction;
+  const { crop: _crop, ...conditions } = input;
+  return {
+    ...conditions,
+    ...stored,
+    batch_id: batchId,
   };
+}
+
+// Insert predictions and their prediction_outputs rows; returns the new ids in input order.
+// All or nothing: when any chunk fails, the predictions already stored by this call are
+// deleted again (their outputs cascade), so a batch is never left half saved.
+async function storePredictions(supabase: SupabaseClient, predictions: StoredPrediction[]): Promise<string[]> {
+  const ids: string[] = [];
+  for (let i = 0; i < predictions.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = predictions.slice(i, i + INSERT_CHUNK_SIZE);
+    const { data, error } = await supabase
+      .from("predictions")
+      .insert(chunk.map((p) => p.row))
+      .select("id");
+    if (error) {
+      await deletePredictions(supabase, ids);
+      throw error;
+    }
+    // Rows come back in insert order
+    const chunkIds = (data ?? []).map((inserted) => inserted.id as string);
+    ids.push(...chunkIds);
+
+    const outputs = chunk.flatMap((p, j) => p.outputs.map((output) => ({ ...output, prediction_id: chunkIds[j] })));
+    const { error: outputsError } = await supabase.from("prediction_outputs").insert(outputs);
+    if (outputsError) {
+      await deletePredictions(supabase, ids);
+      throw outputsError;
+    }
+  }
+  return ids;
+}
+
+// Best effort; the insert error is what gets reported
+async function deletePredictions(supabase: SupabaseClient, ids: string[]) {
+  for (let i = 0; i < ids.length; i += INSERT_CHUNK_SIZE) {
+    const { error } = await supabase.from("predictions").delete().in("id", ids.slice(i, i + INSERT_CHUNK_SIZE));
+    if (error) {
+      console.error(`Removing ${ids.length} partly stored predictions failed:`, error);
+      return;
+    }
+  }
+}
+
+type BatchResult =
+  | { row: number; status: "ok"; prediction: Record<string, unknown> }
+  | { row: number; status: "error"; errors: string[] };
 
-  const yield_value =
-    intercept +
-    coefficients.temperature * temp + coefficients.rainfall * rain +
-    coefficients.fertilizer * fert + coefficients.soil_ph * ph +
-    coefficients.humidity * humid +
-    coefficients.nitrogen * n + coefficients.phosphorus * p + coefficients.potassium * k +
-    coefficients.temp_rainfall_interaction * tr_int + coefficients.ph_fertilizer_interaction * pf_int +
-    coefficients.temp_squared * t_sq + coefficients.npk_ratio * npk_r;
-
-  return Math.max(500, parseFloat(yield_value.toFixed(2))); // Ensure minimum yield
-}
-
-function predictRandomForest(
-  temp: number, rain: number, fert: number, ph: number, humid: number, /*...,*/
-  trainingData: any[]
-): number {
-  // If using KNN simulation, update distance calculation to include engineered features
-  if (!trainingData || trainingData.length === 0) {
-    // Fallback if no training data
-    return predictLinearRegression(temp, rain, fert, ph, humid, 0,0,0,0,0,0,0) * 1.10; // Simple boost
+// Validate and predict every input with shared model loads, insert the successful ones in
+// bulk under one batch_id, and report the outcome of each input by its 1-based row number
+async function predictBatch(
+  supabase: SupabaseClient,
+  models: ModelLoader,
+  batch: Record<string, unknown>[],
+  confidenceLevel: number,
+) {
+  const batchId = crypto.randomUUID();
+  console.log(`Predicting batch ${batchId} with ${batch.length} inputs`);
+
+  const results: BatchResult[] = [];
+  const stored: StoredPrediction[] = [];
+  const rowResults: Record<string, unknown>[] = [];
+
+  for (const [index, raw] of batch.entries()) {
+    const validated = validatePredictionInput(raw ?? {});
+    if (validated.errors) {
+      results.push({ row: index + 1, status: "error", errors: validated.errors });
+      continue;
+    }
+    const result = await predictOne(models, validated.value, confidenceLevel);
+    if ("error" in result) {
+      results.push({ row: index + 1, status: "error", errors: [result.error] });
+      continue;
+    }
+    const row = toPredictionRow(validated.value, result.prediction, batchId);
+    stored.push({ row, outputs: result.outputs });
+    // Per-row results leave out the metrics and importances shared by the whole batch
+    const { feature_importances: _importances, ...summary } = row;
+    const entry = {
+      ...summary,
+      predicted_yield: result.prediction.predicted_yield,
+      outputs: result.outputs,
+      crop: validated.value.crop,
+    };
+    rowResults.push(entry);
+    results.push({ row: index + 1, status: "ok", prediction: entry });
   }
 
-  const k = Math.min(10, trainingData.length);
-  const distances = trainingData.map((record) => {
-      // Calculate distances using base AND engineered features (if available in record)
-      const baseDistSq = (
-        Math.pow( (record.temperature - temp) / 25, 2) +
-        Math.pow( (record.rainfall - rain) / 1500, 2) +
-        // ... include other base features ...
-        Math.pow( (record.humidity - humid) / 50, 2)
-      );
-      // Add engineered feature distances if they exist in training data
-      const engineeredDistSq = (
-         (record.temp_rainfall_interaction ? Math.pow( (record.temp_rainfall_interaction - (temp*rain/1000)) / 10, 2) : 0) + // Example scaling
-         // ... include other engineered features ...
-         (record.npk_ratio ? Math.pow( (record.npk_ratio - (record.nitrogen/(record.phosphorus+record.potassium+1))) / 0.5, 2) : 0) // Example scaling
-      );
-
-      const distance = Math.sqrt(baseDistSq + engineeredDistSq); // Combine distances
-      return { distance, yield: record.yield };
+  const ids = await storePredictions(supabase, stored);
+  ids.forEach((id, i) => {
+    rowResults[i].id = id;
+  });
+
+  const succeeded = stored.length;
+  console.log(`Batch ${batchId}: ${succeeded} stored, ${batch.length - succeeded} rejected`);
+  return { batch_id: batchId, total: batch.length, succeeded, failed: batch.length - succeeded, results };
+}
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
   });
+}
+
+function errorResponse(message: string, status: number): Response {
+  return new Response(
+    JSON.stringify({ error: message }),
+    {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+function round2(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
 
-   // ... (rest of KNN averaging logic) ...
-   distances.sort((a, b) => a.distance - b.distance);
-   const nearest = distances.slice(0, k);
-   const totalWeight = nearest.reduce((sum, n) => sum + 1 / (n.distance + 0.01), 0);
-   const weightedYield = nearest.reduce(
-     (sum, n) => sum + (n.yield * (1 / (n.distance + 0.01))) / totalWeight,
-     0
-   );
-
-   return parseFloat(weightedYield.toFixed(2));
-}
-
-function determineBestCrop(
-  temp: number,
-  rain: number,
-  fert: number,
-  ph: number,
-  humid: number
-): string {
-  // Simple rule-based crop selection
-  if (temp > 30 && rain > 1200) return "Rice";
-  if (temp > 25 && rain > 800 && rain < 1200) return "Corn";
-  if (temp > 28 && rain > 1000) return "Sugarcane";
-  if (temp < 25 && rain < 800) return "Wheat";
-  if (temp > 25 && rain < 700) return "Cotton";
-  if (temp < 28 && rain > 600 && rain < 1000) return "Soybean";
-  return "Barley";
+function roundValues(values: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, round2(value)]));
 }
@@ -0,0 +1,300 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { cropFeatureNames, withCropIndicators } from "../_shared/crops.ts";
+import { datasetSnapshotId, fetchTrainingRows, MODEL_FEATURES, type TrainingRow } from "../_shared/dataset.ts";
+import { type Dataset, loadDataset } from "../_shared/datasets.ts";
+import { SCALER_KINDS, type ScalerKind } from "../_shared/features.ts";
+import { claimJob, updateJob } from "../_shared/jobs.ts";
+import {
+  isValidRidgeAlpha,
+  planTrainingSteps,
+  POOLED_STEP,
+  RECOMMENDER_STEP,
+  stepCrop,
+  trainCropRecommender,
+  type TrainingOptions,
+  trainYieldModels,
+} from "../_shared/training.ts";
+import { loadPromotedParameters, type PromotedParameters, promotedFor } from "../_shared/tuning.ts";
+import { linearRegression } from "../_shared/yield-models.ts";
+
+// Supabase Edge Runtime: keeps the worker alive for a promise after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface LogEntry {
+  at: string;
+  message: string;
+}
+
+interface TrainingResult {
+  metrics: unknown[]; // model_metrics rows of the pooled models
+  crop_metrics: unknown[];
+  crop_recommender_accuracy: number | null;
+  model_versions: Record<string, number>; // Pooled models and the recommender
+}
+
+interface TrainingJob {
+  id: string;
+  dataset_id: string | null;
+  config: { scaler: ScalerKind; ridge_alpha: number | null };
+  hyperparameters: PromotedParameters | null;
+  dataset_snapshot: string | null;
+  steps: string[];
+  completed_steps: number;
+  logs: LogEntry[];
+  result: TrainingResult | null;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // `job_id` continues a job: its next step, or the current one if its worker died.
+    // Without it a job is queued for `dataset_id` (default: the active version) with
+    // `scaler` and `ridge_alpha` (overrides the promoted or default ridge penalty).
+    const body = await req.json().catch(() => ({}));
+    const {
+      job_id: jobId,
+      dataset_id: datasetId,
+      scaler: scalerKind = "standard",
+      ridge_alpha: ridgeAlpha = null,
+    } = body;
+
+    let job: { id: string; status: string };
+    if (jobId !== undefined) {
+      const { data, error } = await supabase.from("training_jobs").select("id, status").eq("id", jobId).maybeSingle();
+      if (error) throw error;
+      if (!data) {
+        return errorResponse(`Training job ${jobId} does not exist.`, 404);
+      }
+      if (data.status === "succeeded" || data.status === "failed") {
+        return errorResponse(`Training job ${jobId} has already ${data.status}.`, 409);
+      }
+      job = data;
+    } else {
+      if (!SCALER_KINDS.includes(scalerKind)) {
+        return errorResponse(`Unknown scaler "${scalerKind}". Use one of: ${SCALER_KINDS.join(", ")}.`, 400);
+      }
+      if (ridgeAlpha !== null && !isValidRidgeAlpha(ridgeAlpha)) {
+        return errorResponse("ridge_alpha must be a non-negative number (0 = no penalty).", 400);
+      }
+      let dataset: Dataset;
+      try {
+        dataset = await loadDataset(supabase, datasetId);
+      } catch (error) {
+        return errorResponse(error instanceof Error ? error.message : String(error), 400);
+      }
+      const { data, error } = await supabase
+        .from("training_jobs")
+        .insert({ dataset_id: dataset.id, config: { scaler: scalerKind, ridge_alpha: ridgeAlpha } })
+        .select("id, status")
+        .single();
+      if (error) throw error;
+      job = data;
+      console.log(`Queued training job ${job.id} on ${dataset.name} v${dataset.version}`);
+    }
+
+    // The step runs after the response is sent; callers follow the job in training_jobs
+    EdgeRuntime.waitUntil(
+      runNextStep(supabase, job.id).catch((error) => console.error(`Training job ${job.id}:`, error)),
+    );
+
+    return new Response(
+      JSON.stringify({ job_id: job.id, status: job.status }),
+      {
+        status: 202,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return errorResponse(error instanceof Error ? error.message : "Unknown error", 500);
+  }
+});
+
+// --- Job steps ---
+
+// Take the job's lease, run its next step and hand the remaining steps to a new invocation.
+// Nobody awaits the outcome, so a failing step is recorded on the job instead of thrown.
+async function runNextStep(supabase: SupabaseClient, jobId: string): Promise<void> {
+  const job = await claimJob<TrainingJob>(supabase, "training_jobs", jobId);
+  if (!job) return; // Finished, or another worker holds the lease
+
+  const logs = [...job.logs];
+  const log = (message: string) => {
+    console.log(`Training job ${job.id}: ${message}`);
+    logs.push({ at: new Date().toISOString(), message });
+  };
+
+  try {
+    if (!job.dataset_id) throw new Error("The dataset version of this job has been deleted.");
+    const datasetRows = await fetchTrainingRows(supabase, job.dataset_id);
+    const datasetSnapshot = await datasetSnapshotId(datasetRows);
+
+    // The first step fixes what the whole job trains on. The pooled models and each crop's
+    // models train with the configuration tune-model last promoted for them, if any.
+    if (job.steps.length === 0) {
+      if (datasetRows.length === 0) throw new Error("The dataset version has no complete rows to train on.");
+      const hyperparameters = await loadPromotedParameters(supabase);
+      Object.assign(job, { steps: planTrainingSteps(datasetRows), hyperparameters, dataset_snapshot: datasetSnapshot });
+      log(`Training on ${datasetRows.length} rows in ${job.steps.length} steps (${job.config.scaler} scaling)`);
+      await updateJob(supabase, "training_jobs", job.id, {
+        steps: job.steps,
+        hyperparameters,
+        dataset_snapshot: datasetSnapshot,
+        started_at: new Date().toISOString(),
+        logs,
+      });
+    } else if (datasetSnapshot !== job.dataset_snapshot) {
+      // Later steps would train on rows the earlier ones did not see
+      throw new Error("The dataset version changed while training. Queue a new training job.");
+    }
+
+    const step = job.steps[job.completed_steps];
+    log(`Step ${job.completed_steps + 1}/${job.steps.length}: ${describeStep(step)}`);
+    await updateJob(supabase, "training_jobs", job.id, { logs });
+
+    const crop = stepCrop(step);
+    const hyperparameters: Record<string, object> = { ...promotedFor(job.hyperparameters!, crop) };
+    if (job.config.ridge_alpha !== null) {
+      hyperparameters[linearRegression.name] = {
+        ...hyperparameters[linearRegression.name],
+        ridge_alpha: job.config.ridge_alpha,
+      };
+    }
+    const options: TrainingOptions = {
+      hyperparameters,
+      scalerKind: job.config.scaler,
+      datasetId: job.dataset_id,
+      datasetSnapshot,
+      jobId: job.id,
+      step,
+    };
+    const { result, summary } = await runStep(supabase, step, datasetRows, options, job.result ?? {
+      metrics: [],
+      crop_metrics: [],
+      crop_recommender_accuracy: null,
+      model_versions: {},
+    });
+    log(summary);
+
+    const completedSteps = job.completed_steps + 1;
+    const done = completedSteps === job.steps.length;
+    if (done) log("Training complete");
+    await updateJob(supabase, "training_jobs", job.id, {
+      completed_steps: completedSteps,
+      result,
+      logs,
+      lease_expires_at: null,
+      ...(done ? { status: "succeeded", finished_at: new Date().toISOString() } : {}),
+    });
+    if (done) return;
+
+    const { error } = await supabase.functions.invoke("train-models", { body: { job_id: job.id } });
+    if (error) {
+      log(`Could not start the next step (${error.message}). Resume the job to continue.`);
+      await updateJob(supabase, "training_jobs", job.id, { logs });
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log(`Failed: ${message}`);
+    await updateJob(supabase, "training_jobs", job.id, {
+      status: "failed",
+      error: message,
+      logs,
+      lease_expires_at: null,
+      finished_at: new Date().toISOString(),
+    });
+  }
+}
+
+// Train what `step` covers, store its model_metrics rows and add its outcome to the job result
+async function runStep(
+  supabase: SupabaseClient,
+  step: string,
+  datasetRows: TrainingRow[],
+  options: TrainingOptions,
+  result: TrainingResult,
+): Promise<{ result: TrainingResult; summary: string }> {
+  if (step === RECOMMENDER_STEP) {
+    const { version, accuracy } = await trainCropRecommender(supabase, datasetRows, options);
+    return {
+      result: {
+        ...result,
+        crop_recommender_accuracy: accuracy,
+        model_versions: { ...result.model_versions, [version.model_name]: version.version },
+      },
+      summary: `${version.model_name} v${version.version}: test accuracy ${(accuracy * 100).toFixed(1)}%`,
+    };
+  }
+
+  const crop = stepCrop(step);
+  if (step !== POOLED_STEP && crop === null) throw new Error(`Unknown training step "${step}".`);
+
+  let trained;
+  if (crop === null) {
+    // Pooled models see every row of the dataset version. Crop is a one-hot encoded
+    // feature so yields are predicted for a specific crop.
+    const crops = [...new Set(datasetRows.map((r) => r.crop))].sort();
+    const rows = datasetRows.map((r) => withCropIndicators(r, r.crop, crops));
+    const features = [...MODEL_FEATURES, ...cropFeatureNames(crops)];
+    trained = await trainYieldModels(supabase, rows, features, crops, null, options);
+  } else {
+    const rows = datasetRows.filter((r) => r.crop === crop);
+    trained = await trainYieldModels(supabase, rows, MODEL_FEATURES, [crop], crop, options);
+  }
+
+  // A worker that died before recording the step done may have stored some of them already
+  const { data: stored, error: storedError } = await supabase
+    .from("model_metrics")
+    .select("model_id")
+    .in("model_id", trained.metrics.map((m) => m.model_id));
+  if (storedError) throw storedError;
+  const storedIds = new Set((stored ?? []).map((m: { model_id: string }) => m.model_id));
+  const { error } = await supabase
+    .from("model_metrics")
+    .insert(trained.metrics.filter((m) => !storedIds.has(m.model_id)));
+  if (error) throw error;
+
+  const summary = trained.metrics.map((m) => `${m.model_name} test R² ${m.r2_score.toFixed(4)}`).join(", ");
+  return {
+    result: crop === null
+      ? {
+        ...result,
+        metrics: trained.metrics,
+        model_versions: {
+          ...result.model_versions,
+          ...Object.fromEntries(trained.versions.map((v) => [v.model_name, v.version])),
+        },
+      }
+      : { ...result, crop_metrics: [...result.crop_metrics, ...trained.metrics] },
+    summary,
+  };
+}
+
+function describeStep(step: string): string {
+  if (step === POOLED_STEP) return "pooled yield models";
+  if (step === RECOMMENDER_STEP) return "crop recommender";
+  return `${stepCrop(step)} yield models`;
+}
+
+function errorResponse(message: string, status: number): Response {
+  return new Response(
+    JSON.stringify({ error: message }),
+    {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
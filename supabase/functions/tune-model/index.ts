@@ -0,0 +1,302 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { cropFeatureNames, withCropIndicators } from "../_shared/crops.ts";
+import { fetchTrainingRows, MODEL_FEATURES, type TrainingRow } from "../_shared/dataset.ts";
+import { type Dataset, loadDataset } from "../_shared/datasets.ts";
+import { crossValidate, DEFAULT_EVALUATION_OPTIONS, trainValidationTestSplit } from "../_shared/evaluation.ts";
+import { type FeatureRow, predictScaled, SCALER_KINDS, type ScalerKind, withScaling } from "../_shared/features.ts";
+import { claimJob, updateJob } from "../_shared/jobs.ts";
+import { MIN_CROP_MODEL_ROWS } from "../_shared/training.ts";
+import {
+  bestTrial,
+  type Candidate,
+  MAX_TRIALS,
+  parseTuningConfig,
+  runPendingTrials,
+  searchCandidates,
+  searchSpaceSize,
+  type Trial,
+} from "../_shared/tuning.ts";
+import { randomForest, YIELD_MODELS } from "../_shared/yield-models.ts";
+
+// Trials one invocation starts, by wall-clock time; each trial's cost (folds × one fit)
+// is measured as it runs, and the rest of the search continues in a new invocation
+const BATCH_BUDGET_MS = 60 * 1000;
+
+// Supabase Edge Runtime: keeps the worker alive for a promise after the response is sent
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface TuningRun {
+  id: string;
+  model_name: string;
+  dataset_id: string | null;
+  crop: string | null;
+  scaler: ScalerKind;
+  folds: number;
+  seed: number;
+  candidates: Candidate[];
+  training_rows: number;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // `run_id` continues a search. Without it a search is queued for `model_name` on
+    // `dataset_id` (default: the active version), on the rows of `crop` for its per-crop
+    // models or on every row for the pooled model, with `scaler`, `strategy`, `n_trials`,
+    // `folds` and `seed` (see _shared/tuning.ts).
+    const body = await req.json().catch(() => ({}));
+    const {
+      run_id: runId,
+      model_name: modelName = randomForest.name,
+      dataset_id: datasetId,
+      crop = null,
+      scaler: scalerKind = "standard",
+    } = body;
+
+    let run: { id: string; status: string };
+    if (runId !== undefined) {
+      const { data, error } = await supabase.from("tuning_runs").select("id, status").eq("id", runId).maybeSingle();
+      if (error) throw error;
+      if (!data) {
+        return errorResponse(`Tuning run ${runId} does not exist.`, 404);
+      }
+      if (data.status === "succeeded" || data.status === "failed") {
+        return errorResponse(`Tuning run ${runId} has already ${data.status}.`, 409);
+      }
+      run = data;
+    } else {
+      const yieldModel = YIELD_MODELS.find((m) => m.name === modelName);
+      if (!yieldModel) {
+        return errorResponse(
+          `Unknown model "${modelName}". Use one of: ${YIELD_MODELS.map((m) => m.name).join(", ")}.`,
+          400,
+        );
+      }
+      if (!SCALER_KINDS.includes(scalerKind)) {
+        return errorResponse(`Unknown scaler "${scalerKind}". Use one of: ${SCALER_KINDS.join(", ")}.`, 400);
+      }
+      const tuning = parseTuningConfig(body);
+      if (tuning.errors) {
+        return errorResponse(`Invalid tuning config: ${tuning.errors.join("; ")}`, 400);
+      }
+      const config = tuning.value;
+      const gridSize = searchSpaceSize(yieldModel.searchSpace);
+      if (config.strategy === "grid" && gridSize > MAX_TRIALS) {
+        return errorResponse(
+          `The ${yieldModel.name} grid has ${gridSize} combinations (at most ${MAX_TRIALS}). Use random search.`,
+          400,
+        );
+      }
+
+      let dataset: Dataset;
+      try {
+        dataset = await loadDataset(supabase, datasetId);
+      } catch (error) {
+        return errorResponse(error instanceof Error ? error.message : String(error), 400);
+      }
+
+      const datasetRows = await fetchTrainingRows(supabase, dataset.id);
+      if (crop !== null) {
+        const cropRows = datasetRows.filter((r) => r.crop === crop).length;
+        if (cropRows < MIN_CROP_MODEL_ROWS) {
+          return errorResponse(
+            `${dataset.name} v${dataset.version} has ${cropRows} ${crop} rows; crops with fewer than ` +
+              `${MIN_CROP_MODEL_ROWS} get no models of their own to tune.`,
+            400,
+          );
+        }
+      }
+      const rows = tuningRows(datasetRows, crop);
+      if (rows.length < config.folds) {
+        return errorResponse(`${dataset.name} v${dataset.version} has too few rows to tune on.`, 400);
+      }
+
+      // Candidates set only the searched hyperparameters; trials record the full configuration
+      const candidates = searchCandidates(yieldModel.searchSpace, config)
+        .map((candidate) => ({ ...yieldModel.defaultParams, ...candidate }) as Candidate);
+      const { data, error } = await supabase
+        .from("tuning_runs")
+        .insert({
+          model_name: yieldModel.name,
+          dataset_id: dataset.id,
+          crop,
+          scaler: scalerKind,
+          strategy: config.strategy,
+          folds: config.folds,
+          seed: config.seed,
+          search_space: yieldModel.searchSpace,
+          candidates,
+          training_rows: rows.length,
+        })
+        .select("id, status")
+        .single();
+      if (error) throw error;
+      run = data;
+      console.log(
+        `Queued tuning run ${run.id}: ${candidates.length} ${config.strategy} search trials of ${yieldModel.name} ` +
+          `for ${crop ?? "all crops"} on ${dataset.name} v${dataset.version}`,
+      );
+    }
+
+    // Trials run after the response is sent; callers follow the run in tuning_runs and tuning_trials
+    EdgeRuntime.waitUntil(
+      runTrialBatch(supabase, run.id).catch((error) => console.error(`Tuning run ${run.id}:`, error)),
+    );
+
+    return new Response(
+      JSON.stringify({ run_id: run.id, status: run.status }),
+      {
+        status: 202,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Error:", error);
+    return errorResponse(error instanceof Error ? error.message : "Unknown error", 500);
+  }
+});
+
+// The rows a search cross-validates on: those of the pooled model (every crop, with crop
+// indicators) or of one crop's models, minus the test rows the trained models are scored
+// on, so tuning does not leak into the test scores
+function tuningRows(datasetRows: TrainingRow[], crop: string | null): FeatureRow[] {
+  if (crop !== null) {
+    const cropRows = datasetRows.filter((r) => r.crop === crop);
+    const split = trainValidationTestSplit(cropRows.length, DEFAULT_EVALUATION_OPTIONS);
+    return [...split.train, ...split.validation].map((i) => cropRows[i]);
+  }
+  const crops = [...new Set(datasetRows.map((r) => r.crop))].sort();
+  const split = trainValidationTestSplit(datasetRows.length, DEFAULT_EVALUATION_OPTIONS);
+  return [...split.train, ...split.validation]
+    .map((i) => withCropIndicators(datasetRows[i], datasetRows[i].crop, crops));
+}
+
+// Take the run's lease, run pending trials for one batch and hand the rest to a new
+// invocation; the last batch promotes the best trial. Nobody awaits the outcome, so a
+// failure is recorded on the run instead of thrown.
+async function runTrialBatch(supabase: SupabaseClient, runId: string): Promise<void> {
+  const run = await claimJob<TuningRun>(supabase, "tuning_runs", runId);
+  if (!run) return; // Finished, or another worker holds the lease
+
+  try {
+    const yieldModel = YIELD_MODELS.find((m) => m.name === run.model_name);
+    if (!yieldModel) throw new Error(`${run.model_name} is no longer a registered model.`);
+    if (!run.dataset_id) throw new Error("The dataset version of this run has been deleted.");
+    const datasetRows = await fetchTrainingRows(supabase, run.dataset_id);
+    const rows = tuningRows(datasetRows, run.crop);
+    if (rows.length !== run.training_rows) {
+      // Later trials would be scored on rows the earlier ones did not see
+      throw new Error("The dataset version changed during the search. Start a new search.");
+    }
+    const crops = [...new Set(datasetRows.map((r) => r.crop))].sort();
+    const features = run.crop === null ? [...MODEL_FEATURES, ...cropFeatureNames(crops)] : MODEL_FEATURES;
+
+    // Trials are stored as they finish, so a resumed run only tries the rest
+    const { data: stored, error: storedError } = await supabase
+      .from("tuning_trials")
+      .select("trial")
+      .eq("run_id", run.id);
+    if (storedError) throw storedError;
+    const done = new Set<number>((stored ?? []).map((t: { trial: number }) => t.trial));
+
+    const predict = predictScaled(yieldModel.predict);
+    const ran = await runPendingTrials(
+      run.candidates,
+      done,
+      (params) =>
+        crossValidate(
+          rows, "yield",
+          withScaling((subset) => yieldModel.fit(subset, features, "yield", params), MODEL_FEATURES, run.scaler),
+          predict,
+          run.folds,
+          run.seed,
+        ),
+      BATCH_BUDGET_MS,
+      async (trial) => {
+        await storeTrial(supabase, run.id, trial);
+        done.add(trial.trial);
+      },
+    );
+    console.log(`Tuning run ${run.id}: ${ran} trials, ${done.size} of ${run.candidates.length} done`);
+
+    if (done.size < run.candidates.length) {
+      await updateJob(supabase, "tuning_runs", run.id, { lease_expires_at: null });
+      const { error } = await supabase.functions.invoke("tune-model", { body: { run_id: run.id } });
+      if (error) console.error(`Tuning run ${run.id}: could not start the next batch (${error.message})`);
+      return;
+    }
+
+    // Every trial is kept for the leaderboard; the best is promoted for the next training run
+    const { data: trials, error: trialsError } = await supabase
+      .from("tuning_trials")
+      .select("id, trial, cv_r2_mean")
+      .eq("run_id", run.id);
+    if (trialsError) throw trialsError;
+    const best = bestTrial(trials as { id: string; trial: number; cv_r2_mean: number }[]);
+    const { error: promoteError } = await supabase.from("tuning_trials").update({ promoted: true }).eq("id", best.id);
+    if (promoteError) throw promoteError;
+    await updateJob(supabase, "tuning_runs", run.id, {
+      status: "succeeded",
+      lease_expires_at: null,
+      finished_at: new Date().toISOString(),
+    });
+    console.log(`Tuning run ${run.id}: promoted trial ${best.trial} (CV R² ${best.cv_r2_mean})`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Tuning run ${run.id} failed:`, message);
+    await updateJob(supabase, "tuning_runs", run.id, {
+      status: "failed",
+      error: message,
+      lease_expires_at: null,
+      finished_at: new Date().toISOString(),
+    });
+  }
+}
+
+// A trial that was already stored (by a worker that died before releasing the run) is kept
+async function storeTrial(supabase: SupabaseClient, runId: string, t: Trial): Promise<void> {
+  const { error } = await supabase.from("tuning_trials").upsert(
+    {
+      run_id: runId,
+      trial: t.trial,
+      parameters: t.parameters,
+      fold_scores: t.fold_scores.map((s) => ({
+        fold: s.fold, r2: round(s.r2, 4), mae: round(s.mae, 2), rmse: round(s.rmse, 2),
+      })),
+      cv_r2_mean: round(t.cv_r2_mean, 4),
+      cv_r2_std: round(t.cv_r2_std, 4),
+      cv_mae_mean: round(t.cv_mae_mean, 4),
+      cv_rmse_mean: round(t.cv_rmse_mean, 4),
+      duration_ms: t.duration_ms,
+    },
+    { onConflict: "run_id,trial", ignoreDuplicates: true },
+  );
+  if (error) throw error;
+}
+
+function errorResponse(message: string, status: number): Response {
+  return new Response(
+    JSON.stringify({ error: message }),
+    {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+function round(value: number, digits: number): number {
+  return parseFloat(value.toFixed(digits));
+}
@@ -0,0 +1,25 @@
+-- Fitted model parameters produced by the training step in generate-dataset.
+-- predict-yield loads the latest artifact per model instead of hardcoding parameters.
+CREATE TABLE public.model_artifacts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  model_name TEXT NOT NULL,
+  algorithm TEXT NOT NULL,
+  features TEXT[] NOT NULL,
+  parameters JSONB NOT NULL, -- Serialized model (coefficients, intercept, ...)
+  training_rows INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.model_artifacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to model artifacts"
+ON public.model_artifacts
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow public insert to model artifacts"
+ON public.model_artifacts
+FOR INSERT
+WITH CHECK (true);
+
+CREATE INDEX idx_model_artifacts_model_name_created_at ON public.model_artifacts(model_name, created_at DESC);
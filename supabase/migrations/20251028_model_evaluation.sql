@@ -0,0 +1,11 @@
+-- Measured evaluation results written by generate-dataset's training step.
+-- r2_score / mae / rmse hold the held-out test set scores; the columns below
+-- record how they were obtained.
+ALTER TABLE public.model_metrics
+ADD COLUMN train_rows INTEGER,
+ADD COLUMN validation_rows INTEGER,
+ADD COLUMN test_rows INTEGER,
+ADD COLUMN validation_r2 DECIMAL(6,4),
+ADD COLUMN cv_r2_mean DECIMAL(6,4),
+ADD COLUMN cv_r2_std DECIMAL(6,4),
+ADD COLUMN cv_fold_scores JSONB; -- [{ fold, r2, mae, rmse }, ...]
@@ -0,0 +1,8 @@
+-- The crop the user asked about, stored separately from the recommended crop
+-- (predicted_crop) so yields can be attributed to the right crop.
+ALTER TABLE public.predictions
+ADD COLUMN target_crop TEXT;
+
+-- Crops each model saw during training (crop is a one-hot encoded feature)
+ALTER TABLE public.model_artifacts
+ADD COLUMN crops TEXT[] NOT NULL DEFAULT '{}';
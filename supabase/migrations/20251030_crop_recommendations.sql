@@ -0,0 +1,4 @@
+-- Ranked crop suitability from the trained classifier: [{ crop, probability }, ...]
+-- predicted_crop keeps the top-ranked crop.
+ALTER TABLE public.predictions
+ADD COLUMN crop_recommendations JSONB;
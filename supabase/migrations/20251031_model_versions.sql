@@ -0,0 +1,54 @@
+-- Versioned model registry: every training run stores a new immutable version
+-- per model, and metrics and predictions point at the exact version they used.
+ALTER TABLE public.model_artifacts RENAME TO models;
+ALTER POLICY "Allow public read access to model artifacts" ON public.models RENAME TO "Allow public read access to models";
+ALTER POLICY "Allow public insert to model artifacts" ON public.models RENAME TO "Allow public insert to models";
+ALTER INDEX public.idx_model_artifacts_model_name_created_at RENAME TO idx_models_model_name_created_at;
+
+ALTER TABLE public.models
+ADD COLUMN version INTEGER,
+ADD COLUMN hyperparameters JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN dataset_snapshot TEXT; -- Fingerprint of the crops_dataset rows the model was trained on
+
+-- Number existing artifacts in training order
+UPDATE public.models m
+SET version = v.version
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY model_name ORDER BY created_at) AS version
+  FROM public.models
+) v
+WHERE m.id = v.id;
+
+ALTER TABLE public.models
+ALTER COLUMN version SET NOT NULL,
+ADD CONSTRAINT models_model_name_version_key UNIQUE (model_name, version);
+
+-- Assign the next version per model name on insert
+CREATE OR REPLACE FUNCTION public.assign_model_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.model_name));
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM public.models
+  WHERE model_name = NEW.model_name;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_model_version
+BEFORE INSERT ON public.models
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_model_version();
+
+-- Link metrics to the model version they evaluate
+ALTER TABLE public.model_metrics
+ADD COLUMN model_id UUID REFERENCES public.models(id);
+
+CREATE INDEX idx_model_metrics_model_id ON public.model_metrics(model_id);
+
+-- Exact model versions behind each prediction: { "<model_name>": { "id": ..., "version": ... } }
+ALTER TABLE public.predictions
+ADD COLUMN model_versions JSONB;
@@ -0,0 +1,5 @@
+-- Feature scaler fitted on the training rows of each model version:
+-- { kind: "standard" | "minmax", features, offset, scale }. predict-yield applies it
+-- to the input before calling the model. NULL for versions trained before scaling.
+ALTER TABLE public.models
+ADD COLUMN scaler JSONB;
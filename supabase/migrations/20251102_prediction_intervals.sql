@@ -0,0 +1,9 @@
+-- Prediction intervals around each model's yield estimate, at confidence_level (e.g. 0.90).
+-- Linear Regression bounds come from its residual spread, Random Forest bounds from the
+-- spread of its trees. NULL for predictions made before intervals were recorded.
+ALTER TABLE public.predictions
+ADD COLUMN confidence_level DECIMAL(4,3),
+ADD COLUMN predicted_yield_lr_lower DECIMAL(10,2),
+ADD COLUMN predicted_yield_lr_upper DECIMAL(10,2),
+ADD COLUMN predicted_yield_rf_lower DECIMAL(10,2),
+ADD COLUMN predicted_yield_rf_upper DECIMAL(10,2);
@@ -0,0 +1,8 @@
+-- Global importances: mean drop in held-out R² when a feature is permuted, per model version.
+ALTER TABLE public.model_metrics
+ADD COLUMN permutation_importances JSONB;
+
+-- Local attributions of a single prediction from its best model:
+-- { model, baseline, contributions: { <feature>: kg/ha } }, baseline + contributions = yield.
+ALTER TABLE public.predictions
+ADD COLUMN feature_attributions JSONB;
@@ -0,0 +1,32 @@
+-- Per-crop yield models. crop is NULL for the pooled models trained on every crop,
+-- which predict-yield falls back to when a crop has no model of its own.
+ALTER TABLE public.models
+ADD COLUMN crop TEXT;
+
+-- Versions are numbered per (model_name, crop)
+ALTER TABLE public.models
+DROP CONSTRAINT models_model_name_version_key;
+
+CREATE UNIQUE INDEX models_model_name_crop_version_key
+ON public.models (model_name, COALESCE(crop, ''), version);
+
+CREATE OR REPLACE FUNCTION public.assign_model_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.model_name || '/' || COALESCE(NEW.crop, '')));
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM public.models
+  WHERE model_name = NEW.model_name
+    AND crop IS NOT DISTINCT FROM NEW.crop;
+  RETURN NEW;
+END;
+$$;
+
+-- Metrics are broken out by crop the same way
+ALTER TABLE public.model_metrics
+ADD COLUMN crop TEXT;
+
+CREATE INDEX idx_model_metrics_crop_training_date ON public.model_metrics(crop, training_date DESC);
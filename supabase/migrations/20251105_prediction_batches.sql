@@ -0,0 +1,5 @@
+-- Predictions made together in one batch request share a batch_id (NULL for single predictions).
+ALTER TABLE public.predictions
+ADD COLUMN batch_id UUID;
+
+CREATE INDEX idx_predictions_batch_id ON public.predictions (batch_id) WHERE batch_id IS NOT NULL;
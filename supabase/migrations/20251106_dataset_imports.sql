@@ -0,0 +1,32 @@
+-- Uploaded field observations: one row per import with its validation report,
+-- and each imported crops_dataset row linked back to it.
+CREATE TABLE public.dataset_imports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_name TEXT NOT NULL,
+  column_mapping JSONB NOT NULL, -- { <dataset column>: <source column> }
+  total_rows INTEGER NOT NULL,
+  imported_rows INTEGER NOT NULL,
+  rejected_rows INTEGER NOT NULL,
+  duplicate_rows INTEGER NOT NULL,
+  errors JSONB NOT NULL DEFAULT '[]', -- [{ row, errors: [...] }] for rejected rows
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.dataset_imports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to dataset imports"
+ON public.dataset_imports
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow public insert to dataset imports"
+ON public.dataset_imports
+FOR INSERT
+WITH CHECK (true);
+
+-- Where a crops_dataset row came from: the synthetic generator or an upload
+ALTER TABLE public.crops_dataset
+ADD COLUMN source TEXT NOT NULL DEFAULT 'synthetic' CHECK (source IN ('synthetic', 'upload')),
+ADD COLUMN import_id UUID REFERENCES public.dataset_imports(id);
+
+CREATE INDEX idx_crops_dataset_import_id ON public.crops_dataset(import_id);
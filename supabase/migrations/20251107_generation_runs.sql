@@ -0,0 +1,26 @@
+-- Synthetic dataset generation runs: the full config (seed, record count, crops,
+-- feature distributions, noise, missing and outlier rates) so a run can be replayed.
+CREATE TABLE public.generation_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  seed BIGINT NOT NULL,
+  config JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.generation_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to generation runs"
+ON public.generation_runs
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow public insert to generation runs"
+ON public.generation_runs
+FOR INSERT
+WITH CHECK (true);
+
+-- Generated rows point at the run that produced them (NULL for uploads and older rows)
+ALTER TABLE public.crops_dataset
+ADD COLUMN generation_id UUID REFERENCES public.generation_runs(id);
+
+CREATE INDEX idx_crops_dataset_generation_id ON public.crops_dataset(generation_id);
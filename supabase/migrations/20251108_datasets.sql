@@ -0,0 +1,134 @@
+-- Dataset versions: every crops_dataset row belongs to exactly one named, numbered
+-- version. One version is active (the one training uses by default); old versions
+-- can be archived or deleted together with their rows.
+CREATE TABLE public.datasets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  version INTEGER NOT NULL, -- Assigned on insert, increasing per name
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'ready' CHECK (status IN ('ready', 'archived')),
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  row_count INTEGER NOT NULL DEFAULT 0, -- Maintained by triggers on crops_dataset
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  archived_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT datasets_name_version_key UNIQUE (name, version),
+  CONSTRAINT datasets_active_not_archived CHECK (NOT (is_active AND status = 'archived'))
+);
+
+-- At most one active version
+CREATE UNIQUE INDEX datasets_single_active ON public.datasets (is_active) WHERE is_active;
+
+ALTER TABLE public.datasets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to datasets"
+ON public.datasets
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow public insert to datasets"
+ON public.datasets
+FOR INSERT
+WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION public.assign_dataset_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('dataset/' || NEW.name));
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM public.datasets
+  WHERE name = NEW.name;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_dataset_version
+BEFORE INSERT ON public.datasets
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_dataset_version();
+
+-- Make one version the active one (clearing the flag first keeps the unique index satisfied)
+CREATE OR REPLACE FUNCTION public.activate_dataset(target UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.datasets WHERE id = target AND status = 'ready') THEN
+    RAISE EXCEPTION 'Dataset % does not exist or is archived', target;
+  END IF;
+  UPDATE public.datasets SET is_active = false WHERE is_active AND id <> target;
+  UPDATE public.datasets SET is_active = true WHERE id = target;
+END;
+$$;
+
+-- Rows created before versioning become version 1 of "Legacy", active so training is unchanged
+ALTER TABLE public.crops_dataset
+ADD COLUMN dataset_id UUID REFERENCES public.datasets(id) ON DELETE CASCADE;
+
+WITH legacy AS (
+  INSERT INTO public.datasets (name, description, is_active)
+  SELECT 'Legacy', 'Rows created before dataset versioning', true
+  WHERE EXISTS (SELECT 1 FROM public.crops_dataset)
+  RETURNING id
+)
+UPDATE public.crops_dataset SET dataset_id = (SELECT id FROM legacy);
+
+UPDATE public.datasets d
+SET row_count = (SELECT count(*) FROM public.crops_dataset c WHERE c.dataset_id = d.id);
+
+ALTER TABLE public.crops_dataset
+ALTER COLUMN dataset_id SET NOT NULL;
+
+CREATE INDEX idx_crops_dataset_dataset_id ON public.crops_dataset(dataset_id);
+
+-- Keep datasets.row_count in step with inserts and deletes
+CREATE OR REPLACE FUNCTION public.count_dataset_rows()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.datasets d SET row_count = d.row_count + n.count
+    FROM (SELECT dataset_id, count(*) AS count FROM new_rows GROUP BY dataset_id) n
+    WHERE d.id = n.dataset_id;
+  ELSE
+    UPDATE public.datasets d SET row_count = d.row_count - o.count
+    FROM (SELECT dataset_id, count(*) AS count FROM old_rows GROUP BY dataset_id) o
+    WHERE d.id = o.dataset_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER count_dataset_rows_insert
+AFTER INSERT ON public.crops_dataset
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.count_dataset_rows();
+
+CREATE TRIGGER count_dataset_rows_delete
+AFTER DELETE ON public.crops_dataset
+REFERENCING OLD TABLE AS old_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION public.count_dataset_rows();
+
+-- Models and their metrics record the dataset version they were trained on; the
+-- reference is cleared if that version is deleted (dataset_snapshot still identifies the rows)
+ALTER TABLE public.models
+ADD COLUMN dataset_id UUID REFERENCES public.datasets(id) ON DELETE SET NULL;
+
+ALTER TABLE public.model_metrics
+ADD COLUMN dataset_id UUID REFERENCES public.datasets(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_model_metrics_dataset_id ON public.model_metrics(dataset_id);
+
+-- Generation runs and uploads record the version their rows were written to
+ALTER TABLE public.generation_runs
+ADD COLUMN dataset_id UUID REFERENCES public.datasets(id) ON DELETE SET NULL;
+
+ALTER TABLE public.dataset_imports
+ADD COLUMN dataset_id UUID REFERENCES public.datasets(id) ON DELETE SET NULL;
@@ -0,0 +1,44 @@
+-- Data-quality reports (see supabase/functions/_shared/quality.ts): the issues found in
+-- an upload or across a whole dataset version, and how they were handled.
+CREATE TABLE public.data_quality_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  dataset_id UUID NOT NULL REFERENCES public.datasets(id) ON DELETE CASCADE,
+  import_id UUID REFERENCES public.dataset_imports(id) ON DELETE SET NULL, -- Set when the report covers one upload
+  applied BOOLEAN NOT NULL, -- false for a preview: the handling was not written to crops_dataset
+  config JSONB NOT NULL, -- { outlier_method, iqr_multiplier, z_threshold, handling: { <issue kind>: <handling> } }
+  total_rows INTEGER NOT NULL,
+  kept_rows INTEGER NOT NULL,
+  dropped_rows INTEGER NOT NULL,
+  changed_rows INTEGER NOT NULL,
+  duplicate_rows INTEGER NOT NULL,
+  issue_count INTEGER NOT NULL,
+  columns JSONB NOT NULL, -- { <column>: { missing, out_of_range, outliers, plausible_range } }
+  issues JSONB NOT NULL DEFAULT '[]', -- First issues: [{ row, column, kind, value, action, replacement }]
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_data_quality_reports_dataset_id ON public.data_quality_reports(dataset_id, created_at DESC);
+
+ALTER TABLE public.data_quality_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to data quality reports"
+ON public.data_quality_reports
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow public insert to data quality reports"
+ON public.data_quality_reports
+FOR INSERT
+WITH CHECK (true);
+
+-- crops_dataset rejects values no measurement can have (the bounds of INPUT_RANGES in
+-- _shared/validation.ts); merely implausible values are left to the quality report.
+-- NOT VALID: rows written before this migration are not rechecked.
+ALTER TABLE public.crops_dataset
+ADD CONSTRAINT crops_dataset_temperature_check CHECK (temperature BETWEEN -50 AND 60) NOT VALID,
+ADD CONSTRAINT crops_dataset_rainfall_check CHECK (rainfall >= 0) NOT VALID,
+ADD CONSTRAINT crops_dataset_fertilizer_check CHECK (fertilizer >= 0) NOT VALID,
+ADD CONSTRAINT crops_dataset_soil_ph_check CHECK (soil_ph BETWEEN 0 AND 14) NOT VALID,
+ADD CONSTRAINT crops_dataset_humidity_check CHECK (humidity BETWEEN 0 AND 100) NOT VALID,
+ADD CONSTRAINT crops_dataset_npk_check CHECK (nitrogen >= 0 AND phosphorus >= 0 AND potassium >= 0) NOT VALID,
+ADD CONSTRAINT crops_dataset_yield_check CHECK (yield >= 0) NOT VALID;
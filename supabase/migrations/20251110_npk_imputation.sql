@@ -0,0 +1,15 @@
+-- Missing NPK inputs are imputed instead of treated as 0.
+--
+-- Per-crop medians of the optional measurements in each model version's training rows:
+-- { features, by_crop: { <crop>: { <feature>: median } }, overall: { <feature>: median } }.
+-- NULL for versions trained before imputation; those cannot serve inputs with empty NPK.
+ALTER TABLE public.models
+ADD COLUMN imputer JSONB;
+
+-- predictions keep the NPK values as submitted (NULL when left empty); imputed_features
+-- records the value used for each empty one, e.g. { "nitrogen": 112.5 }.
+ALTER TABLE public.predictions
+ADD COLUMN IF NOT EXISTS nitrogen DECIMAL(7,2),
+ADD COLUMN IF NOT EXISTS phosphorus DECIMAL(7,2),
+ADD COLUMN IF NOT EXISTS potassium DECIMAL(7,2),
+ADD COLUMN imputed_features JSONB NOT NULL DEFAULT '{}';
@@ -0,0 +1,61 @@
+-- predictions.feature_importances and model_metrics.tuned_parameters become JSONB.
+-- Both were TEXT holding a serialized object; the first tuned_parameters rows hold a
+-- Python dict repr ("{'n_estimators': 200, ...}"), which is not JSON.
+
+-- Parse a stored TEXT value: as JSON, else as a Python dict repr with its quotes and
+-- literals swapped; NULL when neither parses
+CREATE FUNCTION pg_temp.text_to_jsonb(value TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  BEGIN
+    RETURN value::jsonb;
+  EXCEPTION WHEN invalid_text_representation THEN
+    NULL;
+  END;
+  BEGIN
+    RETURN replace(replace(replace(replace(value, '''', '"'), 'True', 'true'), 'False', 'false'), 'None', 'null')::jsonb;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RETURN NULL;
+  END;
+END;
+$$;
+
+-- { <feature>: <number> }
+CREATE OR REPLACE FUNCTION public.is_number_map(value JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_typeof(value) = 'object'
+    AND NOT EXISTS (SELECT 1 FROM jsonb_each(value) e WHERE jsonb_typeof(e.value) <> 'number');
+$$;
+
+-- { <hyperparameter>: <number | string | boolean | null> }
+CREATE OR REPLACE FUNCTION public.is_parameter_map(value JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_typeof(value) = 'object'
+    AND NOT EXISTS (SELECT 1 FROM jsonb_each(value) e WHERE jsonb_typeof(e.value) IN ('object', 'array'));
+$$;
+
+ALTER TABLE public.predictions
+ALTER COLUMN feature_importances TYPE JSONB USING pg_temp.text_to_jsonb(feature_importances);
+
+ALTER TABLE public.model_metrics
+ALTER COLUMN tuned_parameters TYPE JSONB USING pg_temp.text_to_jsonb(tuned_parameters);
+
+-- Values of another shape cannot be read as importances or hyperparameters either
+UPDATE public.predictions SET feature_importances = NULL WHERE NOT public.is_number_map(feature_importances);
+UPDATE public.model_metrics SET tuned_parameters = NULL WHERE NOT public.is_parameter_map(tuned_parameters);
+
+ALTER TABLE public.predictions
+ADD CONSTRAINT predictions_feature_importances_check CHECK (public.is_number_map(feature_importances));
+
+ALTER TABLE public.model_metrics
+ADD CONSTRAINT model_metrics_tuned_parameters_check CHECK (public.is_parameter_map(tuned_parameters));
@@ -0,0 +1,45 @@
+-- One row per yield model and prediction (see supabase/functions/_shared/yield-models.ts),
+-- replacing the predicted_yield_lr/_rf columns and their interval bounds, so a new model
+-- does not need new predictions columns.
+CREATE TABLE public.prediction_outputs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  prediction_id UUID NOT NULL REFERENCES public.predictions(id) ON DELETE CASCADE,
+  model_name TEXT NOT NULL,
+  model_id UUID REFERENCES public.models(id) ON DELETE SET NULL, -- The exact version; NULL for backfilled rows without one
+  predicted_yield DECIMAL(10,2) NOT NULL,
+  yield_lower DECIMAL(10,2), -- Interval at predictions.confidence_level
+  yield_upper DECIMAL(10,2),
+  details JSONB, -- Model-specific diagnostics, e.g. { std, min, max } of a forest's trees
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (prediction_id, model_name)
+);
+
+ALTER TABLE public.prediction_outputs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to prediction outputs"
+ON public.prediction_outputs
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow public insert to prediction outputs"
+ON public.prediction_outputs
+FOR INSERT
+WITH CHECK (true);
+
+-- Existing predictions keep their two outputs, linked to the versions recorded in model_versions
+INSERT INTO public.prediction_outputs (prediction_id, model_name, model_id, predicted_yield, yield_lower, yield_upper, created_at)
+SELECT p.id, o.model_name, m.id, o.predicted_yield, o.yield_lower, o.yield_upper, p.created_at
+FROM public.predictions p
+CROSS JOIN LATERAL (VALUES
+  ('Linear Regression', p.predicted_yield_lr, p.predicted_yield_lr_lower, p.predicted_yield_lr_upper),
+  ('Random Forest', p.predicted_yield_rf, p.predicted_yield_rf_lower, p.predicted_yield_rf_upper)
+) AS o(model_name, predicted_yield, yield_lower, yield_upper)
+LEFT JOIN public.models m ON m.id::text = p.model_versions -> o.model_name ->> 'id';
+
+ALTER TABLE public.predictions
+DROP COLUMN predicted_yield_lr,
+DROP COLUMN predicted_yield_rf,
+DROP COLUMN predicted_yield_lr_lower,
+DROP COLUMN predicted_yield_lr_upper,
+DROP COLUMN predicted_yield_rf_lower,
+DROP COLUMN predicted_yield_rf_upper;
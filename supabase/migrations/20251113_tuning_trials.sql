@@ -0,0 +1,56 @@
+-- Hyperparameter searches (see supabase/functions/tune-model): one run per search and one
+-- trial per configuration tried. The best trial of a run is promoted, and generate-dataset
+-- trains each model with its latest promoted parameters.
+CREATE TABLE public.tuning_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  model_name TEXT NOT NULL,
+  dataset_id UUID REFERENCES public.datasets(id) ON DELETE SET NULL,
+  strategy TEXT NOT NULL CHECK (strategy IN ('grid', 'random')),
+  folds INTEGER NOT NULL,
+  seed BIGINT NOT NULL,
+  search_space JSONB NOT NULL, -- { <hyperparameter>: [<candidate values>] }
+  training_rows INTEGER NOT NULL, -- Cross-validated on, i.e. without the test rows
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.tuning_trials (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES public.tuning_runs(id) ON DELETE CASCADE,
+  trial INTEGER NOT NULL, -- 1-based, in the order tried
+  parameters JSONB NOT NULL CHECK (public.is_parameter_map(parameters)), -- Full configuration, defaults included
+  fold_scores JSONB NOT NULL, -- [{ fold, r2, mae, rmse }]
+  cv_r2_mean DECIMAL(6,4) NOT NULL,
+  cv_r2_std DECIMAL(6,4) NOT NULL,
+  cv_mae_mean DECIMAL(10,4) NOT NULL,
+  cv_rmse_mean DECIMAL(10,4) NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  promoted BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (run_id, trial)
+);
+
+CREATE INDEX idx_tuning_runs_model_name ON public.tuning_runs(model_name, created_at DESC);
+CREATE INDEX idx_tuning_trials_promoted ON public.tuning_trials(created_at DESC) WHERE promoted;
+
+ALTER TABLE public.tuning_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tuning_trials ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to tuning runs"
+ON public.tuning_runs
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow public insert to tuning runs"
+ON public.tuning_runs
+FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Allow public read access to tuning trials"
+ON public.tuning_trials
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow public insert to tuning trials"
+ON public.tuning_trials
+FOR INSERT
+WITH CHECK (true);
@@ -0,0 +1,36 @@
+-- Model training jobs (see supabase/functions/train-models). A job trains every model on one
+-- dataset version in steps of one function invocation each, so training no longer depends on
+-- the request that generated the dataset staying open. Steps, hyperparameters and the
+-- dataset snapshot are fixed when the job starts.
+CREATE TABLE public.training_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  dataset_id UUID REFERENCES public.datasets(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  config JSONB NOT NULL DEFAULT '{}', -- { scaler, ridge_alpha } as requested
+  hyperparameters JSONB, -- { <model_name>: { ... } } overrides the models train with
+  dataset_snapshot TEXT,
+  steps TEXT[] NOT NULL DEFAULT '{}', -- 'pooled', 'crop:<crop>' per crop with enough rows, 'recommender'
+  completed_steps INTEGER NOT NULL DEFAULT 0, -- Progress: completed_steps of steps
+  logs JSONB NOT NULL DEFAULT '[]', -- [{ at, message }]
+  result JSONB, -- { metrics, crop_metrics, crop_recommender_accuracy, model_versions }, filled in step by step
+  error TEXT,
+  lease_expires_at TIMESTAMP WITH TIME ZONE, -- Set while a worker runs a step; another may take over after it
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_training_jobs_created_at ON public.training_jobs(created_at DESC);
+
+ALTER TABLE public.training_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to training jobs"
+ON public.training_jobs
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow public insert to training jobs"
+ON public.training_jobs
+FOR INSERT
+WITH CHECK (true);
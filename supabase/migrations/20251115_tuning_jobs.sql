@@ -0,0 +1,21 @@
+-- Hyperparameter searches run as jobs (see supabase/functions/tune-model): a search is
+-- queued with its candidates fixed, and trials run in leased batches of one function
+-- invocation each until every candidate has been tried. A search tunes the pooled models
+-- (crop NULL) or the models of one crop, and train-models only reuses its promoted trial
+-- for the models trained on the same rows.
+ALTER TABLE public.tuning_runs
+ADD COLUMN crop TEXT,
+ADD COLUMN scaler TEXT NOT NULL DEFAULT 'standard',
+ADD COLUMN candidates JSONB NOT NULL DEFAULT '[]', -- [{ <hyperparameter>: <value> }], trial n is candidates[n - 1]
+ADD COLUMN status TEXT NOT NULL DEFAULT 'succeeded' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+ADD COLUMN error TEXT,
+ADD COLUMN lease_expires_at TIMESTAMP WITH TIME ZONE, -- Set while a worker runs a batch; another may take over after it
+ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+ADD COLUMN finished_at TIMESTAMP WITH TIME ZONE;
+
+-- Searches recorded before this ran all of their trials in one request
+ALTER TABLE public.tuning_runs
+ALTER COLUMN status SET DEFAULT 'queued';
+
+DROP INDEX public.idx_tuning_runs_model_name;
+CREATE INDEX idx_tuning_runs_model_name ON public.tuning_runs(model_name, COALESCE(crop, ''), created_at DESC);
@@ -0,0 +1,10 @@
+-- The training job step that saved each model version (see supabase/functions/train-models).
+-- A step resumed after its worker died reuses the versions it already saved instead of
+-- saving new ones, so it adds no duplicate versions or model_metrics rows.
+ALTER TABLE public.models
+ADD COLUMN training_job_id UUID REFERENCES public.training_jobs(id) ON DELETE SET NULL,
+ADD COLUMN training_step TEXT; -- One of training_jobs.steps; null for versions saved outside a job
+
+CREATE UNIQUE INDEX models_training_job_step_key
+ON public.models (training_job_id, training_step, model_name)
+WHERE training_job_id IS NOT NULL;